@@ -0,0 +1,180 @@
+import * as path from 'path';
+import * as fs from 'fs';
+
+// This file reads the binary data behind glTF buffers and accessors, for language features
+// that need to show or check actual values.  Only `.gltf` files with data URIs or external
+// buffer files are supported, as the language server does not handle GLB.
+
+export const componentTypeByteSizes = {
+    5120: 1,
+    5121: 1,
+    5122: 2,
+    5123: 2,
+    5125: 4,
+    5126: 4
+};
+
+export const accessorTypeComponentCounts = {
+    SCALAR: 1,
+    VEC2: 2,
+    VEC3: 3,
+    VEC4: 4,
+    MAT2: 4,
+    MAT3: 9,
+    MAT4: 16
+};
+
+interface CachedBuffer {
+    data: Buffer | undefined;
+    /** The modification time of an external buffer file, which can change while the document does not. */
+    mtime?: number;
+}
+
+/**
+ * The buffers already read for each `.gltf` file, by buffer index, so that hovering over one accessor after
+ * another does not read or decode the same data each time.  The server clears a file's buffers whenever its
+ * document changes or closes, so the cached buffers always belong to the current version of the document.
+ */
+const bufferCache = new Map<string, Map<number, CachedBuffer>>();
+
+/**
+ * Forget the buffers read for a `.gltf` file, because its document has changed or closed.
+ *
+ * @param fileName The full path of the `.gltf` file
+ */
+export function clearBufferCache(fileName: string): void {
+    bufferCache.delete(fileName);
+}
+
+/**
+ * Read the contents of a glTF buffer.
+ *
+ * @param glTF The glTF root object
+ * @param bufferIndex The index of the buffer
+ * @param fileName The full path of the `.gltf` file, against which relative URIs are resolved
+ * @return The buffer contents, or `undefined` if the buffer cannot be read
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function getBufferData(glTF: any, bufferIndex: number, fileName: string): Buffer | undefined {
+    const buffer = (glTF.buffers || [])[bufferIndex];
+    if (!buffer || typeof buffer.uri !== 'string') {
+        return undefined;
+    }
+
+    let fileBuffers = bufferCache.get(fileName);
+    if (!fileBuffers) {
+        fileBuffers = new Map<number, CachedBuffer>();
+        bufferCache.set(fileName, fileBuffers);
+    }
+    const cached = fileBuffers.get(bufferIndex);
+
+    try {
+        if (buffer.uri.startsWith('data:')) {
+            if (cached) {
+                return cached.data;
+            }
+            const posBase = buffer.uri.indexOf('base64,');
+            const data = (posBase < 0) ? undefined : Buffer.from(buffer.uri.substring(posBase + 7), 'base64');
+            fileBuffers.set(bufferIndex, { data: data });
+            return data;
+        }
+
+        const bufferFileName = path.resolve(path.dirname(fileName), decodeURIComponent(buffer.uri));
+        const mtime = fs.statSync(bufferFileName).mtimeMs;
+        if (cached && cached.mtime === mtime) {
+            return cached.data;
+        }
+        const data = fs.readFileSync(bufferFileName);
+        fileBuffers.set(bufferIndex, { data: data, mtime: mtime });
+        return data;
+    } catch (ex) {
+        return undefined;
+    }
+}
+
+/**
+ * Read the contents of a glTF bufferView.
+ *
+ * @param glTF The glTF root object
+ * @param bufferViewIndex The index of the bufferView
+ * @param fileName The full path of the `.gltf` file
+ * @return The bytes of the bufferView, or `undefined` if they cannot be read
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function getBufferViewData(glTF: any, bufferViewIndex: number, fileName: string): Buffer | undefined {
+    const bufferView = (glTF.bufferViews || [])[bufferViewIndex];
+    if (!bufferView) {
+        return undefined;
+    }
+    const data = getBufferData(glTF, bufferView.buffer, fileName);
+    if (!data) {
+        return undefined;
+    }
+    const byteOffset = bufferView.byteOffset || 0;
+    return data.subarray(byteOffset, byteOffset + bufferView.byteLength);
+}
+
+function readComponent(data: Buffer, offset: number, componentType: number, normalized: boolean): number {
+    switch (componentType) {
+        case 5120: {
+            const value = data.readInt8(offset);
+            return normalized ? Math.max(value / 127, -1) : value;
+        }
+        case 5121: {
+            const value = data.readUInt8(offset);
+            return normalized ? value / 255 : value;
+        }
+        case 5122: {
+            const value = data.readInt16LE(offset);
+            return normalized ? Math.max(value / 32767, -1) : value;
+        }
+        case 5123: {
+            const value = data.readUInt16LE(offset);
+            return normalized ? value / 65535 : value;
+        }
+        case 5125:
+            return data.readUInt32LE(offset);
+        default:
+            return data.readFloatLE(offset);
+    }
+}
+
+/**
+ * Read and decode the elements of an accessor, applying normalization if specified.
+ * Sparse substitution is not applied.
+ *
+ * @param glTF The glTF root object
+ * @param accessor The accessor to read
+ * @param fileName The full path of the `.gltf` file
+ * @param maxCount The greatest number of elements to read, or `undefined` for all of them
+ * @return One array of components per element, or `undefined` if the data cannot be read
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function readAccessorElements(glTF: any, accessor: any, fileName: string, maxCount?: number): number[][] | undefined {
+    const numComponents = accessorTypeComponentCounts[accessor.type];
+    const componentSize = componentTypeByteSizes[accessor.componentType];
+    if (accessor.bufferView === undefined || !numComponents || !componentSize) {
+        return undefined;
+    }
+
+    const data = getBufferViewData(glTF, accessor.bufferView, fileName);
+    if (!data) {
+        return undefined;
+    }
+
+    const byteStride = glTF.bufferViews[accessor.bufferView].byteStride || (numComponents * componentSize);
+    const count = (maxCount === undefined) ? accessor.count : Math.min(maxCount, accessor.count);
+    let elements: number[][] = [];
+    for (let index = 0; index < count; ++index) {
+        const elementOffset = (accessor.byteOffset || 0) + index * byteStride;
+        if (elementOffset + numComponents * componentSize > data.length) {
+            break;
+        }
+        let element: number[] = [];
+        for (let component = 0; component < numComponents; ++component) {
+            element.push(readComponent(data, elementOffset + component * componentSize, accessor.componentType, !!accessor.normalized));
+        }
+        elements.push(element);
+    }
+    return elements;
+}
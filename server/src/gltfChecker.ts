@@ -0,0 +1,128 @@
+import { TextDocument, Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver';
+import { JsonMap, getFromPath, escapePointerSegment, forEachReference, isGltf1 } from './gltfReferences';
+
+// This file is a quick check of the references in a glTF 1.0 or 2.0 document, for use when
+// the glTF Validator is disabled or cannot validate the document.  Where the glTF Validator
+// reports the same problem, the same issue code is used.
+
+export const UNRESOLVED_REFERENCE = 'UNRESOLVED_REFERENCE';
+export const UNUSED_OBJECT = 'UNUSED_OBJECT';
+export const UNDECLARED_EXTENSION = 'UNDECLARED_EXTENSION';
+export const MESH_PRIMITIVE_GENERATED_TANGENT_SPACE = 'MESH_PRIMITIVE_GENERATED_TANGENT_SPACE';
+
+/**
+ * Collections whose objects are only useful when something refers to them.
+ */
+const orphanCollections = [
+    '/accessors', '/buffers', '/bufferViews', '/cameras', '/images', '/materials',
+    '/meshes', '/nodes', '/samplers', '/skins', '/textures'
+];
+
+/**
+ * Make a function that adds a diagnostic for the value at a JSON pointer, or optionally for its key and
+ * value together, which is the range the glTF Validator uses.
+ */
+function getDiagnosticAdder(document: TextDocument, map: JsonMap, diagnostics: Diagnostic[]) {
+    return (path: string, code: string, severity: DiagnosticSeverity, message: string, includeKey = false): void => {
+        const pointer = map.pointers[path];
+        if (pointer) {
+            const start = (includeKey && pointer.key) ? pointer.key : pointer.value;
+            const end = pointer.valueEnd;
+            diagnostics.push({
+                code: code,
+                severity: severity,
+                range: Range.create(document.positionAt(start.pos), document.positionAt(end.pos)),
+                message: message,
+                source: 'glTF Language Server'
+            });
+        }
+    };
+}
+
+/**
+ * Check the references of a glTF document: indices or IDs that refer to objects that do not exist,
+ * objects that nothing refers to, and extensions that are used without being declared.
+ *
+ * @param document The glTF document
+ * @param map The JSON map of the document
+ * @return A diagnostic for each problem found
+ */
+export function getReferenceDiagnostics(document: TextDocument, map: JsonMap): Diagnostic[] {
+    const glTF = map.data;
+    let diagnostics: Diagnostic[] = [];
+    const addDiagnostic = getDiagnosticAdder(document, map, diagnostics);
+
+    let referencedObjects = new Set<string>();
+    forEachReference(glTF, (path, target) => {
+        referencedObjects.add(target);
+        if (getFromPath(glTF, target) === undefined) {
+            addDiagnostic(path, UNRESOLVED_REFERENCE, DiagnosticSeverity.Error, `Unresolved reference: ${target}`);
+        }
+    });
+
+    for (let collection of orphanCollections) {
+        const objects = getFromPath(glTF, collection);
+        if (objects === null || typeof objects !== 'object') {
+            continue;
+        }
+        for (let id of Object.keys(objects)) {
+            const path = collection + '/' + escapePointerSegment(id);
+            if (!referencedObjects.has(path)) {
+                addDiagnostic(path, UNUSED_OBJECT, DiagnosticSeverity.Information, 'This object may be unused.');
+            }
+        }
+    }
+
+    const extensionsUsed: any[] = Array.isArray(glTF.extensionsUsed) ? glTF.extensionsUsed : [];
+    for (let path of Object.keys(map.pointers)) {
+        const pathSplit = path.split('/');
+        const numPathSegments = pathSplit.length;
+        if (numPathSegments < 2 || pathSplit[numPathSegments - 2] !== 'extensions' || pathSplit.indexOf('extras') >= 0) {
+            continue;
+        }
+        const name = pathSplit[numPathSegments - 1].replace(/~1/g, '/').replace(/~0/g, '~');
+        if (extensionsUsed.indexOf(name) < 0) {
+            addDiagnostic(path, UNDECLARED_EXTENSION, DiagnosticSeverity.Error, `Extension '${name}' is not declared in extensionsUsed.`, true);
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Find the mesh primitives of a glTF 2.0 document that use a normal texture but have no tangents, so each
+ * engine must generate its own.  Primitives without the normals and texture coordinates needed to generate
+ * tangents are not reported.  The glTF Validator does not report this, so it is checked whether or not the
+ * Validator runs.
+ *
+ * @param document The glTF document
+ * @param map The JSON map of the document
+ * @return A diagnostic on the `attributes` of each primitive that needs tangents
+ */
+export function getTangentSpaceDiagnostics(document: TextDocument, map: JsonMap): Diagnostic[] {
+    const glTF = map.data;
+    let diagnostics: Diagnostic[] = [];
+    if (isGltf1(glTF) || !Array.isArray(glTF.meshes)) {
+        return diagnostics;
+    }
+
+    const addDiagnostic = getDiagnosticAdder(document, map, diagnostics);
+    glTF.meshes.forEach((mesh: any, meshIndex: number) => {
+        if (!mesh || !Array.isArray(mesh.primitives)) {
+            return;
+        }
+        mesh.primitives.forEach((primitive: any, primitiveIndex: number) => {
+            const material = (primitive && Array.isArray(glTF.materials)) ? glTF.materials[primitive.material] : undefined;
+            if (!material || !material.normalTexture || !primitive.attributes || primitive.attributes.TANGENT !== undefined) {
+                return;
+            }
+            const texCoord = 'TEXCOORD_' + (material.normalTexture.texCoord || 0);
+            if ((primitive.mode === undefined || primitive.mode === 4) && primitive.attributes.POSITION !== undefined &&
+                primitive.attributes.NORMAL !== undefined && primitive.attributes[texCoord] !== undefined) {
+                addDiagnostic(`/meshes/${meshIndex}/primitives/${primitiveIndex}/attributes`, MESH_PRIMITIVE_GENERATED_TANGENT_SPACE,
+                    DiagnosticSeverity.Information, 'This primitive has a normal texture but no tangents, so each engine will generate its own.', true);
+            }
+        });
+    });
+    return diagnostics;
+}
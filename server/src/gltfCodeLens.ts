@@ -0,0 +1,194 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { TextDocument, CodeLens, Command, Range } from 'vscode-languageserver';
+import { JsonMap, escapePointerSegment, forEachReference, plural, formatByteSize } from './gltfReferences';
+import { accessorTypeComponentCounts, componentTypeByteSizes } from './gltfBuffers';
+
+// This file composes the code lenses shown above glTF objects: how many times each object
+// is referenced, the size of the data behind it, and how many scenes use it.
+
+/**
+ * The collections whose entries get code lenses.
+ */
+const codeLensCollections = ['meshes', 'materials', 'accessors', 'images', 'bufferViews', 'nodes'];
+
+/**
+ * The client command that shows the references to a glTF object, given a document URI and the position of the object.
+ */
+const findReferencesCommand = 'gltf.findReferences';
+
+/**
+ * Determine the JSON pointer of the top-level glTF object containing a reference,
+ * such as `/meshes/0` for `/meshes/0/primitives/1/material`.
+ */
+function getOwnerPath(referencePath: string): string | undefined {
+    const match = /^\/extensions\/[^/]+\/[^/]+\/[^/]+/.exec(referencePath) || /^\/[^/]+\/[^/]+/.exec(referencePath);
+    return match ? match[0] : undefined;
+}
+
+/**
+ * Collect every object that can be reached from the given object by following references.
+ * The object itself is included.
+ */
+function getReachableObjects(outgoing: Map<string, string[]>, start: string): Set<string> {
+    let reached = new Set<string>([start]);
+    let pending = [start];
+    while (pending.length > 0) {
+        for (let target of (outgoing.get(pending.pop()) || [])) {
+            if (!reached.has(target)) {
+                reached.add(target);
+                pending.push(target);
+            }
+        }
+    }
+    return reached;
+}
+
+function sizeOfAccessor(glTF: any, accessorId: string): number {
+    const accessor = (glTF.accessors || {})[accessorId];
+    if (!accessor) {
+        return 0;
+    }
+    return (accessorTypeComponentCounts[accessor.type] || 0) * (componentTypeByteSizes[accessor.componentType] || 0) * (accessor.count || 0);
+}
+
+function sizeOfImage(glTF: any, imageId: string, fileName: string): number | undefined {
+    const image = (glTF.images || {})[imageId];
+    if (!image) {
+        return undefined;
+    }
+    if (typeof image.uri === 'string') {
+        if (image.uri.startsWith('data:')) {
+            return image.uri.length * 0.75;
+        }
+        try {
+            return fs.statSync(path.resolve(path.dirname(fileName), decodeURIComponent(image.uri))).size;
+        } catch (ex) {
+            return undefined;
+        }
+    }
+    if (image.bufferView !== undefined) {
+        const bufferView = (glTF.bufferViews || {})[image.bufferView];
+        return bufferView ? bufferView.byteLength : undefined;
+    }
+    return undefined;
+}
+
+/**
+ * Sum the sizes of the accessors used by a mesh's primitives, including morph targets.
+ */
+function sizeOfMesh(glTF: any, mesh: any): number {
+    let size = 0;
+    for (let primitive of (mesh.primitives || [])) {
+        if (!primitive) {
+            continue;
+        }
+        if (primitive.indices !== undefined) {
+            size += sizeOfAccessor(glTF, primitive.indices);
+        }
+        for (let attribute of Object.keys(primitive.attributes || {})) {
+            size += sizeOfAccessor(glTF, primitive.attributes[attribute]);
+        }
+        for (let target of (primitive.targets || [])) {
+            for (let attribute of Object.keys(target || {})) {
+                size += sizeOfAccessor(glTF, target[attribute]);
+            }
+        }
+    }
+    return size;
+}
+
+/**
+ * Determine the size of the data behind a glTF object, or `undefined` if it has none.
+ */
+function getObjectSize(glTF: any, objectPath: string, outgoing: Map<string, string[]>, fileName: string): number | undefined {
+    const split = objectPath.split('/');
+    const collection = split[1];
+    const id = split[2];
+    const object = glTF[collection][id];
+    switch (collection) {
+        case 'accessors':
+            return sizeOfAccessor(glTF, id);
+        case 'bufferViews':
+            return (typeof object.byteLength === 'number') ? object.byteLength : undefined;
+        case 'images':
+            return sizeOfImage(glTF, id, fileName);
+        case 'meshes':
+            return sizeOfMesh(glTF, object);
+        case 'materials': {
+            // The images used by the material's textures.
+            let size: number;
+            getReachableObjects(outgoing, objectPath).forEach(reachedPath => {
+                const match = /^\/images\/([^/]+)$/.exec(reachedPath);
+                const imageSize = match ? sizeOfImage(glTF, match[1], fileName) : undefined;
+                if (imageSize !== undefined) {
+                    size = (size || 0) + imageSize;
+                }
+            });
+            return size;
+        }
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Compose code lenses for the meshes, materials, accessors, images, bufferViews and nodes of a glTF document.
+ *
+ * @param document The glTF document
+ * @param map The JSON map of the document
+ * @param fileName The full path of the `.gltf` file, used to find the size of external images
+ * @return A code lens above each object
+ */
+export function getCodeLenses(document: TextDocument, map: JsonMap, fileName: string): CodeLens[] {
+    const glTF = map.data;
+
+    // Count the references to each object, and note the objects that each object refers to.
+    let referenceCounts = new Map<string, number>();
+    let outgoing = new Map<string, string[]>();
+    forEachReference(glTF, (referencePath, target) => {
+        referenceCounts.set(target, (referenceCounts.get(target) || 0) + 1);
+        const owner = getOwnerPath(referencePath);
+        if (owner !== undefined && owner !== target) {
+            if (!outgoing.has(owner)) {
+                outgoing.set(owner, []);
+            }
+            outgoing.get(owner).push(target);
+        }
+    });
+
+    // Scenes must not be reached through other scenes' objects, so references to scenes are not followed.
+    outgoing.forEach((targets, owner) => outgoing.set(owner, targets.filter(target => !target.startsWith('/scenes/'))));
+    const scenes = glTF.scenes || {};
+    const sceneContents = Object.keys(scenes).map(sceneId => getReachableObjects(outgoing, '/scenes/' + escapePointerSegment(sceneId)));
+
+    let lenses: CodeLens[] = [];
+    for (let collection of codeLensCollections) {
+        const objects = glTF[collection];
+        if (objects === null || typeof objects !== 'object') {
+            continue;
+        }
+        for (let id of Object.keys(objects)) {
+            const objectPath = '/' + collection + '/' + escapePointerSegment(id);
+            const pointer = map.pointers[objectPath];
+            if (!pointer || objects[id] === null || typeof objects[id] !== 'object') {
+                continue;
+            }
+
+            let parts = [plural(referenceCounts.get(objectPath) || 0, 'reference')];
+            const size = getObjectSize(glTF, objectPath, outgoing, fileName);
+            if (size !== undefined) {
+                parts.push(formatByteSize(size));
+            }
+            const numScenes = sceneContents.filter(contents => contents.has(objectPath)).length;
+            parts.push('used by ' + plural(numScenes, 'scene'));
+
+            const position = document.positionAt(pointer.value.pos);
+            lenses.push({
+                range: Range.create(position, position),
+                command: Command.create(parts.join(' · '), findReferencesCommand, document.uri, position)
+            });
+        }
+    }
+    return lenses;
+}
@@ -0,0 +1,10 @@
+// This file converts color components between linear space, in which glTF stores color factors,
+// and sRGB space.  It has no dependencies, so that the glTF 1.0 upgrade can use it outside the server.
+
+export function linearToSRGBComponent(c: number): number {
+    return (c <= 0.0031308) ? (c * 12.92) : (1.055 * Math.pow(c, 1 / 2.4) - 0.055);
+}
+
+export function sRGBToLinearComponent(c: number): number {
+    return (c <= 0.04045) ? (c / 12.92) : Math.pow((c + 0.055) / 1.055, 2.4);
+}
@@ -0,0 +1,104 @@
+import { TextDocument, ColorInformation, ColorPresentation, Color, Range, TextEdit } from 'vscode-languageserver';
+import { JsonMap, getFromPath } from './gltfReferences';
+import { linearToSRGBComponent, sRGBToLinearComponent } from './gltfColorSpace';
+
+// This file converts glTF color factors, which are stored in linear space, to and from
+// the sRGB colors shown and picked by the editor.
+
+export const colorFactorNames = [
+    'ColorFactor',  // Note: This includes anything that ends with ...ColorFactor
+    'diffuseFactor',
+    'specularFactor',
+    'emissiveFactor',
+    'attenuationColor'
+];
+
+/**
+ * Color factors whose fourth component is an alpha value.
+ */
+const alphaColorFactorNames = ['baseColorFactor', 'diffuseFactor'];
+
+function clamp(value: number): number {
+    return Math.min(Math.max(value, 0), 1);
+}
+
+export function linearToSRGB(red: number, green: number, blue: number): string | null {
+    red = Math.round(linearToSRGBComponent(red) * 255);
+    green = Math.round(linearToSRGBComponent(green) * 255);
+    blue = Math.round(linearToSRGBComponent(blue) * 255);
+    return ((red < 16) ? '0' : '') + red.toString(16) + ((green < 16) ? '0' : '') + green.toString(16) + ((blue < 16) ? '0' : '') + blue.toString(16);
+}
+
+/**
+ * Determine if a JSON pointer names a glTF color factor, such as `/materials/0/pbrMetallicRoughness/baseColorFactor`.
+ */
+export function isColorFactorPath(path: string): boolean {
+    const key = path.substring(path.lastIndexOf('/') + 1);
+    return colorFactorNames.some(name => key.endsWith(name));
+}
+
+function isColorValue(value: any): boolean {
+    return Array.isArray(value) && (value.length === 3 || value.length === 4) && value.every(c => typeof c === 'number');
+}
+
+/**
+ * Find the color factors in a glTF document, as sRGB colors for the editor to show.
+ *
+ * @param document The glTF document
+ * @param map The JSON map of the document
+ * @return The location and color of each color factor
+ */
+export function getDocumentColors(document: TextDocument, map: JsonMap): ColorInformation[] {
+    let colors: ColorInformation[] = [];
+    for (let path of Object.keys(map.pointers)) {
+        if (!isColorFactorPath(path) || path.split('/').indexOf('extras') >= 0) {
+            continue;
+        }
+        const pointer = map.pointers[path];
+        const value = getFromPath(map.data, path);
+        if (!isColorValue(value)) {
+            continue;
+        }
+        colors.push({
+            range: Range.create(document.positionAt(pointer.value.pos), document.positionAt(pointer.valueEnd.pos)),
+            color: Color.create(
+                clamp(linearToSRGBComponent(value[0])),
+                clamp(linearToSRGBComponent(value[1])),
+                clamp(linearToSRGBComponent(value[2])),
+                (value.length === 4) ? clamp(value[3]) : 1)
+        });
+    }
+    return colors;
+}
+
+function formatComponent(value: number): string {
+    return Number(value.toFixed(6)).toString();
+}
+
+/**
+ * Write a color picked in the editor back as a linear color factor.  Alpha is written only
+ * for factors that have it, keeping the same number of components as the existing value.
+ *
+ * @param document The glTF document
+ * @param map The JSON map of the document
+ * @param color The sRGB color picked in the editor
+ * @param range The range of the existing color factor
+ * @return The ways to write the color, of which there is only one
+ */
+export function getColorPresentations(document: TextDocument, map: JsonMap, color: Color, range: Range): ColorPresentation[] {
+    const offset = document.offsetAt(range.start);
+    const path = Object.keys(map.pointers).find(key => map.pointers[key].value.pos === offset && isColorFactorPath(key));
+    if (path === undefined) {
+        return [];
+    }
+
+    const key = path.substring(path.lastIndexOf('/') + 1);
+    let components = [color.red, color.green, color.blue].map(c => formatComponent(sRGBToLinearComponent(c)));
+    const existingValue = getFromPath(map.data, path);
+    if (alphaColorFactorNames.indexOf(key) >= 0 || (isColorValue(existingValue) && existingValue.length === 4)) {
+        components.push(formatComponent(color.alpha));
+    }
+
+    const label = '[' + components.join(', ') + ']';
+    return [{ label: label, textEdit: TextEdit.replace(range, label) }];
+}
@@ -0,0 +1,122 @@
+import { TextDocument, FoldingRange, Range } from 'vscode-languageserver';
+import { JsonMap, getFromPath, getPathAtOffset } from './gltfReferences';
+
+// This file composes folding ranges and selection ranges that follow the structure of a glTF document.
+// The protocol version used here predates selection ranges, so the client requests them as
+// 'gltf/selectionRanges', and the folding ranges to collapse when a document opens as 'gltf/autoFoldLines'.
+
+export interface SelectionRangeParams {
+    textDocument: { uri: string };
+    positions: { line: number, character: number }[];
+}
+
+export interface AutoFoldParams {
+    textDocument: { uri: string };
+}
+
+/**
+ * Determine whether an object or array should be folded when a document opens:
+ * `extras` blocks, and buffers that embed their data in a data URI.
+ */
+function isAutoFoldPath(glTF: any, path: string): boolean {
+    if (path.endsWith('/extras')) {
+        return true;
+    }
+    if (/^\/buffers\/[^/]+$/.test(path)) {
+        const buffer = getFromPath(glTF, path);
+        return typeof buffer.uri === 'string' && buffer.uri.startsWith('data:');
+    }
+    return false;
+}
+
+/**
+ * Find the objects and arrays of a glTF document that span more than one line.  The
+ * closing bracket of each is left visible, as in the editor's built-in JSON folding.
+ *
+ * @param document The glTF document
+ * @param map The JSON map of the document
+ * @return A folding range for each object and array, and whether it should be folded when the document opens
+ */
+function getFoldableRanges(document: TextDocument, map: JsonMap): { range: FoldingRange, autoFold: boolean }[] {
+    let result: { range: FoldingRange, autoFold: boolean }[] = [];
+    for (let path of Object.keys(map.pointers)) {
+        const value = getFromPath(map.data, path);
+        if (value === null || typeof value !== 'object') {
+            continue;
+        }
+        const pointer = map.pointers[path];
+        const startLine = document.positionAt(pointer.value.pos).line;
+        const endLine = document.positionAt(pointer.valueEnd.pos).line - 1;
+        if (endLine > startLine) {
+            result.push({ range: FoldingRange.create(startLine, endLine), autoFold: isAutoFoldPath(map.data, path) });
+        }
+    }
+    return result;
+}
+
+/**
+ * Compose the folding ranges of a glTF document.
+ *
+ * @param document The glTF document
+ * @param map The JSON map of the document
+ * @return The folding ranges, in document order
+ */
+export function getFoldingRanges(document: TextDocument, map: JsonMap): FoldingRange[] {
+    return getFoldableRanges(document, map).map(foldable => foldable.range);
+}
+
+/**
+ * Find the folding ranges that should be collapsed when a glTF document opens, so that
+ * embedded buffer data and `extras` blocks do not fill the editor.
+ *
+ * @param document The glTF document
+ * @param map The JSON map of the document
+ * @return The start line of each folding range to collapse
+ */
+export function getAutoFoldLines(document: TextDocument, map: JsonMap): number[] {
+    return getFoldableRanges(document, map).filter(foldable => foldable.autoFold).map(foldable => foldable.range.startLine);
+}
+
+/**
+ * Find the glTF object that a JSON pointer is within, such as `/meshes/0` for `/meshes/0/primitives/1/material`.
+ * The objects of root extensions, such as `/extensions/KHR_lights_punctual/lights/0`, are also found.
+ */
+function getObjectPath(path: string): string | undefined {
+    const match = /^\/extensions\/[^/]+\/[^/]+\/[^/]+/.exec(path) || /^\/[^/]+\/[^/]+/.exec(path);
+    return match ? match[0] : undefined;
+}
+
+/**
+ * Compose the ranges that a selection expands through from a position: the value at the position,
+ * then its glTF object, then the collection holding that object, then the root.
+ *
+ * @param document The glTF document
+ * @param map The JSON map of the document
+ * @param position The position to expand from
+ * @return The ranges, from the innermost to the outermost
+ */
+export function getSelectionRanges(document: TextDocument, map: JsonMap, position: { line: number, character: number }): Range[] {
+    const path = getPathAtOffset(map, document.offsetAt(position));
+    if (path === undefined) {
+        return [];
+    }
+
+    let paths = [path];
+    const objectPath = getObjectPath(path);
+    if (objectPath !== undefined) {
+        paths.push(objectPath, objectPath.substring(0, objectPath.lastIndexOf('/')));
+    }
+    paths.push('');
+
+    let ranges: Range[] = [];
+    let lastPath: string;
+    for (let rangePath of paths) {
+        if (rangePath === lastPath || !map.pointers.hasOwnProperty(rangePath)) {
+            continue;
+        }
+        const pointer = map.pointers[rangePath];
+        ranges.push(Range.create(document.positionAt(pointer.value.pos), document.positionAt(pointer.valueEnd.pos)));
+        lastPath = rangePath;
+    }
+    return ranges;
+}
@@ -0,0 +1,235 @@
+import * as path from 'path';
+import { URI } from 'vscode-uri';
+import { getObjectLabel, componentTypeNames, formatByteSize } from './gltfReferences';
+import { accessorTypeComponentCounts, componentTypeByteSizes, getBufferViewData, readAccessorElements } from './gltfBuffers';
+import { identityMatrix, multiplyMatrices, decomposeMatrix, getNodeMatrix } from './gltfMath';
+
+// This file composes the Markdown hover cards shown for references to accessors, nodes and textures.
+
+/**
+ * The number of accessor elements decoded for display.
+ */
+const numPreviewElements = 4;
+
+/**
+ * Images larger than this are not embedded into hovers.
+ */
+const maxThumbnailBytes = 2 * 1024 * 1024;
+
+const thumbnailWidth = 128;
+
+const samplerFilterNames = {
+    9728: 'NEAREST',
+    9729: 'LINEAR',
+    9984: 'NEAREST_MIPMAP_NEAREST',
+    9985: 'LINEAR_MIPMAP_NEAREST',
+    9986: 'NEAREST_MIPMAP_LINEAR',
+    9987: 'LINEAR_MIPMAP_LINEAR'
+};
+
+const samplerWrapNames = {
+    33071: 'CLAMP_TO_EDGE',
+    33648: 'MIRRORED_REPEAT',
+    10497: 'REPEAT'
+};
+
+function formatNumber(value: number): string {
+    return (typeof value === 'number') ? Number(value.toPrecision(6)).toString() : String(value);
+}
+
+function formatVector(values: number[]): string {
+    return '`[' + values.map(formatNumber).join(', ') + ']`';
+}
+
+function formatTable(rows: [string, string][]): string {
+    return '| | |\n|---|---|\n' + rows.map(row => `| ${row[0]} | ${row[1]} |`).join('\n');
+}
+
+/**
+ * Compose a hover card for an accessor: its layout, bounds, size, and first few values.
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function getAccessorHover(glTF: any, index: number, fileName: string): string {
+    const accessor = (glTF.accessors || [])[index];
+    if (!accessor) {
+        return undefined;
+    }
+
+    const numComponents = accessorTypeComponentCounts[accessor.type] || 0;
+    const componentSize = componentTypeByteSizes[accessor.componentType] || 0;
+    let rows: [string, string][] = [
+        ['type', '`' + accessor.type + '`'],
+        ['componentType', `\`${accessor.componentType}\` (${componentTypeNames[accessor.componentType] || 'unknown'})`],
+        ['count', formatNumber(accessor.count)],
+        ['normalized', accessor.normalized ? 'true' : 'false']
+    ];
+    if (Array.isArray(accessor.min)) {
+        rows.push(['min', formatVector(accessor.min)]);
+    }
+    if (Array.isArray(accessor.max)) {
+        rows.push(['max', formatVector(accessor.max)]);
+    }
+    rows.push(['byte size', formatByteSize(accessor.count * numComponents * componentSize)]);
+    if (accessor.sparse) {
+        rows.push(['sparse', formatNumber(accessor.sparse.count) + ' substitutions']);
+    }
+
+    let result = `**${getObjectLabel('/accessors', index, accessor)}**\n\n` + formatTable(rows);
+
+    if (accessor.bufferView === undefined) {
+        result += '\n\nNo bufferView: all values are zero' + (accessor.sparse ? ' before sparse substitution.' : '.');
+    } else {
+        const elements = readAccessorElements(glTF, accessor, fileName, numPreviewElements);
+        if (elements && elements.length > 0) {
+            const more = (accessor.count > elements.length) ? '\n...' : '';
+            result += `\n\nFirst values${accessor.sparse ? ', before sparse substitution' : ''}:\n\n` +
+                '```\n' + elements.map(element => element.map(formatNumber).join(', ')).join('\n') + more + '\n```';
+        }
+    }
+    return result;
+}
+
+/**
+ * Find the chain of ancestors of a node, starting from its root node.
+ *
+ * @return The indices of the ancestors, followed by the node itself
+ */
+function getNodeChain(glTF: any, index: number): number[] {
+    const nodes: any[] = glTF.nodes || [];
+    let parents = new Map<number, number>();
+    nodes.forEach((node, parentIndex) => {
+        if (node && Array.isArray(node.children)) {
+            node.children.forEach((child: number) => parents.set(child, parentIndex));
+        }
+    });
+
+    let chain = [index];
+    while (parents.has(chain[0]) && chain.indexOf(parents.get(chain[0])) < 0) {
+        chain.unshift(parents.get(chain[0]));
+    }
+    return chain;
+}
+
+/**
+ * Compose a hover card for a node: the scene and chain of parents that lead to it,
+ * and its decomposed world transform.
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function getNodeHover(glTF: any, index: number): string {
+    const nodes: any[] = glTF.nodes || [];
+    if (!nodes[index]) {
+        return undefined;
+    }
+
+    const chain = getNodeChain(glTF, index);
+    const labels = chain.map(nodeIndex => getObjectLabel('/nodes', nodeIndex, nodes[nodeIndex]));
+    labels[labels.length - 1] = '**' + labels[labels.length - 1] + '**';
+    const scenes: any[] = glTF.scenes || [];
+    const sceneIndex = scenes.findIndex(scene => scene && Array.isArray(scene.nodes) && scene.nodes.indexOf(chain[0]) >= 0);
+    labels.unshift((sceneIndex >= 0) ? getObjectLabel('/scenes', sceneIndex, scenes[sceneIndex]) : '(not in any scene)');
+
+    let world = identityMatrix;
+    for (let nodeIndex of chain) {
+        world = multiplyMatrices(world, getNodeMatrix(nodes[nodeIndex] || {}));
+    }
+    const transform = decomposeMatrix(world);
+
+    // Hide the rounding error accumulated by multiplying matrices.
+    const formatTransformVector = (values: number[]) => formatVector(values.map(value => (Math.abs(value) < 1e-6) ? 0 : value));
+    return labels.join(' › ') + '\n\nWorld transform:\n\n' + formatTable([
+        ['translation', formatTransformVector(transform.translation)],
+        ['rotation', formatTransformVector(transform.rotation)],
+        ['scale', formatTransformVector(transform.scale)]
+    ]);
+}
+
+/**
+ * Determine a URI from which the editor can show an image, embedding images stored in bufferViews.
+ */
+function getImageUri(glTF: any, image: any, fileName: string): string | undefined {
+    if (typeof image.uri === 'string') {
+        if (image.uri.startsWith('data:')) {
+            return (image.uri.length <= maxThumbnailBytes * 4 / 3) ? image.uri : undefined;
+        }
+        return URI.file(path.resolve(path.dirname(fileName), decodeURIComponent(image.uri))).toString();
+    }
+    if (image.bufferView !== undefined && image.mimeType) {
+        const data = getBufferViewData(glTF, image.bufferView, fileName);
+        if (data && data.length <= maxThumbnailBytes) {
+            return `data:${image.mimeType};base64,` + data.toString('base64');
+        }
+    }
+    return undefined;
+}
+
+function getSamplerValueName(names: { [value: number]: string }, value: number, defaultName: string): string {
+    if (value === undefined) {
+        return defaultName;
+    }
+    return names[value] ? `${names[value]} (\`${value}\`)` : `\`${value}\``;
+}
+
+/**
+ * Compose a hover card for a texture: a thumbnail of its image, and its sampler settings by name.
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function getTextureHover(glTF: any, index: number, fileName: string): string {
+    const texture = (glTF.textures || [])[index];
+    if (!texture) {
+        return undefined;
+    }
+
+    let result = `**${getObjectLabel('/textures', index, texture)}**`;
+
+    // Extensions such as KHR_texture_basisu supply an alternative source.
+    let source = texture.source;
+    if (source === undefined && texture.extensions) {
+        const extension = Object.keys(texture.extensions).map(name => texture.extensions[name])
+            .find(value => value && value.source !== undefined);
+        source = extension ? extension.source : undefined;
+    }
+    const image = (source !== undefined) ? (glTF.images || [])[source] : undefined;
+    if (image) {
+        const imageLabel = getObjectLabel('/images', source, image);
+        const imageUri = getImageUri(glTF, image, fileName);
+        result += '\n\n' + (imageUri ? `![${imageLabel}](${imageUri}|width=${thumbnailWidth})\n\n` : '') + imageLabel;
+    }
+
+    const sampler = (texture.sampler !== undefined) ? (glTF.samplers || [])[texture.sampler] : undefined;
+    if (sampler) {
+        result += '\n\n' + getObjectLabel('/samplers', texture.sampler, sampler) + ':\n\n' + formatTable([
+            ['magFilter', getSamplerValueName(samplerFilterNames, sampler.magFilter, 'auto')],
+            ['minFilter', getSamplerValueName(samplerFilterNames, sampler.minFilter, 'auto')],
+            ['wrapS', getSamplerValueName(samplerWrapNames, sampler.wrapS, 'REPEAT (default)')],
+            ['wrapT', getSamplerValueName(samplerWrapNames, sampler.wrapT, 'REPEAT (default)')]
+        ]);
+    } else {
+        result += '\n\nNo sampler: filtering is automatic, and wrapping repeats.';
+    }
+    return result;
+}
+
+/**
+ * Compose a hover card for the object that a glTF reference points to, if it is an accessor, node or texture.
+ *
+ * @param glTF The glTF root object
+ * @param target The JSON pointer of the referenced object, such as `/accessors/3`
+ * @param fileName The full path of the `.gltf` file
+ * @return Markdown text, or `undefined` if there is nothing to show
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function getReferenceHover(glTF: any, target: string, fileName: string): string | undefined {
+    const match = /^\/(accessors|nodes|textures)\/(\d+)$/.exec(target);
+    if (!match) {
+        return undefined;
+    }
+    const index = parseInt(match[2], 10);
+    switch (match[1]) {
+        case 'accessors':
+            return getAccessorHover(glTF, index, fileName);
+        case 'nodes':
+            return getNodeHover(glTF, index);
+        default:
+            return getTextureHover(glTF, index, fileName);
+    }
+}
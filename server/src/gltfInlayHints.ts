@@ -0,0 +1,80 @@
+import { TextDocument, Position, Range } from 'vscode-languageserver';
+import { JsonMap, getFromPath, forEachReference, describeObject } from './gltfReferences';
+
+// This file composes the inlay hints that label indexed references with the objects they refer to.
+// The protocol version used here predates inlay hints, so the client requests them as 'gltf/inlayHints'.
+
+export interface InlayHintSettings {
+    accessors: boolean;
+    bufferViews: boolean;
+    materials: boolean;
+    meshes: boolean;
+    nodes: boolean;
+    textures: boolean;
+    other: boolean;
+}
+
+export interface InlayHintParams {
+    textDocument: { uri: string };
+    range: Range;
+}
+
+export interface GltfInlayHint {
+    position: Position;
+    label: string;
+}
+
+/**
+ * The settings category controlling the hints for references into each collection.
+ */
+const collectionCategories: { [collection: string]: keyof InlayHintSettings } = {
+    '/accessors': 'accessors',
+    '/bufferViews': 'bufferViews',
+    '/buffers': 'bufferViews',
+    '/materials': 'materials',
+    '/meshes': 'meshes',
+    '/nodes': 'nodes',
+    '/textures': 'textures',
+    '/images': 'textures',
+    '/samplers': 'textures'
+};
+
+function isHintEnabled(settings: InlayHintSettings, collection: string): boolean {
+    const category = collectionCategories[collection] || 'other';
+    return !settings || settings[category] !== false;
+}
+
+/**
+ * Compose inlay hints for the references within a range of a glTF document,
+ * such as `← "Body_LOD0" VEC3 float ×4812` after an accessor index.
+ *
+ * @param document The glTF document
+ * @param map The JSON map of the document
+ * @param range The range of the document being shown
+ * @param settings Which categories of hints are enabled
+ * @return The inlay hints, each placed after the reference it describes
+ */
+export function getInlayHints(document: TextDocument, map: JsonMap, range: Range, settings: InlayHintSettings): GltfInlayHint[] {
+    const rangeStart = document.offsetAt(range.start);
+    const rangeEnd = document.offsetAt(range.end);
+    let hints: GltfInlayHint[] = [];
+
+    forEachReference(map.data, (path, target) => {
+        const pointer = map.pointers[path];
+        if (!pointer || pointer.valueEnd.pos < rangeStart || pointer.value.pos > rangeEnd) {
+            return;
+        }
+
+        const collection = target.substring(0, target.lastIndexOf('/'));
+        if (!isHintEnabled(settings, collection)) {
+            return;
+        }
+
+        const description = describeObject(map.data, collection, getFromPath(map.data, target));
+        if (description) {
+            hints.push({ position: document.positionAt(pointer.valueEnd.pos), label: '← ' + description });
+        }
+    });
+
+    return hints;
+}
@@ -0,0 +1,77 @@
+import * as Url from 'url';
+import * as fs from 'fs';
+import { URI } from 'vscode-uri';
+import { TextDocument, DocumentLink, Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver';
+import { JsonMap, getFromPath } from './gltfReferences';
+
+// This file finds the external files referenced by `uri` properties, such as buffers, images and shaders.
+
+export const EXTERNAL_FILE_NOT_FOUND = 'EXTERNAL_FILE_NOT_FOUND';
+
+interface ExternalUri {
+    range: Range;
+    target: string;
+}
+
+/**
+ * Find every `uri` property that refers to an external resource rather than embedded data.
+ *
+ * @param document The glTF document
+ * @param map The JSON map of the document
+ * @return The document range and resolved target of each external URI
+ */
+function getExternalUris(document: TextDocument, map: JsonMap): ExternalUri[] {
+    let result: ExternalUri[] = [];
+    for (let path of Object.keys(map.pointers)) {
+        if (!path.endsWith('/uri') || path.split('/').indexOf('extras') >= 0) {
+            continue;
+        }
+        const value = getFromPath(map.data, path);
+        if (typeof value !== 'string' || value.length === 0 || value.startsWith('data:')) {
+            continue;
+        }
+        const pointer = map.pointers[path];
+        result.push({
+            // Exclude the quotation marks from the range.
+            range: Range.create(document.positionAt(pointer.value.pos + 1), document.positionAt(pointer.valueEnd.pos - 1)),
+            target: Url.resolve(document.uri, value)
+        });
+    }
+    return result;
+}
+
+/**
+ * Compose links that open the external files referenced by a glTF document.
+ *
+ * @param document The glTF document
+ * @param map The JSON map of the document
+ * @return A link for each external URI
+ */
+export function getDocumentLinks(document: TextDocument, map: JsonMap): DocumentLink[] {
+    return getExternalUris(document, map).map(externalUri => DocumentLink.create(externalUri.range, externalUri.target));
+}
+
+/**
+ * Check that the local files referenced by a glTF document exist.  The glTF Validator
+ * reports missing files itself, so this is only used when it does not run.
+ *
+ * @param document The glTF document
+ * @param map The JSON map of the document
+ * @return A diagnostic for each missing file
+ */
+export function getMissingFileDiagnostics(document: TextDocument, map: JsonMap): Diagnostic[] {
+    let diagnostics: Diagnostic[] = [];
+    for (let externalUri of getExternalUris(document, map)) {
+        const target = URI.parse(externalUri.target);
+        if (target.scheme === 'file' && !fs.existsSync(target.fsPath)) {
+            diagnostics.push({
+                code: EXTERNAL_FILE_NOT_FOUND,
+                severity: DiagnosticSeverity.Error,
+                range: externalUri.range,
+                message: `File not found: ${target.fsPath}`,
+                source: 'glTF Language Server'
+            });
+        }
+    }
+    return diagnostics;
+}
@@ -0,0 +1,136 @@
+// This file holds the small amount of linear algebra needed to reason about glTF node transforms.
+// Matrices are 16-element arrays in column-major order, as in glTF.
+
+export type Vec3 = [number, number, number];
+export type Quat = [number, number, number, number];
+
+export interface Transform {
+    translation: Vec3;
+    rotation: Quat;
+    scale: Vec3;
+}
+
+export const identityMatrix = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+/**
+ * Compose a matrix from a translation, rotation quaternion, and scale.
+ */
+export function composeMatrix(transform: Transform): number[] {
+    const [x, y, z, w] = transform.rotation;
+    const [sx, sy, sz] = transform.scale;
+    const [tx, ty, tz] = transform.translation;
+    return [
+        (1 - 2 * (y * y + z * z)) * sx, 2 * (x * y + z * w) * sx, 2 * (x * z - y * w) * sx, 0,
+        2 * (x * y - z * w) * sy, (1 - 2 * (x * x + z * z)) * sy, 2 * (y * z + x * w) * sy, 0,
+        2 * (x * z + y * w) * sz, 2 * (y * z - x * w) * sz, (1 - 2 * (x * x + y * y)) * sz, 0,
+        tx, ty, tz, 1
+    ];
+}
+
+/**
+ * Multiply two matrices, giving the transform that applies `b` first, then `a`.
+ */
+export function multiplyMatrices(a: number[], b: number[]): number[] {
+    let result = new Array<number>(16);
+    for (let column = 0; column < 4; ++column) {
+        for (let row = 0; row < 4; ++row) {
+            let sum = 0;
+            for (let k = 0; k < 4; ++k) {
+                sum += a[k * 4 + row] * b[column * 4 + k];
+            }
+            result[column * 4 + row] = sum;
+        }
+    }
+    return result;
+}
+
+/**
+ * Decompose an affine matrix into a translation, rotation quaternion, and scale.
+ * A negative determinant is represented by negating the X scale.
+ */
+export function decomposeMatrix(m: number[]): Transform {
+    let sx = Math.hypot(m[0], m[1], m[2]);
+    const sy = Math.hypot(m[4], m[5], m[6]);
+    const sz = Math.hypot(m[8], m[9], m[10]);
+    const determinant =
+        m[0] * (m[5] * m[10] - m[6] * m[9]) -
+        m[4] * (m[1] * m[10] - m[2] * m[9]) +
+        m[8] * (m[1] * m[6] - m[2] * m[5]);
+    if (determinant < 0) {
+        sx = -sx;
+    }
+
+    // Remove the scale to leave a pure rotation matrix.
+    const r00 = sx ? m[0] / sx : 1, r10 = sx ? m[1] / sx : 0, r20 = sx ? m[2] / sx : 0;
+    const r01 = sy ? m[4] / sy : 0, r11 = sy ? m[5] / sy : 1, r21 = sy ? m[6] / sy : 0;
+    const r02 = sz ? m[8] / sz : 0, r12 = sz ? m[9] / sz : 0, r22 = sz ? m[10] / sz : 1;
+
+    let rotation: Quat;
+    const trace = r00 + r11 + r22;
+    if (trace > 0) {
+        const s = 0.5 / Math.sqrt(trace + 1);
+        rotation = [(r21 - r12) * s, (r02 - r20) * s, (r10 - r01) * s, 0.25 / s];
+    } else if (r00 > r11 && r00 > r22) {
+        const s = 2 * Math.sqrt(1 + r00 - r11 - r22);
+        rotation = [0.25 * s, (r01 + r10) / s, (r02 + r20) / s, (r21 - r12) / s];
+    } else if (r11 > r22) {
+        const s = 2 * Math.sqrt(1 + r11 - r00 - r22);
+        rotation = [(r01 + r10) / s, 0.25 * s, (r12 + r21) / s, (r02 - r20) / s];
+    } else {
+        const s = 2 * Math.sqrt(1 + r22 - r00 - r11);
+        rotation = [(r02 + r20) / s, (r12 + r21) / s, 0.25 * s, (r10 - r01) / s];
+    }
+
+    return { translation: [m[12], m[13], m[14]], rotation: rotation, scale: [sx, sy, sz] };
+}
+
+/**
+ * Determine the local transform matrix of a glTF node, from either its `matrix` or its TRS properties.
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function getNodeMatrix(node: any): number[] {
+    if (Array.isArray(node.matrix) && node.matrix.length === 16) {
+        return node.matrix;
+    }
+    return composeMatrix({
+        translation: Array.isArray(node.translation) ? node.translation : [0, 0, 0],
+        rotation: Array.isArray(node.rotation) ? node.rotation : [0, 0, 0, 1],
+        scale: Array.isArray(node.scale) ? node.scale : [1, 1, 1]
+    });
+}
+
+export interface NodeTransformParams {
+    textDocument: { uri: string };
+    node: number;
+}
+
+/**
+ * The transform of a node in both forms, so that a client can rewrite one as the other.
+ */
+export interface NodeTransform {
+    /** The matrix composed from the node's translation, rotation and scale, or their defaults. */
+    composed: number[];
+    /** The translation, rotation and scale decomposed from the node's matrix, if it has one. */
+    decomposed?: Transform;
+    /** Whether the decomposed transform reproduces the node's matrix, which fails for shears and projections. */
+    isDecomposable?: boolean;
+}
+
+/**
+ * Express the transform of a glTF node as both a matrix and a translation, rotation and scale.
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function getNodeTransform(node: any): NodeTransform {
+    let result: NodeTransform = {
+        composed: getNodeMatrix({ translation: node.translation, rotation: node.rotation, scale: node.scale })
+    };
+
+    if (Array.isArray(node.matrix) && node.matrix.length === 16) {
+        const matrix: number[] = node.matrix;
+        result.decomposed = decomposeMatrix(matrix);
+        const recomposed = composeMatrix(result.decomposed);
+        const tolerance = 1e-5 * Math.max(1, ...matrix.map(Math.abs));
+        result.isDecomposable = matrix.every((value, index) => Math.abs(value - recomposed[index]) <= tolerance);
+    }
+    return result;
+}
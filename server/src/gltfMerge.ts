@@ -0,0 +1,171 @@
+import { getFromPath, forEachReference } from './gltfReferences';
+
+// This file appends the objects of one glTF 2.0 document to another, offsetting the indices of the appended
+// objects past those already there.  Only the JSON is merged: the client has already pointed the appended
+// buffers and images at data the document can reach, and may combine the appended buffers afterwards.
+
+export interface MergeGltfParams {
+    textDocument: { uri: string };
+    /** The glTF to append to the document. */
+    glTF: any;
+    /** The node to parent the roots of the appended glTF under, or else its scenes are appended as new scenes. */
+    parentNode?: number;
+}
+
+export interface MergeGltfResult {
+    glTF: any;
+    /** The indices of the appended scenes, or else of the nodes added as children of `parentNode`. */
+    added: number[];
+}
+
+/**
+ * Find the arrays of a glTF document that references may point into: the top-level arrays, such as
+ * `/accessors`, and the arrays of root extensions, such as `/extensions/KHR_lights_punctual/lights`.
+ */
+function getCollectionPaths(glTF: any): string[] {
+    let paths = Object.keys(glTF)
+        .filter(key => Array.isArray(glTF[key]) && key !== 'extensionsUsed' && key !== 'extensionsRequired')
+        .map(key => '/' + key);
+    const extensions = glTF.extensions;
+    if (extensions !== null && typeof extensions === 'object') {
+        for (let name of Object.keys(extensions)) {
+            const extension = extensions[name];
+            if (extension !== null && typeof extension === 'object') {
+                Object.keys(extension).filter(key => Array.isArray(extension[key]))
+                    .forEach(key => paths.push('/extensions/' + name + '/' + key));
+            }
+        }
+    }
+    return paths;
+}
+
+/**
+ * Find the nodes of a glTF document that are not the child of another node, in order.
+ */
+function getRootNodes(glTF: any): number[] {
+    const nodes: any[] = Array.isArray(glTF.nodes) ? glTF.nodes : [];
+    let children = new Set<number>();
+    nodes.forEach(node => (node && Array.isArray(node.children) ? node.children : []).forEach((child: number) => children.add(child)));
+    let roots: number[] = [];
+    for (let index = 0; index < nodes.length; ++index) {
+        if (!children.has(index)) {
+            roots.push(index);
+        }
+    }
+    return roots;
+}
+
+function isGltf2(glTF: any): boolean {
+    return glTF && glTF.asset && typeof glTF.asset.version === 'string' && glTF.asset.version[0] === '2';
+}
+
+/**
+ * Append the objects of one glTF 2.0 document to another.  Every index in the appended objects is offset by
+ * the number of objects already in the collection it refers to, and `extensionsUsed` and `extensionsRequired`
+ * are combined.  The appended glTF's scenes become new scenes, or else the roots of its default scene become
+ * children of a node.  Where no scene lists them, the root nodes of the appended glTF are used instead.
+ *
+ * @param glTF The glTF root object of the document, which is not modified
+ * @param appended The glTF root object to append, which is not modified
+ * @param parentNode The node to parent the appended roots under, or `undefined` to append the scenes
+ * @return The merged glTF, and the scenes or nodes added to hold the appended objects
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function mergeGltf(glTF: any, appended: any, parentNode?: number): MergeGltfResult {
+    if (!isGltf2(glTF) || !isGltf2(appended)) {
+        throw new Error('Only glTF 2.0 documents can be merged.  Please upgrade glTF 1.0 documents to glTF 2.0 first.');
+    }
+    let result = JSON.parse(JSON.stringify(glTF));
+    let source = JSON.parse(JSON.stringify(appended));
+    if (parentNode !== undefined && (!Array.isArray(result.nodes) || !result.nodes[parentNode])) {
+        throw new Error(`Node ${parentNode} does not exist.`);
+    }
+
+    // Work out which roots the appended objects hang from, before the indices are offset.
+    let sourceScenes: any[] = Array.isArray(source.scenes) ? source.scenes : [];
+    if (sourceScenes.length === 0 && Array.isArray(source.nodes) && source.nodes.length > 0) {
+        sourceScenes = [{ nodes: getRootNodes(source) }];
+    }
+    let sourceRoots: number[] = [];
+    if (parentNode !== undefined) {
+        const defaultScene = sourceScenes[(typeof source.scene === 'number') ? source.scene : 0];
+        sourceRoots = (defaultScene && Array.isArray(defaultScene.nodes)) ? defaultScene.nodes.slice() : [];
+    }
+    delete source.scene;
+    delete source.scenes;
+
+    let offsets = new Map<string, number>();
+    for (let collectionPath of getCollectionPaths(result)) {
+        offsets.set(collectionPath, getFromPath(result, collectionPath).length);
+    }
+    const nodeOffset = offsets.get('/nodes') || 0;
+
+    forEachReference(source, (path, target) => {
+        const collectionPath = target.substring(0, target.lastIndexOf('/'));
+        const offset = offsets.get(collectionPath);
+        if (offset) {
+            const parent = getFromPath(source, path.substring(0, path.lastIndexOf('/')));
+            const key = path.substring(path.lastIndexOf('/') + 1).replace(/~1/g, '/').replace(/~0/g, '~');
+            parent[key] += offset;
+        }
+    });
+
+    // Append the collections of the appended glTF, including those of its root extensions.
+    for (let collectionPath of getCollectionPaths(source)) {
+        const pathSplit = collectionPath.split('/');
+        let parent = result;
+        for (let i = 1; i < pathSplit.length - 1; ++i) {
+            if (parent[pathSplit[i]] === null || typeof parent[pathSplit[i]] !== 'object') {
+                parent[pathSplit[i]] = {};
+            }
+            parent = parent[pathSplit[i]];
+        }
+        const key = pathSplit[pathSplit.length - 1];
+        parent[key] = (Array.isArray(parent[key]) ? parent[key] : []).concat(getFromPath(source, collectionPath));
+    }
+    if (source.extensions !== null && typeof source.extensions === 'object') {
+        result.extensions = result.extensions || {};
+        for (let name of Object.keys(source.extensions)) {
+            const extension = source.extensions[name];
+            if (extension === null || typeof extension !== 'object') {
+                continue;
+            }
+            result.extensions[name] = result.extensions[name] || {};
+            for (let key of Object.keys(extension)) {
+                if (!Array.isArray(extension[key]) && result.extensions[name][key] === undefined) {
+                    result.extensions[name][key] = extension[key];
+                }
+            }
+        }
+    }
+
+    for (let listName of ['extensionsUsed', 'extensionsRequired']) {
+        if (Array.isArray(source[listName])) {
+            const list: string[] = Array.isArray(result[listName]) ? result[listName] : [];
+            result[listName] = list.concat(source[listName].filter((name: string) => list.indexOf(name) < 0));
+        }
+    }
+
+    let added: number[] = [];
+    if (parentNode !== undefined) {
+        if (sourceRoots.length > 0) {
+            const node = result.nodes[parentNode];
+            added = sourceRoots.map(root => root + nodeOffset);
+            node.children = (Array.isArray(node.children) ? node.children : []).concat(added);
+        }
+    } else if (sourceScenes.length > 0) {
+        result.scenes = Array.isArray(result.scenes) ? result.scenes : [];
+        for (let scene of sourceScenes) {
+            if (Array.isArray(scene.nodes)) {
+                scene.nodes = scene.nodes.map((node: number) => node + nodeOffset);
+            }
+            added.push(result.scenes.length);
+            result.scenes.push(scene);
+        }
+        if (result.scene === undefined && result.scenes.length === added.length) {
+            result.scene = 0;
+        }
+    }
+
+    return { glTF: result, added: added };
+}
@@ -0,0 +1,459 @@
+import { getFromPath, forEachReference, plural } from './gltfReferences';
+import { identityMatrix, multiplyMatrices, getNodeMatrix, decomposeMatrix, composeMatrix } from './gltfMath';
+
+// This file removes the objects of a glTF 2.0 document that nothing uses, or that duplicate other objects,
+// or that lie outside a node subtree being extracted, renumbering every index that refers to the objects
+// that remain.  Only the JSON is changed: the client then repacks the binary data of the remaining
+// bufferViews, since it is the one that writes buffer files.
+
+export interface PruneParams {
+    textDocument: { uri: string };
+}
+
+export interface MergedObject {
+    /** The JSON pointer of the object to merge, such as `/materials/3`. */
+    path: string;
+    /** The index of the object to merge it into, in the same collection. */
+    into: number;
+}
+
+export interface MergeObjectsParams {
+    textDocument: { uri: string };
+    merges: MergedObject[];
+}
+
+export interface ExtractNodeParams {
+    textDocument: { uri: string };
+    node: number;
+    /** Whether to bake the world transform of the node's parents into the extracted root. */
+    bakeParentTransform: boolean;
+}
+
+export interface PruneResult {
+    glTF: any;
+    /** What was removed from each collection, such as `3 accessors`. */
+    removed: string[];
+}
+
+/**
+ * The collections that are pruned, with the singular name of their objects.
+ */
+const prunedCollections: { [collection: string]: string } = {
+    nodes: 'node',
+    skins: 'skin',
+    meshes: 'mesh',
+    materials: 'material',
+    textures: 'texture',
+    images: 'image',
+    samplers: 'sampler',
+    accessors: 'accessor',
+    bufferViews: 'bufferView',
+    buffers: 'buffer'
+};
+
+/**
+ * The collections of objects that only nodes use, which are pruned along with the nodes outside an extracted
+ * subtree.  Pruning a whole document keeps them, since an application may look up a camera or light by itself.
+ * Collections within an extension are named by their path, without the leading slash.
+ */
+const nodeComponentCollections: { [collection: string]: string } = {
+    cameras: 'camera',
+    'extensions/KHR_lights_punctual/lights': 'light'
+};
+
+const allCollections = Object.assign({}, prunedCollections, nodeComponentCollections);
+
+/**
+ * Find the top-level glTF object, such as `/accessors/3`, that contains a JSON pointer.
+ */
+function getTopLevelObject(path: string): string | undefined {
+    const match = /^\/[^/]+\/\d+/.exec(path);
+    return match ? match[0] : undefined;
+}
+
+/**
+ * Find the objects of some collections that nothing else uses.  Removing an object may leave the objects it
+ * used unused in turn, such as the accessors of a mesh, so this repeats until nothing more is found.
+ * Nodes are only pruned when there are scenes, since otherwise the nodes themselves are what the document holds.
+ */
+function findUnusedObjects(glTF: any, collectionNames = prunedCollections): Set<string> {
+    const collections = Object.keys(collectionNames).filter(collection =>
+        collection !== 'nodes' || (Array.isArray(glTF.scenes) && glTF.scenes.length > 0));
+
+    let unused = new Set<string>();
+    let found = true;
+    while (found) {
+        let referenced = new Set<string>();
+        forEachReference(glTF, (path, target) => {
+            if (!unused.has(getTopLevelObject(path))) {
+                referenced.add(target);
+            }
+        });
+
+        found = false;
+        for (let collection of collections) {
+            const objects = getFromPath(glTF, '/' + collection);
+            if (!Array.isArray(objects)) {
+                continue;
+            }
+            for (let index = 0; index < objects.length; ++index) {
+                const path = '/' + collection + '/' + index;
+                if (!referenced.has(path) && !unused.has(path)) {
+                    unused.add(path);
+                    found = true;
+                }
+            }
+        }
+    }
+    return unused;
+}
+
+/**
+ * Summarize what was removed from each collection, such as `3 accessors`, in the order that the collections are pruned.
+ *
+ * @param removedPaths The JSON pointers of the removed objects, such as `/accessors/3`
+ */
+export function describeRemovedObjects(removedPaths: string[]): string[] {
+    let counts = new Map<string, number>();
+    for (let path of removedPaths) {
+        const match = /^\/(.+)\/\d+$/.exec(path);
+        if (match) {
+            counts.set(match[1], (counts.get(match[1]) || 0) + 1);
+        }
+    }
+    return Object.keys(allCollections).filter(collection => counts.has(collection)).map(collection =>
+        plural(counts.get(collection), allCollections[collection], collection === 'meshes' ? 'meshes' : undefined));
+}
+
+function collectExtensionNames(value: any, names: Set<string>): void {
+    if (value === null || typeof value !== 'object') {
+        return;
+    }
+    for (let key of Object.keys(value)) {
+        if (key === 'extensions' && value[key] !== null && typeof value[key] === 'object') {
+            Object.keys(value[key]).forEach(name => names.add(name));
+        }
+        collectExtensionNames(value[key], names);
+    }
+}
+
+/**
+ * Replace the objects of a collection.  A collection left empty is removed, since glTF does not allow empty
+ * arrays, along with the extension object that held it if nothing else is left there.
+ *
+ * @return The name of the extension that was removed, if any
+ */
+function setCollection(glTF: any, collection: string, objects: any[]): string | undefined {
+    const pathSplit = collection.split('/');
+    let parent = (pathSplit.length > 1) ? getFromPath(glTF, '/' + pathSplit.slice(0, -1).join('/')) : glTF;
+    if (objects.length > 0) {
+        parent[pathSplit[pathSplit.length - 1]] = objects;
+        return undefined;
+    }
+    delete parent[pathSplit[pathSplit.length - 1]];
+    if (pathSplit.length === 3 && pathSplit[0] === 'extensions' && Object.keys(parent).length === 0) {
+        delete glTF.extensions[pathSplit[1]];
+        if (Object.keys(glTF.extensions).length === 0) {
+            delete glTF.extensions;
+        }
+        return pathSplit[1];
+    }
+    return undefined;
+}
+
+/**
+ * Remove objects from the collections of a glTF document, and renumber the indices that refer to the rest.
+ * References to a removed object that was merged into another object are pointed at that object instead.
+ * Extensions that only the removed objects used are removed from `extensionsUsed` and `extensionsRequired`,
+ * and collections left empty are removed, since glTF does not allow empty arrays.
+ *
+ * @param glTF The glTF root object, which is modified
+ * @param removedPaths The JSON pointers of the objects to remove, such as `/accessors/3`
+ * @param mergedInto The index that each merged object, by JSON pointer, was merged into
+ * @return What was removed from each collection, such as `3 accessors`
+ */
+function removeObjects(glTF: any, removedPaths: Set<string>, mergedInto = new Map<string, number>()): string[] {
+    // Work out the new index of every object that remains, then of every object merged into one of those.
+    let newIndices: { [collection: string]: number[] } = {};
+    let removedInRange: string[] = [];
+    for (let collection of Object.keys(allCollections)) {
+        const objects = getFromPath(glTF, '/' + collection);
+        if (!Array.isArray(objects)) {
+            continue;
+        }
+        let indices: number[] = [];
+        let nextIndex = 0;
+        for (let index = 0; index < objects.length; ++index) {
+            const path = '/' + collection + '/' + index;
+            if (removedPaths.has(path)) {
+                indices.push(-1);
+                removedInRange.push(path);
+            } else {
+                indices.push(nextIndex++);
+            }
+        }
+        mergedInto.forEach((into, path) => {
+            const match = /^\/([^/]+)\/(\d+)$/.exec(path);
+            if (match && match[1] === collection && indices[into] >= 0) {
+                indices[parseInt(match[2], 10)] = indices[into];
+            }
+        });
+        newIndices[collection] = indices;
+    }
+    const removed = describeRemovedObjects(removedInRange);
+    if (removed.length === 0) {
+        return removed;
+    }
+
+    forEachReference(glTF, (path, target) => {
+        const match = /^\/(.+)\/(\d+)$/.exec(target);
+        if (!match || !newIndices.hasOwnProperty(match[1]) || removedPaths.has(getTopLevelObject(path))) {
+            return;
+        }
+        const newIndex = newIndices[match[1]][parseInt(match[2], 10)];
+        if (newIndex === undefined || newIndex < 0) {
+            // Leave unresolved references for the glTF Validator to report.
+            return;
+        }
+        const parent = getFromPath(glTF, path.substring(0, path.lastIndexOf('/')));
+        const key = path.substring(path.lastIndexOf('/') + 1).replace(/~1/g, '/').replace(/~0/g, '~');
+        parent[key] = newIndex;
+    });
+
+    let removedExtensionNames = new Set<string>();
+    removedPaths.forEach(path => collectExtensionNames(getFromPath(glTF, path), removedExtensionNames));
+
+    for (let collection of Object.keys(newIndices)) {
+        let remaining: any[] = [];
+        getFromPath(glTF, '/' + collection).forEach((object: any, index: number) => {
+            if (!removedPaths.has('/' + collection + '/' + index)) {
+                remaining.push(object);
+            }
+        });
+        const removedExtensionName = setCollection(glTF, collection, remaining);
+        if (removedExtensionName !== undefined) {
+            removedExtensionNames.add(removedExtensionName);
+        }
+    }
+
+    if (removedExtensionNames.size > 0) {
+        let remainingExtensionNames = new Set<string>();
+        collectExtensionNames(glTF, remainingExtensionNames);
+        for (let listName of ['extensionsUsed', 'extensionsRequired']) {
+            if (!Array.isArray(glTF[listName])) {
+                continue;
+            }
+            glTF[listName] = glTF[listName].filter((name: string) =>
+                !removedExtensionNames.has(name) || remainingExtensionNames.has(name));
+            if (glTF[listName].length === 0) {
+                delete glTF[listName];
+            }
+        }
+    }
+
+    return removed;
+}
+
+function checkGltf2(glTF: any, action: string): void {
+    if (!glTF.asset || typeof glTF.asset.version !== 'string' || glTF.asset.version[0] !== '2') {
+        throw new Error(`Only glTF 2.0 documents can be ${action}.  Please upgrade this document to glTF 2.0 first.`);
+    }
+}
+
+/**
+ * Find the unused objects of a glTF 2.0 document, which pruning removes.
+ *
+ * @param glTF The glTF root object, which is not modified
+ * @return The JSON pointers of the unused objects, such as `/accessors/3`
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function getUnusedObjects(glTF: any): string[] {
+    checkGltf2(glTF, 'pruned');
+    return Array.from(findUnusedObjects(glTF));
+}
+
+/**
+ * Remove the unused objects of a glTF 2.0 document, and renumber the indices that refer to the rest.
+ *
+ * @param glTF The glTF root object, which is not modified
+ * @return The pruned copy of the glTF, and what was removed
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function pruneGltf(glTF: any): PruneResult {
+    let result = JSON.parse(JSON.stringify(glTF));
+    const removed = removeObjects(result, new Set(getUnusedObjects(result)));
+    return { glTF: result, removed: removed };
+}
+
+/**
+ * Check the objects of a glTF 2.0 document to merge into equivalent objects, as `mergeGltfObjects` does.
+ *
+ * @param glTF The glTF root object, which is not modified
+ * @param merges The objects to merge, and the index of the object in the same collection to merge each into
+ * @return The index that each merged object, by JSON pointer, is merged into
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function getMergedObjects(glTF: any, merges: MergedObject[]): Map<string, number> {
+    checkGltf2(glTF, 'merged');
+    let mergedInto = new Map<string, number>();
+    for (let merge of merges) {
+        const match = /^\/([^/]+)\/(\d+)$/.exec(merge.path);
+        if (!match || !prunedCollections.hasOwnProperty(match[1]) || getFromPath(glTF, merge.path) === undefined ||
+            !Array.isArray(glTF[match[1]]) || merge.into >= glTF[match[1]].length || merge.into === parseInt(match[2], 10)) {
+            throw new Error(`Cannot merge ${merge.path} into index ${merge.into}.`);
+        }
+        mergedInto.set(merge.path, merge.into);
+    }
+    mergedInto.forEach((into, path) => {
+        if (mergedInto.has(path.substring(0, path.lastIndexOf('/') + 1) + into)) {
+            throw new Error(`Cannot merge ${path} into an object that is merged itself.`);
+        }
+    });
+    return mergedInto;
+}
+
+/**
+ * Merge objects of a glTF 2.0 document into equivalent objects, such as duplicate accessors into the first
+ * accessor with the same data.  Each merged object is removed, and references to it refer to the object it
+ * was merged into.  An object can only be merged into one that is not merged itself.
+ *
+ * @param glTF The glTF root object, which is not modified
+ * @param merges The objects to merge, and the index of the object in the same collection to merge each into
+ * @return The merged copy of the glTF, and what was removed
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function mergeGltfObjects(glTF: any, merges: MergedObject[]): PruneResult {
+    const mergedInto = getMergedObjects(glTF, merges);
+    let result = JSON.parse(JSON.stringify(glTF));
+    const removed = removeObjects(result, new Set(mergedInto.keys()), mergedInto);
+    return { glTF: result, removed: removed };
+}
+
+/**
+ * Find the parent of each node, by index.
+ */
+function getNodeParents(glTF: any): Map<number, number> {
+    let parents = new Map<number, number>();
+    (Array.isArray(glTF.nodes) ? glTF.nodes : []).forEach((node: any, index: number) => {
+        if (node && Array.isArray(node.children)) {
+            node.children.filter((child: number) => !parents.has(child)).forEach((child: number) => parents.set(child, index));
+        }
+    });
+    return parents;
+}
+
+/**
+ * Copy a node and its descendants, with the meshes, materials, textures, skins, accessors, cameras and lights
+ * they use, into a glTF 2.0 document of their own.  The node becomes the only root of the only scene, and
+ * animations keep only the channels that target the copied nodes.  Its parents' world transform can be baked into the node,
+ * so that the subtree keeps its place in the world; an animated node is instead given a new parent with that transform.
+ *
+ * @param glTF The glTF root object, which is not modified
+ * @param nodeIndex The index of the node whose subtree to extract
+ * @param bakeParentTransform Whether to bake the world transform of the node's parents into the new root
+ * @return The extracted copy of the glTF, and what was removed
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function extractNodeSubtree(glTF: any, nodeIndex: number, bakeParentTransform: boolean): PruneResult {
+    checkGltf2(glTF, 'extracted');
+    let result = JSON.parse(JSON.stringify(glTF));
+    const nodes: any[] = Array.isArray(result.nodes) ? result.nodes : [];
+    if (!nodes[nodeIndex]) {
+        throw new Error(`Node ${nodeIndex} does not exist.`);
+    }
+
+    let subtree = new Set<number>();
+    let pending = [nodeIndex];
+    while (pending.length > 0) {
+        const index = pending.pop();
+        if (subtree.has(index) || !nodes[index]) {
+            continue;
+        }
+        subtree.add(index);
+        if (Array.isArray(nodes[index].children)) {
+            pending.push(...nodes[index].children);
+        }
+    }
+
+    // A skin whose joints are not all in the subtree cannot come along without them.
+    for (let index of subtree) {
+        const skin = (nodes[index].skin !== undefined && Array.isArray(result.skins)) ? result.skins[nodes[index].skin] : undefined;
+        if (skin && (!(Array.isArray(skin.joints) ? skin.joints : []).every((joint: number) => subtree.has(joint)) ||
+            (skin.skeleton !== undefined && !subtree.has(skin.skeleton)))) {
+            throw new Error(`Skin ${nodes[index].skin} of Node ${index} has joints outside the subtree of Node ${nodeIndex}.  ` +
+                'Extract a node that contains both the skinned mesh and its joints.');
+        }
+    }
+
+    let animatedPaths = new Set<string>();
+    if (Array.isArray(result.animations)) {
+        for (let animation of result.animations) {
+            const channels: any[] = Array.isArray(animation.channels) ? animation.channels : [];
+            const samplers: any[] = Array.isArray(animation.samplers) ? animation.samplers : [];
+            animation.channels = channels.filter(channel => channel.target && subtree.has(channel.target.node));
+
+            let newSamplers: number[] = [];
+            let keptSamplers: any[] = [];
+            samplers.forEach((sampler, index) => {
+                const isUsed = animation.channels.some((channel: any) => channel.sampler === index);
+                newSamplers.push(isUsed ? keptSamplers.length : -1);
+                if (isUsed) {
+                    keptSamplers.push(sampler);
+                }
+            });
+            animation.samplers = keptSamplers;
+            for (let channel of animation.channels) {
+                channel.sampler = newSamplers[channel.sampler];
+                if (channel.target.node === nodeIndex) {
+                    animatedPaths.add(channel.target.path);
+                }
+            }
+        }
+        result.animations = result.animations.filter((animation: any) => animation.channels.length > 0);
+        if (result.animations.length === 0) {
+            delete result.animations;
+        }
+    }
+
+    let rootIndex = nodeIndex;
+    const parents = getNodeParents(result);
+    if (bakeParentTransform && parents.has(nodeIndex)) {
+        let parentMatrix = identityMatrix;
+        let visited = new Set<number>([nodeIndex]);
+        for (let parent = parents.get(nodeIndex); parent !== undefined && !visited.has(parent); parent = parents.get(parent)) {
+            visited.add(parent);
+            parentMatrix = multiplyMatrices(getNodeMatrix(nodes[parent]), parentMatrix);
+        }
+
+        const root = nodes[nodeIndex];
+        if (['translation', 'rotation', 'scale'].some(path => animatedPaths.has(path))) {
+            // Animating the root would overwrite a baked transform.
+            rootIndex = nodes.length;
+            nodes.push({ name: (root.name || 'Node ' + nodeIndex) + ' parent transform', matrix: parentMatrix, children: [nodeIndex] });
+        } else {
+            const matrix = multiplyMatrices(parentMatrix, getNodeMatrix(root));
+            const transform = decomposeMatrix(matrix);
+            const recomposed = composeMatrix(transform);
+            const tolerance = 1e-5 * Math.max(1, ...matrix.map(Math.abs));
+            delete root.matrix;
+            delete root.translation;
+            delete root.rotation;
+            delete root.scale;
+            if (Array.isArray(glTF.nodes[nodeIndex].matrix) || !matrix.every((value, index) => Math.abs(value - recomposed[index]) <= tolerance)) {
+                root.matrix = matrix;
+            } else {
+                root.translation = transform.translation;
+                root.rotation = transform.rotation;
+                root.scale = transform.scale;
+            }
+        }
+    }
+
+    const rootName = nodes[nodeIndex].name;
+    result.scenes = [(typeof rootName === 'string' && rootName.length > 0) ? { name: rootName, nodes: [rootIndex] } : { nodes: [rootIndex] }];
+    result.scene = 0;
+
+    // Nodes outside the subtree are removed along with whatever only they used, such as their meshes, skins and cameras.
+    const removed = removeObjects(result, findUnusedObjects(result, allCollections));
+    return { glTF: result, removed: removed };
+}
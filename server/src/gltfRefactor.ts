@@ -0,0 +1,378 @@
+import { TextDocument, TextEdit, Range } from 'vscode-languageserver';
+import { JsonMap, getFromPath, forEachReference, escapePointerSegment, getObjectLabel } from './gltfReferences';
+
+// This file computes index-safe refactorings, which remove or reorder entries of
+// top-level glTF arrays while rewriting every index that refers into those arrays.
+// Quick fixes that delete several objects at once request their edits as 'gltf/deleteObjects',
+// the prune command requests the edits that remove every unused object as 'gltf/prune', and the
+// deduplicate command requests the edits that merge duplicates into their originals as 'gltf/mergeObjects'.
+
+interface OffsetEdit {
+    start: number;
+    end: number;
+    newText: string;
+}
+
+export interface DeleteObjectsParams {
+    textDocument: { uri: string };
+    paths: string[];
+}
+
+export interface RemoveObjectsResult {
+    /** The edits that remove the objects and renumber the references to the rest, to apply all at once. */
+    edits: TextEdit[];
+    /** The JSON pointers of the removed objects, such as `/accessors/3`. */
+    removedPaths: string[];
+    /** What was removed from each collection, such as `3 accessors`. */
+    removed: string[];
+}
+
+interface TopLevelEntry {
+    collection: string;
+    index: number;
+    length: number;
+}
+
+/**
+ * References that can be removed without leaving their parent invalid, should their target be deleted.
+ */
+const removableReferenceKeys = ['scene', 'mesh', 'material', 'skin', 'camera', 'skeleton', 'light', 'sampler', 'source'];
+
+/**
+ * Locate the entry of a top-level glTF array that contains a JSON pointer.
+ *
+ * @param glTF The glTF root object
+ * @param path A JSON pointer, such as `/materials/2/pbrMetallicRoughness`
+ * @return The collection and index of the entry, such as `/materials` and `2`, or `undefined`
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function getTopLevelEntry(glTF: any, path: string): TopLevelEntry | undefined {
+    const match = /^(\/[^/]+)\/(\d+)/.exec(path);
+    if (!match) {
+        return undefined;
+    }
+    const collection = getFromPath(glTF, match[1]);
+    const index = parseInt(match[2], 10);
+    if (!Array.isArray(collection) || index >= collection.length) {
+        return undefined;
+    }
+    return { collection: match[1], index: index, length: collection.length };
+}
+
+/**
+ * Compose a label for a top-level entry, for use in messages and code action titles.
+ */
+export function getTopLevelEntryLabel(map: JsonMap, entry: TopLevelEntry): string {
+    return getObjectLabel(entry.collection, entry.index, getFromPath(map.data, entry.collection + '/' + entry.index));
+}
+
+function getParentPath(path: string): string {
+    return path.substring(0, path.lastIndexOf('/'));
+}
+
+function getChildPaths(map: JsonMap, parentPath: string): string[] {
+    return Object.keys(getFromPath(map.data, parentPath)).map(key => parentPath + '/' + escapePointerSegment(key));
+}
+
+/**
+ * Compute the edits that remove some entries from a JSON array or object, along with
+ * the commas separating them from their remaining siblings.  An array left empty is
+ * removed from its own parent, because glTF does not allow empty arrays.
+ *
+ * @param map The JSON map of the document
+ * @param parentPath The JSON pointer of the array or object
+ * @param removedPaths The JSON pointers of the entries to remove
+ * @return The edits, in terms of offsets into the document text
+ */
+function getRemovalEdits(map: JsonMap, parentPath: string, removedPaths: Set<string>): OffsetEdit[] {
+    const parent = getFromPath(map.data, parentPath);
+    const childPaths = getChildPaths(map, parentPath);
+    const numChildren = childPaths.length;
+
+    if (childPaths.every(childPath => removedPaths.has(childPath))) {
+        if (!Array.isArray(parent)) {
+            const pointer = map.pointers[parentPath];
+            return [{ start: pointer.value.pos, end: pointer.valueEnd.pos, newText: '{}' }];
+        }
+        if (parentPath === '') {
+            throw new Error('Cannot remove the root of the document.');
+        }
+        return getRemovalEdits(map, getParentPath(parentPath), new Set([parentPath]));
+    }
+
+    const entryStart = (childPath: string): number => {
+        const pointer = map.pointers[childPath];
+        return pointer.key ? pointer.key.pos : pointer.value.pos;
+    };
+    const entryEnd = (childPath: string): number => map.pointers[childPath].valueEnd.pos;
+
+    let edits: OffsetEdit[] = [];
+    for (let first = 0; first < numChildren; ++first) {
+        if (!removedPaths.has(childPaths[first])) {
+            continue;
+        }
+        let last = first;
+        while (last + 1 < numChildren && removedPaths.has(childPaths[last + 1])) {
+            ++last;
+        }
+
+        if (last + 1 < numChildren) {
+            // Remove the run along with the comma that follows it.
+            edits.push({ start: entryStart(childPaths[first]), end: entryStart(childPaths[last + 1]), newText: '' });
+        } else {
+            // Remove the run at the end, along with the comma that precedes it.
+            edits.push({ start: entryEnd(childPaths[first - 1]), end: entryEnd(childPaths[last]), newText: '' });
+        }
+        first = last;
+    }
+    return edits;
+}
+
+function collectExtensionNames(value: any, path: string, excludedPaths: string[], names: Set<string>): void {
+    if (value === null || typeof value !== 'object' || excludedPaths.indexOf(path) >= 0) {
+        return;
+    }
+    for (let key of Object.keys(value)) {
+        if (key === 'extensions' && value[key] !== null && typeof value[key] === 'object') {
+            Object.keys(value[key]).forEach(name => names.add(name));
+        }
+        collectExtensionNames(value[key], path + '/' + escapePointerSegment(key), excludedPaths, names);
+    }
+}
+
+/**
+ * Find the entries of `extensionsUsed` and `extensionsRequired` to remove when
+ * the last user of an extension is part of a deletion.
+ */
+function getUnusedExtensionPaths(map: JsonMap, deletedPaths: string[]): Map<string, Set<string>> {
+    let result = new Map<string, Set<string>>();
+    let deletedNames = new Set<string>();
+    deletedPaths.forEach(deletedPath => collectExtensionNames(getFromPath(map.data, deletedPath), deletedPath, [], deletedNames));
+    if (deletedNames.size === 0) {
+        return result;
+    }
+
+    let remainingNames = new Set<string>();
+    collectExtensionNames(map.data, '', deletedPaths, remainingNames);
+
+    for (let listName of ['/extensionsUsed', '/extensionsRequired']) {
+        const list = getFromPath(map.data, listName);
+        if (!Array.isArray(list)) {
+            continue;
+        }
+        let removedPaths = new Set<string>();
+        list.forEach((name, index) => {
+            if (deletedNames.has(name) && !remainingNames.has(name)) {
+                removedPaths.add(listName + '/' + index);
+            }
+        });
+        if (removedPaths.size > 0) {
+            result.set(listName, removedPaths);
+        }
+    }
+    return result;
+}
+
+/**
+ * Visit every reference into a given collection, along with the index it refers to.
+ */
+function forEachIndexReference(map: JsonMap, collection: string, callback: (path: string, index: number) => void): void {
+    const prefix = collection + '/';
+    forEachReference(map.data, (path, target) => {
+        if (target.startsWith(prefix) && /^\d+$/.test(target.substring(prefix.length)) && map.pointers.hasOwnProperty(path)) {
+            callback(path, parseInt(target.substring(prefix.length), 10));
+        }
+    });
+}
+
+function isInside(edit: OffsetEdit, outer: OffsetEdit): boolean {
+    return edit.start >= outer.start && edit.end <= outer.end;
+}
+
+function toTextEdits(document: TextDocument, edits: OffsetEdit[]): TextEdit[] {
+    return edits.map(edit => TextEdit.replace(
+        Range.create(document.positionAt(edit.start), document.positionAt(edit.end)), edit.newText));
+}
+
+/**
+ * Compute the edits that delete an entry of a top-level glTF array, decrementing every index
+ * that refers to a later entry.  References to the deleted entry itself are removed where
+ * glTF allows it, otherwise the deletion is refused.
+ *
+ * @param document The document to edit
+ * @param map The JSON map of the document
+ * @param entry The entry to delete
+ * @return The text edits to apply, all at once
+ */
+export function getDeleteObjectEdits(document: TextDocument, map: JsonMap, entry: TopLevelEntry): TextEdit[] {
+    return getDeleteObjectsEdits(document, map, [entry]);
+}
+
+/**
+ * Compute the edits that delete several entries of top-level glTF arrays at once, as
+ * `getDeleteObjectEdits` does for one.  References between the deleted entries are
+ * not counted against the deletion.  References to an entry that was merged into
+ * another entry of its array refer to that entry instead.
+ *
+ * @param document The document to edit
+ * @param map The JSON map of the document
+ * @param entries The entries to delete, from one or more arrays
+ * @param mergedInto The index that each merged entry, by JSON pointer, was merged into
+ * @return The text edits to apply, all at once
+ */
+export function getDeleteObjectsEdits(document: TextDocument, map: JsonMap, entries: TopLevelEntry[],
+    mergedInto = new Map<string, number>()): TextEdit[] {
+    const pointers = map.pointers;
+    entries = entries.filter((entry, position) =>
+        entries.findIndex(other => other.collection === entry.collection && other.index === entry.index) === position);
+    const deletedPaths = entries.map(entry => entry.collection + '/' + entry.index);
+    const deletedRanges = deletedPaths.map(deletedPath => ({ start: pointers[deletedPath].value.pos, end: pointers[deletedPath].valueEnd.pos, newText: '' }));
+    const isDeleted = (path: string) => deletedPaths.some(deletedPath => path === deletedPath || path.startsWith(deletedPath + '/'));
+
+    // Group the deleted indices by collection.
+    let deletedIndices = new Map<string, number[]>();
+    entries.forEach(entry => {
+        if (!deletedIndices.has(entry.collection)) {
+            deletedIndices.set(entry.collection, []);
+        }
+        deletedIndices.get(entry.collection).push(entry.index);
+    });
+
+    // Top-level arrays left empty are removed from the root together, so that their edits do not overlap.
+    let topLevelRemovals = getUnusedExtensionPaths(map, deletedPaths);
+    deletedIndices.forEach((indices, collection) => {
+        topLevelRemovals.set(collection, new Set(indices.map(index => collection + '/' + index)));
+    });
+    let edits: OffsetEdit[] = [];
+    let emptiedArrays = new Set<string>();
+    topLevelRemovals.forEach((removedPaths, arrayPath) => {
+        if (removedPaths.size === getFromPath(map.data, arrayPath).length) {
+            emptiedArrays.add(arrayPath);
+        } else {
+            edits = edits.concat(getRemovalEdits(map, arrayPath, removedPaths));
+        }
+    });
+    if (emptiedArrays.size > 0) {
+        edits = edits.concat(getRemovalEdits(map, '', emptiedArrays));
+    }
+
+    // Group the references to be removed by their parent, so runs of siblings are removed together.
+    let removals = new Map<string, Set<string>>();
+    let blockers = new Map<string, string[]>();
+    deletedIndices.forEach((indices, collection) => {
+        forEachIndexReference(map, collection, (path, index) => {
+            if (isDeleted(path)) {
+                return;
+            }
+            const targetIndex = mergedInto.has(collection + '/' + index) ? mergedInto.get(collection + '/' + index) : index;
+            const numDeletedBefore = indices.filter(deletedIndex => deletedIndex < targetIndex).length;
+            if (indices.indexOf(targetIndex) < 0) {
+                if (targetIndex - numDeletedBefore !== index) {
+                    const pointer = pointers[path];
+                    edits.push({ start: pointer.value.pos, end: pointer.valueEnd.pos, newText: (targetIndex - numDeletedBefore).toString() });
+                }
+                return;
+            }
+
+            const parentPath = getParentPath(path);
+            const key = path.substring(parentPath.length + 1);
+            const parent = getFromPath(map.data, parentPath);
+            if (Array.isArray(parent) ? (/\/(nodes|children)$/.test(parentPath)) : (removableReferenceKeys.indexOf(key) >= 0)) {
+                if (!removals.has(parentPath)) {
+                    removals.set(parentPath, new Set<string>());
+                }
+                removals.get(parentPath).add(path);
+            } else {
+                const deletedPath = collection + '/' + index;
+                if (!blockers.has(deletedPath)) {
+                    blockers.set(deletedPath, []);
+                }
+                blockers.get(deletedPath).push(path);
+            }
+        });
+    });
+
+    blockers.forEach((blockerPaths, deletedPath) => {
+        const entry = getTopLevelEntry(map.data, deletedPath);
+        throw new Error(`${getTopLevelEntryLabel(map, entry)} is still required by ${blockerPaths.slice(0, 3).join(', ')}` +
+            (blockerPaths.length > 3 ? ` and ${blockerPaths.length - 3} more.` : '.'));
+    });
+
+    removals.forEach((removedPaths, parentPath) => {
+        const removalEdits = getRemovalEdits(map, parentPath, removedPaths);
+        // Removing a reference may also remove its parent, so drop any edits now inside it.
+        edits = edits.filter(edit => !removalEdits.some(removal => isInside(edit, removal))).concat(removalEdits);
+    });
+
+    return toTextEdits(document, edits.filter(edit => !deletedRanges.some(deletedRange => isInside(edit, deletedRange))));
+}
+
+/**
+ * Compute the edits that move an entry of a top-level glTF array to a new index,
+ * shifting the entries in between and rewriting every index that refers to them.
+ *
+ * @param document The document to edit
+ * @param map The JSON map of the document
+ * @param entry The entry to move
+ * @param newIndex The index the entry should have afterwards
+ * @return The text edits to apply, all at once
+ */
+export function getMoveObjectEdits(document: TextDocument, map: JsonMap, entry: TopLevelEntry, newIndex: number): TextEdit[] {
+    if (!Number.isInteger(newIndex) || newIndex < 0 || newIndex >= entry.length) {
+        throw new Error(`The new index must be between 0 and ${entry.length - 1}.`);
+    }
+    if (newIndex === entry.index) {
+        return [];
+    }
+
+    const text = document.getText();
+    const pointers = map.pointers;
+    const low = Math.min(entry.index, newIndex);
+    const high = Math.max(entry.index, newIndex);
+
+    // Map each old index to its new index.
+    const remap = (index: number): number => {
+        if (index === entry.index) {
+            return newIndex;
+        }
+        if (index < low || index > high) {
+            return index;
+        }
+        return (entry.index < newIndex) ? index - 1 : index + 1;
+    };
+
+    let referenceEdits: OffsetEdit[] = [];
+    forEachIndexReference(map, entry.collection, (path, index) => {
+        if (remap(index) !== index) {
+            const pointer = pointers[path];
+            referenceEdits.push({ start: pointer.value.pos, end: pointer.valueEnd.pos, newText: remap(index).toString() });
+        }
+    });
+
+    // The text of each shifted entry, with any references inside it already rewritten.
+    const entryText = (index: number): string => {
+        const pointer = pointers[entry.collection + '/' + index];
+        let start = pointer.value.pos;
+        let result = '';
+        referenceEdits
+            .filter(edit => edit.start >= pointer.value.pos && edit.end <= pointer.valueEnd.pos)
+            .sort((a, b) => a.start - b.start)
+            .forEach(edit => {
+                result += text.substring(start, edit.start) + edit.newText;
+                start = edit.end;
+            });
+        return result + text.substring(start, pointer.valueEnd.pos);
+    };
+
+    // Each slot in the affected range receives the entry that moves into it.
+    let edits: OffsetEdit[] = [];
+    for (let index = low; index <= high; ++index) {
+        const pointer = pointers[entry.collection + '/' + index];
+        edits.push({ start: pointer.value.pos, end: pointer.valueEnd.pos, newText: '' });
+    }
+    for (let index = low; index <= high; ++index) {
+        edits[remap(index) - low].newText = entryText(index);
+    }
+
+    return toTextEdits(document, edits.concat(referenceEdits.filter(edit => !edits.some(slot => isInside(edit, slot)))));
+}
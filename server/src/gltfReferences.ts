@@ -0,0 +1,423 @@
+// This file knows which glTF collection each indexed property refers to,
+// so that language features can follow references in either direction.
+
+export interface JsonMap {
+    data: any;
+    pointers: any;
+}
+
+/**
+ * Keys whose value is always an index into a single top-level collection.
+ */
+const referenceKeyCollections: { [key: string]: string } = {
+    scene: '/scenes',
+    mesh: '/meshes',
+    skin: '/skins',
+    material: '/materials',
+    input: '/accessors',
+    output: '/accessors',
+    inverseBindMatrices: '/accessors',
+    indices: '/accessors',
+    node: '/nodes',
+    skeleton: '/nodes',
+    bufferView: '/bufferViews',
+    buffer: '/buffers',
+    index: '/textures',
+    sampler: '/samplers',
+    source: '/images',
+    camera: '/cameras',
+    light: '/extensions/KHR_lights_punctual/lights',
+    fragmentShader: '/shaders',
+    vertexShader: '/shaders'
+};
+
+/**
+ * Arrays whose entries are indices of glTF nodes, when found below the document root.
+ * glTF 1.0 nodes also list the root nodes of their skeletons.
+ */
+const nodeListKeys = ['nodes', 'children', 'joints', 'skeletons'];
+
+const collectionTypeNames = {
+    '/accessors': 'Accessor',
+    '/animations': 'Animation',
+    '/buffers': 'Buffer',
+    '/bufferViews': 'BufferView',
+    '/cameras': 'Camera',
+    '/images': 'Image',
+    '/materials': 'Material',
+    '/meshes': 'Mesh',
+    '/nodes': 'Node',
+    '/samplers': 'Sampler',
+    '/scenes': 'Scene',
+    '/skins': 'Skin',
+    '/textures': 'Texture',
+    '/programs': 'Program',
+    '/shaders': 'Shader',
+    '/techniques': 'Technique'
+};
+
+export const componentTypeNames = {
+    5120: 'byte',
+    5121: 'unsigned byte',
+    5122: 'short',
+    5123: 'unsigned short',
+    5125: 'unsigned int',
+    5126: 'float'
+};
+
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function getFromPath(glTF: any, path : string): any {
+    const pathSplit = path.split('/');
+    const numPathSegments = pathSplit.length;
+    let result = glTF;
+    const firstValidIndex = 1; // Because the path has a leading slash.
+    for (let i = firstValidIndex; i < numPathSegments; ++i) {
+        if (result === undefined || result === null) {
+            return undefined;
+        }
+        result = result[pathSplit[i]];
+    }
+    return result;
+}
+
+/**
+ * Find the most specific JSON pointer whose value contains the given document offset.
+ *
+ * @param map A map of JSON pointers to document text locations
+ * @param offset The offset into the document text
+ * @return The JSON pointer, or `undefined` if none contains the offset
+ */
+export function getPathAtOffset(map: JsonMap, offset: number): string {
+    let lastPath: string;
+    for (let path of Object.keys(map.pointers)) {
+        let pointer = map.pointers[path];
+        if (pointer.value.pos <= offset && offset <= pointer.valueEnd.pos) {
+            lastPath = path;
+        }
+    }
+    return lastPath;
+}
+
+/**
+ * Determine whether a glTF document is glTF 1.0, whose collections are objects keyed by ID.
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function isGltf1(glTF: any): boolean {
+    return !glTF.asset || typeof glTF.asset.version !== 'string' || glTF.asset.version[0] === '1';
+}
+
+/**
+ * Determine which collection a glTF 1.0 property refers to, where this differs from glTF 2.0: animation
+ * samplers name parameters of their animation, which in turn name accessors, animation channels name their
+ * target node by `id`, material values may name textures, and materials and techniques name their technique
+ * and program.
+ */
+function getGltf1ReferencedCollection(pathSplit: string[]): string | undefined {
+    const path = pathSplit.join('/');
+    const match = /^(\/animations\/[^/]+)\/samplers\/[^/]+\/(input|output)$/.exec(path);
+    if (match) {
+        return match[1] + '/parameters';
+    }
+    if (/^\/animations\/[^/]+\/parameters\/[^/]+$/.test(path)) {
+        return '/accessors';
+    }
+    if (/^\/animations\/[^/]+\/channels\/[^/]+\/target\/id$/.test(path)) {
+        return '/nodes';
+    }
+    if (/^\/materials\/[^/]+\/values\/[^/]+$/.test(path)) {
+        return '/textures';
+    }
+    if (/^\/materials\/[^/]+\/technique$/.test(path)) {
+        return '/techniques';
+    }
+    if (/^\/techniques\/[^/]+\/program$/.test(path)) {
+        return '/programs';
+    }
+    return undefined;
+}
+
+/**
+ * Determine which collection an indexed glTF property refers to.
+ * For example, `/meshes/0/primitives/1/attributes/POSITION` refers to `/accessors`,
+ * and `/animations/2/channels/0/sampler` refers to `/animations/2/samplers`.
+ *
+ * @param path The JSON pointer of a property holding an index (glTF 2.0) or ID (glTF 1.0)
+ * @param glTF The glTF root object, if the references of glTF 1.0 documents should be told apart
+ * @return The JSON pointer of the referenced collection, or `undefined` if the property is not a reference
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function getReferencedCollection(path: string, glTF?: any): string | undefined {
+    const pathSplit = path.split('/');
+    const numPathSegments = pathSplit.length;
+    if (numPathSegments < 2 || pathSplit.indexOf('extras') >= 0) {
+        return undefined;
+    }
+    if (glTF && isGltf1(glTF)) {
+        const gltf1Collection = getGltf1ReferencedCollection(pathSplit);
+        if (gltf1Collection !== undefined) {
+            return gltf1Collection;
+        }
+    }
+
+    const key = pathSplit[numPathSegments - 1];
+    const parentKey = pathSplit[numPathSegments - 2];
+    const inDraco = pathSplit.indexOf('KHR_draco_mesh_compression') >= 0;
+
+    if (key === 'sampler' && pathSplit[1] === 'animations' && pathSplit[3] === 'channels') {
+        return '/animations/' + pathSplit[2] + '/samplers';
+    }
+    if (referenceKeyCollections.hasOwnProperty(key)) {
+        return referenceKeyCollections[key];
+    }
+    if (parentKey === 'attributes') {
+        // Draco attributes are IDs within the compressed data, not accessors.
+        return inDraco ? undefined : '/accessors';
+    }
+    if (numPathSegments > 3 && pathSplit[numPathSegments - 3] === 'targets' && pathSplit.indexOf('primitives') >= 0) {
+        return '/accessors';
+    }
+    if (numPathSegments > 3 && nodeListKeys.indexOf(parentKey) >= 0) {
+        return '/nodes';
+    }
+    if (numPathSegments > 3 && parentKey === 'meshes' && pathSplit[1] === 'nodes') {
+        // glTF 1.0 nodes list their meshes.
+        return '/meshes';
+    }
+    if (parentKey === 'variants' && pathSplit.indexOf('KHR_materials_variants') >= 0) {
+        return '/extensions/KHR_materials_variants/variants';
+    }
+
+    return undefined;
+}
+
+/**
+ * Escape an object key or ID for use as a segment of a JSON pointer.
+ */
+export function escapePointerSegment(segment: string | number): string {
+    return segment.toString().replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Determine if a JSON pointer names a collection that glTF references may point into.
+ */
+function isReferenceableCollection(collection: string): boolean {
+    return /^\/animations\/[^/]+\/(samplers|parameters)$/.test(collection) ||
+        collection === '/nodes' || collection === '/accessors' ||
+        collection === '/techniques' || collection === '/programs' ||
+        collection === '/extensions/KHR_materials_variants/variants' ||
+        Object.keys(referenceKeyCollections).some(key => referenceKeyCollections[key] === collection);
+}
+
+/**
+ * Find the object that a reference points to, given the value of the reference.
+ */
+function getTarget(glTF: any, path: string, value: any): string | undefined {
+    if (typeof value !== 'number' && typeof value !== 'string') {
+        return undefined;
+    }
+    const collection = getReferencedCollection(path, glTF);
+    if (collection === undefined) {
+        return undefined;
+    }
+    const target = collection + '/' + escapePointerSegment(value);
+
+    // Only the glTF 1.0 material values that name a texture are references.
+    if (collection === '/textures' && /^\/materials\/[^/]+\/values\//.test(path) && getFromPath(glTF, target) === undefined) {
+        return undefined;
+    }
+    return target;
+}
+
+/**
+ * Determine which object a reference points to.
+ *
+ * @param glTF The glTF root object
+ * @param path The JSON pointer of a property that may hold an index (glTF 2.0) or ID (glTF 1.0)
+ * @return The JSON pointer of the referenced object, or `undefined` if the property is not a reference
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function getReferenceTarget(glTF: any, path: string): string | undefined {
+    return getTarget(glTF, path, getFromPath(glTF, path));
+}
+
+/**
+ * Determine which referenceable glTF object a JSON pointer is about.  If the pointer
+ * holds a reference, this is the object referenced.  Otherwise, it is the object
+ * containing the pointer, for example `/accessors/3` for `/accessors/3/count`.
+ *
+ * @param glTF The glTF root object
+ * @param path A JSON pointer
+ * @return The JSON pointer of the glTF object, or `undefined`
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function getReferencedObject(glTF: any, path: string): string | undefined {
+    const target = getReferenceTarget(glTF, path);
+    if (target !== undefined) {
+        return target;
+    }
+
+    const match = /^\/animations\/[^/]+\/(samplers|parameters)\/[^/]+/.exec(path) ||
+        /^\/extensions\/[^/]+\/[^/]+\/[^/]+/.exec(path) ||
+        /^\/[^/]+\/[^/]+/.exec(path);
+    if (match && isReferenceableCollection(match[0].substring(0, match[0].lastIndexOf('/')))) {
+        return match[0];
+    }
+    return undefined;
+}
+
+/**
+ * Visit every indexed reference in a glTF document, including those found in extensions.
+ * The references of glTF 1.0 documents are found by ID.
+ *
+ * @param glTF The glTF root object
+ * @param callback Called with the JSON pointer of each reference, and the JSON pointer of the object it references
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function forEachReference(glTF: any, callback: (path: string, target: string) => void): void {
+    const visit = (value: any, path: string) => {
+        if (value !== null && typeof value === 'object') {
+            for (let key of Object.keys(value)) {
+                if (key !== 'extras') {
+                    visit(value[key], path + '/' + escapePointerSegment(key));
+                }
+            }
+        } else {
+            const target = getTarget(glTF, path, value);
+            if (target !== undefined) {
+                callback(path, target);
+            }
+        }
+    };
+    visit(glTF, '');
+}
+
+export function plural(howMany: number, name: string, pluralName = name + 's'): string {
+    return howMany.toFixed() + ' ' + (howMany === 1 ? name : pluralName);
+}
+
+/**
+ * Format a number of bytes for display, such as `512 bytes`, `56.4 KB` or `1.2 MB`.
+ * The extension has its own copy in `src/utilities.ts`, which should give the same results.
+ */
+export function formatByteSize(bytes: number): string {
+    if (bytes < 1024) {
+        return plural(bytes, 'byte');
+    } else if (bytes < 1024 * 1024) {
+        return (bytes / 1024).toFixed(1) + ' KB';
+    }
+    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+}
+
+/**
+ * Compose a short, human-readable summary of a glTF object.
+ *
+ * @param glTF The glTF root object
+ * @param collection The JSON pointer of the collection holding the object, such as `/accessors`
+ * @param target The object itself
+ * @return A summary such as `VEC3 float ×24`, or an empty string
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function summarizeObject(glTF: any, collection: string, target: any): string {
+    if (!target || typeof target !== 'object') {
+        return '';
+    }
+
+    switch (collection) {
+        case '/accessors': {
+            let componentType = componentTypeNames[target.componentType] || target.componentType;
+            return `${target.type} ${componentType}${target.normalized ? ' normalized' : ''} ×${target.count}`;
+        }
+        case '/meshes': {
+            const primitives = Array.isArray(target.primitives) ? target.primitives : [];
+            let vertices = 0;
+            for (let primitive of primitives) {
+                const position = primitive.attributes ? primitive.attributes.POSITION : undefined;
+                const accessor = (position !== undefined && glTF.accessors) ? glTF.accessors[position] : undefined;
+                if (accessor && accessor.count) {
+                    vertices += accessor.count;
+                }
+            }
+            return plural(primitives.length, 'primitive') + ', ' + plural(vertices, 'vertex', 'vertices');
+        }
+        case '/nodes': {
+            let parts: string[] = [];
+            if (target.mesh !== undefined) {
+                parts.push('mesh ' + target.mesh);
+            }
+            if (target.camera !== undefined) {
+                parts.push('camera ' + target.camera);
+            }
+            if (target.skin !== undefined) {
+                parts.push('skin ' + target.skin);
+            }
+            if (Array.isArray(target.children) && target.children.length > 0) {
+                parts.push(plural(target.children.length, 'child', 'children'));
+            }
+            return parts.join(', ');
+        }
+        case '/scenes':
+            return plural(Array.isArray(target.nodes) ? target.nodes.length : 0, 'root node');
+        case '/skins':
+            return plural(Array.isArray(target.joints) ? target.joints.length : 0, 'joint');
+        case '/bufferViews':
+        case '/buffers':
+            return (target.byteLength !== undefined) ? plural(target.byteLength, 'byte') : '';
+        case '/textures':
+            return (target.source !== undefined) ? 'image ' + target.source : '';
+        case '/images':
+            if (target.mimeType) {
+                return target.mimeType;
+            }
+            return (typeof target.uri === 'string' && !target.uri.startsWith('data:')) ? target.uri : '';
+        case '/cameras':
+            return target.type || '';
+        default:
+            if (collection.startsWith('/animations/')) {
+                return target.interpolation || 'LINEAR';
+            }
+            return '';
+    }
+}
+
+/**
+ * Compose a label for a glTF object, such as `Material 3 'Glass'`.
+ *
+ * @param collection The JSON pointer of the collection holding the object
+ * @param id The index or ID of the object within its collection
+ * @param target The object itself
+ * @return The label
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function getObjectLabel(collection: string, id: string | number, target: any): string {
+    let typeName = collectionTypeNames[collection];
+    if (typeName === undefined) {
+        typeName = collection.substring(collection.lastIndexOf('/') + 1).replace(/s$/, '');
+        typeName = typeName.charAt(0).toUpperCase() + typeName.substring(1);
+    }
+    let label = `${typeName} ${id}`;
+    if (target && typeof target.name === 'string' && target.name.length > 0) {
+        label += ` '${target.name}'`;
+    }
+    return label;
+}
+
+/**
+ * Describe a glTF object by its name (if any) and a short summary.
+ *
+ * @param glTF The glTF root object
+ * @param collection The JSON pointer of the collection holding the object
+ * @param target The object itself
+ * @return A description such as `"Body_LOD0" VEC3 float ×4812`
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function describeObject(glTF: any, collection: string, target: any): string {
+    let parts: string[] = [];
+    if (target && typeof target.name === 'string' && target.name.length > 0) {
+        parts.push(JSON.stringify(target.name));
+    }
+    const summary = summarizeObject(glTF, collection, target);
+    if (summary) {
+        parts.push(summary);
+    }
+    return parts.join(' ');
+}
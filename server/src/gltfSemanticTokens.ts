@@ -0,0 +1,120 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { TextDocument } from 'vscode-languageserver';
+import { JsonMap, getFromPath, forEachReference } from './gltfReferences';
+
+// This file classifies glTF index references by the collection they point to, and extension names
+// as known or unknown, for semantic highlighting.  The protocol version used here predates
+// semantic tokens, so the client requests them as 'gltf/semanticTokens'.
+
+export interface SemanticTokensParams {
+    textDocument: { uri: string };
+}
+
+export interface GltfSemanticToken {
+    line: number;
+    character: number;
+    length: number;
+    tokenType: string;
+    tokenModifiers: string[];
+}
+
+/**
+ * Token types for references into each collection.  These must match the legend
+ * registered by the client, and the `semanticTokenTypes` declared in `package.json`.
+ */
+const collectionTokenTypes = {
+    '/accessors': 'gltfAccessor',
+    '/buffers': 'gltfBuffer',
+    '/bufferViews': 'gltfBufferView',
+    '/cameras': 'gltfCamera',
+    '/images': 'gltfImage',
+    '/materials': 'gltfMaterial',
+    '/meshes': 'gltfMesh',
+    '/nodes': 'gltfNode',
+    '/samplers': 'gltfSampler',
+    '/scenes': 'gltfScene',
+    '/skins': 'gltfSkin',
+    '/textures': 'gltfTexture',
+    '/extensions/KHR_lights_punctual/lights': 'gltfLight'
+};
+
+const otherReferenceTokenType = 'gltfReference';
+const animationSamplerTokenType = 'gltfAnimationSampler';
+const extensionTokenType = 'gltfExtension';
+
+let knownExtensionNames: Set<string>;
+
+/**
+ * Read the names of the extensions that have schemas in this package, from `util/extensionMap2.0.json`.
+ */
+function getKnownExtensionNames(): Set<string> {
+    if (!knownExtensionNames) {
+        let names = new Set<string>();
+        try {
+            const extensionMap = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'util', 'extensionMap2.0.json'), 'utf-8'));
+            for (let objectType of Object.keys(extensionMap)) {
+                Object.keys(extensionMap[objectType].extensions || {}).forEach(name => names.add(name));
+            }
+        } catch (ex) {
+            console.warn('Error reading the extension map: ' + ex);
+        }
+        knownExtensionNames = names;
+    }
+    return knownExtensionNames;
+}
+
+function getReferenceTokenType(collection: string): string {
+    if (collectionTokenTypes.hasOwnProperty(collection)) {
+        return collectionTokenTypes[collection];
+    }
+    return /^\/animations\/[^/]+\/samplers$/.test(collection) ? animationSamplerTokenType : otherReferenceTokenType;
+}
+
+/**
+ * Classify the index references and extension names of a glTF document.
+ *
+ * @param document The glTF document
+ * @param map The JSON map of the document
+ * @return The semantic tokens, in document order
+ */
+export function getSemanticTokens(document: TextDocument, map: JsonMap): GltfSemanticToken[] {
+    let tokens: GltfSemanticToken[] = [];
+    const addToken = (start: number, end: number, tokenType: string, tokenModifiers: string[]) => {
+        const position = document.positionAt(start);
+        tokens.push({ line: position.line, character: position.character, length: end - start, tokenType, tokenModifiers });
+    };
+
+    forEachReference(map.data, (referencePath, target) => {
+        const pointer = map.pointers[referencePath];
+        if (!pointer) {
+            return;
+        }
+        const collection = target.substring(0, target.lastIndexOf('/'));
+        const dangling = getFromPath(map.data, target) === undefined;
+        addToken(pointer.value.pos, pointer.valueEnd.pos, getReferenceTokenType(collection), dangling ? ['invalid'] : []);
+    });
+
+    const knownNames = getKnownExtensionNames();
+    const extensionModifiers = (name: string) => [knownNames.has(name) ? 'known' : 'unknown'];
+    for (let pointerPath of Object.keys(map.pointers)) {
+        const pathSplit = pointerPath.split('/');
+        const numPathSegments = pathSplit.length;
+        if (numPathSegments < 2 || pathSplit.indexOf('extras') >= 0) {
+            continue;
+        }
+        const pointer = map.pointers[pointerPath];
+        const parentKey = pathSplit[numPathSegments - 2];
+        if (parentKey === 'extensions' && pointer.key) {
+            const name = pointerPath.substring(pointerPath.lastIndexOf('/') + 1).replace(/~1/g, '/').replace(/~0/g, '~');
+            addToken(pointer.key.pos + 1, pointer.keyEnd.pos - 1, extensionTokenType, extensionModifiers(name));
+        } else if (numPathSegments === 3 && (parentKey === 'extensionsUsed' || parentKey === 'extensionsRequired')) {
+            const name = getFromPath(map.data, pointerPath);
+            if (typeof name === 'string') {
+                addToken(pointer.value.pos + 1, pointer.valueEnd.pos - 1, extensionTokenType, extensionModifiers(name));
+            }
+        }
+    }
+
+    return tokens.sort((a, b) => (a.line - b.line) || (a.character - b.character));
+}
@@ -0,0 +1,222 @@
+import { TextDocument, DocumentSymbol, SymbolInformation, SymbolKind, Range, Location } from 'vscode-languageserver';
+import { JsonMap, getObjectLabel, summarizeObject, escapePointerSegment } from './gltfReferences';
+
+// This file lists the named objects of a glTF document, for the editor's Outline,
+// breadcrumbs, Go To Symbol, and workspace-wide symbol search.
+
+/**
+ * Top-level properties that hold a single object, rather than a collection of glTF objects.
+ */
+const nonCollectionKeys = ['asset', 'extensions', 'extras'];
+
+const collectionSymbolKinds = {
+    '/accessors': SymbolKind.Array,
+    '/animations': SymbolKind.Event,
+    '/buffers': SymbolKind.File,
+    '/bufferViews': SymbolKind.Field,
+    '/cameras': SymbolKind.Module,
+    '/images': SymbolKind.File,
+    '/materials': SymbolKind.Constant,
+    '/meshes': SymbolKind.Struct,
+    '/nodes': SymbolKind.Object,
+    '/samplers': SymbolKind.TypeParameter,
+    '/scenes': SymbolKind.Namespace,
+    '/skins': SymbolKind.Class,
+    '/textures': SymbolKind.Property,
+    '/programs': SymbolKind.Function,
+    '/shaders': SymbolKind.File,
+    '/techniques': SymbolKind.Method
+};
+
+/**
+ * Arrays within glTF objects whose entries deserve their own symbols.
+ */
+const nestedSymbolCollections = {
+    '/meshes': ['primitives'],
+    '/animations': ['channels', 'samplers']
+};
+
+export interface GltfObjectEntry {
+    collection: string;
+    id: string;
+    target: any;
+}
+
+function isObject(value: any): boolean {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Visit every collection of glTF objects, including the top-level arrays (glTF 2.0)
+ * or dictionaries (glTF 1.0), and the arrays held by extensions at the document root.
+ *
+ * @param glTF The glTF root object
+ * @param callback Called with the JSON pointer of each collection, and the collection itself
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function forEachCollection(glTF: any, callback: (collection: string, value: any) => void): void {
+    if (!isObject(glTF)) {
+        return;
+    }
+    for (let key of Object.keys(glTF)) {
+        const value = glTF[key];
+        if (nonCollectionKeys.indexOf(key) < 0 && (Array.isArray(value) || isObject(value))) {
+            if (Object.keys(value).some(id => isObject(value[id]))) {
+                callback('/' + escapePointerSegment(key), value);
+            }
+        }
+    }
+    if (isObject(glTF.extensions)) {
+        for (let extensionName of Object.keys(glTF.extensions)) {
+            const extension = glTF.extensions[extensionName];
+            if (!isObject(extension)) {
+                continue;
+            }
+            for (let key of Object.keys(extension)) {
+                if (Array.isArray(extension[key]) && extension[key].some(isObject)) {
+                    callback('/extensions/' + escapePointerSegment(extensionName) + '/' + escapePointerSegment(key), extension[key]);
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Visit every object in every collection of a glTF document.
+ *
+ * @param glTF The glTF root object
+ * @param callback Called with each object, its collection, and its index or ID
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function forEachGltfObject(glTF: any, callback: (entry: GltfObjectEntry) => void): void {
+    forEachCollection(glTF, (collection, value) => {
+        for (let id of Object.keys(value)) {
+            if (isObject(value[id])) {
+                callback({ collection: collection, id: id, target: value[id] });
+            }
+        }
+    });
+}
+
+function getSymbolKind(collection: string): SymbolKind {
+    return collectionSymbolKinds[collection] || SymbolKind.Object;
+}
+
+function getRange(document: TextDocument, map: JsonMap, path: string): Range {
+    const pointer = map.pointers[path];
+    return Range.create(document.positionAt(pointer.value.pos), document.positionAt(pointer.valueEnd.pos));
+}
+
+/**
+ * Determine the part of an object's range to highlight when its symbol is chosen: the name if any,
+ * otherwise the opening of the object.
+ */
+function getSelectionRange(document: TextDocument, map: JsonMap, path: string): Range {
+    if (map.pointers[path + '/name']) {
+        return getRange(document, map, path + '/name');
+    }
+    const start = document.positionAt(map.pointers[path].value.pos);
+    return Range.create(start, start);
+}
+
+function createObjectSymbol(document: TextDocument, map: JsonMap, entry: GltfObjectEntry): DocumentSymbol {
+    const path = entry.collection + '/' + escapePointerSegment(entry.id);
+    let children: DocumentSymbol[] = [];
+    for (let key of (nestedSymbolCollections[entry.collection] || [])) {
+        const list = entry.target[key];
+        if (!Array.isArray(list)) {
+            continue;
+        }
+        list.forEach((item, index) => {
+            const itemPath = path + '/' + key + '/' + index;
+            if (isObject(item) && map.pointers[itemPath]) {
+                children.push(DocumentSymbol.create(getObjectLabel('/' + key, index, item), undefined, SymbolKind.Object,
+                    getRange(document, map, itemPath), getSelectionRange(document, map, itemPath)));
+            }
+        });
+    }
+
+    return DocumentSymbol.create(getObjectLabel(entry.collection, entry.id, entry.target),
+        summarizeObject(map.data, entry.collection, entry.target) || undefined, getSymbolKind(entry.collection),
+        getRange(document, map, path), getSelectionRange(document, map, path), children);
+}
+
+/**
+ * Compose the symbols of a glTF document: one per collection, each containing
+ * one symbol per object, such as `Node 12 'LeftHand'`.
+ *
+ * @param document The glTF document
+ * @param map The JSON map of the document
+ * @return The document symbols
+ */
+export function getDocumentSymbols(document: TextDocument, map: JsonMap): DocumentSymbol[] {
+    let symbols: DocumentSymbol[] = [];
+    forEachCollection(map.data, (collection, value) => {
+        const pointer = map.pointers[collection];
+        if (!pointer) {
+            return;
+        }
+        let children: DocumentSymbol[] = [];
+        for (let id of Object.keys(value)) {
+            if (isObject(value[id]) && map.pointers[collection + '/' + escapePointerSegment(id)]) {
+                children.push(createObjectSymbol(document, map, { collection: collection, id: id, target: value[id] }));
+            }
+        }
+        // The range of a collection includes its key, so that the key can be its selection range.
+        const name = collection.substring(collection.lastIndexOf('/') + 1);
+        const start = document.positionAt(pointer.key.pos);
+        const range = Range.create(start, document.positionAt(pointer.valueEnd.pos));
+        const selectionRange = Range.create(start, document.positionAt(pointer.keyEnd.pos));
+        symbols.push(DocumentSymbol.create(name, children.length.toFixed(), Array.isArray(value) ? SymbolKind.Array : SymbolKind.Object,
+            range, selectionRange, children));
+    });
+    return symbols;
+}
+
+/**
+ * List the objects of a glTF document as flat symbols, for workspace-wide search.
+ *
+ * @param document The glTF document, which need not be open in the editor
+ * @param map The JSON map of the document
+ * @return The symbols, each labeled like `Material 3 'Glass'`
+ */
+export function getWorkspaceSymbols(document: TextDocument, map: JsonMap): SymbolInformation[] {
+    const uri = document.uri;
+    let symbols: SymbolInformation[] = [];
+    forEachGltfObject(map.data, entry => {
+        const path = entry.collection + '/' + escapePointerSegment(entry.id);
+        if (map.pointers[path]) {
+            symbols.push({
+                name: getObjectLabel(entry.collection, entry.id, entry.target),
+                kind: getSymbolKind(entry.collection),
+                location: Location.create(uri, getRange(document, map, path)),
+                containerName: uri.substring(uri.lastIndexOf('/') + 1)
+            });
+        }
+    });
+    return symbols;
+}
+
+/**
+ * Determine whether a symbol name matches a workspace symbol query.  As in the editor's
+ * own filtering, the characters of the query must appear in order, ignoring case.
+ *
+ * @param name The symbol name
+ * @param query The text typed by the user
+ * @return True if the symbol should be listed
+ */
+export function matchesSymbolQuery(name: string, query: string): boolean {
+    const lowerName = name.toLowerCase();
+    let position = 0;
+    for (let character of query.toLowerCase()) {
+        if (character === ' ') {
+            continue;
+        }
+        position = lowerName.indexOf(character, position);
+        if (position < 0) {
+            return false;
+        }
+        ++position;
+    }
+    return true;
+}
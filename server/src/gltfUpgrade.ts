@@ -0,0 +1,497 @@
+import { identityMatrix, multiplyMatrices, decomposeMatrix, getNodeMatrix, Quat } from './gltfMath';
+import { sRGBToLinearComponent } from './gltfColorSpace';
+import { componentTypeByteSizes, accessorTypeComponentCounts } from './gltfBuffers';
+
+// This file converts a glTF 1.0 document to glTF 2.0.  Only the JSON is converted: the binary data
+// is left as-is, so anything that would need its data rewritten is reported as a warning instead.
+
+export interface UpgradeResult {
+    glTF: any;
+    warnings: string[];
+}
+
+/**
+ * The glTF 1.0 collections that become arrays in glTF 2.0.  Techniques, programs and shaders have no
+ * glTF 2.0 counterpart, and are replaced by PBR metallic-roughness materials.
+ */
+const upgradedCollections = [
+    'accessors', 'animations', 'buffers', 'bufferViews', 'cameras', 'images',
+    'materials', 'meshes', 'nodes', 'samplers', 'scenes', 'skins', 'textures'
+];
+
+/**
+ * Extensions that are converted into core glTF 2.0 properties, and so are no longer used.
+ */
+const upgradedExtensions = ['KHR_binary_glTF', 'KHR_materials_common'];
+
+const GL_BLEND = 3042;
+const GL_CULL_FACE = 2884;
+
+/**
+ * Attribute semantics that were renamed in glTF 2.0, or that gained a set index.
+ */
+const attributeSemantics = {
+    JOINT: 'JOINTS',
+    WEIGHT: 'WEIGHTS',
+    TEXCOORD: 'TEXCOORD',
+    COLOR: 'COLOR'
+};
+
+function upgradeAttributeSemantic(semantic: string): string {
+    const match = /^([A-Z]+)(_\d+)?$/.exec(semantic);
+    if (match && attributeSemantics.hasOwnProperty(match[1])) {
+        return attributeSemantics[match[1]] + (match[2] || '_0');
+    }
+    if (semantic === 'POSITION' || semantic === 'NORMAL' || semantic === 'TANGENT' || semantic.startsWith('_')) {
+        return semantic;
+    }
+    // glTF 2.0 requires application-specific semantics to start with an underscore.
+    return '_' + semantic;
+}
+
+function isIdentityMatrix(matrix: number[]): boolean {
+    return matrix.every((value, index) => value === identityMatrix[index]);
+}
+
+/**
+ * Convert a rotation given as an axis and an angle in radians, as used before glTF 1.0, to a quaternion.
+ */
+function axisAngleToQuaternion(axisAngle: number[]): Quat {
+    const length = Math.hypot(axisAngle[0], axisAngle[1], axisAngle[2]) || 1;
+    const s = Math.sin(axisAngle[3] / 2) / length;
+    return [axisAngle[0] * s, axisAngle[1] * s, axisAngle[2] * s, Math.cos(axisAngle[3] / 2)];
+}
+
+/**
+ * Convert a Blinn-Phong specular exponent to an approximately equivalent roughness.
+ */
+function shininessToRoughness(shininess: number): number {
+    return Math.min(Math.max(Math.sqrt(2 / (shininess + 2)), 0), 1);
+}
+
+function copyDefined(source: any, target: any, keys: string[]): void {
+    for (let key of keys) {
+        if (source[key] !== undefined) {
+            target[key] = source[key];
+        }
+    }
+}
+
+/**
+ * Convert a glTF 1.0 document to glTF 2.0.
+ *
+ * @param glTF1 The glTF 1.0 root object
+ * @return The glTF 2.0 root object, and warnings about anything that could not be converted
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function upgradeGltf1(glTF1: any): UpgradeResult {
+    let warnings: string[] = [];
+    const warn = (message: string) => {
+        if (warnings.indexOf(message) < 0) {
+            warnings.push(message);
+        }
+    };
+
+    // Number the objects of each collection in the order they appear.
+    let indices: { [collection: string]: Map<string, number> } = {};
+    for (let collection of upgradedCollections) {
+        indices[collection] = new Map<string, number>();
+        Object.keys(glTF1[collection] || {}).forEach((id, index) => indices[collection].set(id, index));
+    }
+    const ref = (collection: string, id: string): number | undefined => {
+        if (id === undefined) {
+            return undefined;
+        }
+        const index = indices[collection].get(id);
+        if (index === undefined) {
+            warn(`Unresolved reference to ${collection} '${id}' was removed.`);
+        }
+        return index;
+    };
+    const entries = (collection: any): [string, any][] => Object.keys(collection || {}).map(id => [id, collection[id]] as [string, any]);
+
+    // Start each object with its name, extensions and extras.  glTF 1.0 IDs become names where there is no name.
+    const begin = (id: string, object: any): any => {
+        let result: any = { name: (object.name !== undefined) ? object.name : id };
+        if (object.extensions) {
+            let extensions: any = {};
+            for (let name of Object.keys(object.extensions)) {
+                if (upgradedExtensions.indexOf(name) < 0) {
+                    extensions[name] = object.extensions[name];
+                }
+            }
+            if (Object.keys(extensions).length > 0) {
+                result.extensions = extensions;
+            }
+        }
+        copyDefined(object, result, ['extras']);
+        return result;
+    };
+
+    const isPreRelease = glTF1.asset && typeof glTF1.asset.version === 'string' && glTF1.asset.version[0] === '0';
+
+    let glTF: any = { asset: { version: '2.0' } };
+    copyDefined(glTF1.asset || {}, glTF.asset, ['copyright', 'generator', 'extensions', 'extras']);
+    let extensionsUsed: string[] = (glTF1.extensionsUsed || []).filter((name: string) => upgradedExtensions.indexOf(name) < 0);
+    if (glTF1.extensions && glTF1.extensions.KHR_materials_common && glTF1.extensions.KHR_materials_common.lights) {
+        warn('KHR_materials_common lights were removed.');
+    }
+
+    // Buffers, bufferViews and accessors.  Strides move from accessors to bufferViews further below.
+    glTF.buffers = entries(glTF1.buffers).map(([id, buffer1]) => {
+        let buffer = begin(id, buffer1);
+        copyDefined(buffer1, buffer, ['byteLength', 'uri']);
+        if (buffer1.type === 'text') {
+            warn(`Buffer '${id}' has type 'text', which glTF 2.0 does not support.`);
+        }
+        if (buffer1.uri === undefined) {
+            warn(`Buffer '${id}' has no uri.  In glTF 2.0 only the first buffer of a GLB file may omit its uri.`);
+        }
+        return buffer;
+    });
+    glTF.bufferViews = entries(glTF1.bufferViews).map(([id, bufferView1]) => {
+        let bufferView = begin(id, bufferView1);
+        bufferView.buffer = ref('buffers', bufferView1.buffer);
+        copyDefined(bufferView1, bufferView, ['byteOffset', 'byteLength', 'target']);
+        return bufferView;
+    });
+    let accessorStrides: number[] = [];
+    glTF.accessors = entries(glTF1.accessors).map(([id, accessor1]) => {
+        let accessor = begin(id, accessor1);
+        accessor.bufferView = ref('bufferViews', accessor1.bufferView);
+        copyDefined(accessor1, accessor, ['byteOffset', 'componentType', 'normalized', 'count', 'type', 'max', 'min']);
+        accessorStrides.push(accessor1.byteStride || 0);
+        return accessor;
+    });
+
+    // Images, samplers and textures.  Images embedded with KHR_binary_glTF refer to bufferViews.
+    glTF.images = entries(glTF1.images).map(([id, image1]) => {
+        let image = begin(id, image1);
+        const binary = image1.extensions && image1.extensions.KHR_binary_glTF;
+        if (binary) {
+            image.bufferView = ref('bufferViews', binary.bufferView);
+            image.mimeType = binary.mimeType;
+        } else {
+            image.uri = image1.uri;
+        }
+        return image;
+    });
+    glTF.samplers = entries(glTF1.samplers).map(([id, sampler1]) => {
+        let sampler = begin(id, sampler1);
+        copyDefined(sampler1, sampler, ['magFilter', 'minFilter', 'wrapS', 'wrapT']);
+        return sampler;
+    });
+    glTF.textures = entries(glTF1.textures).map(([id, texture1]) => {
+        let texture = begin(id, texture1);
+        texture.sampler = ref('samplers', texture1.sampler);
+        texture.source = ref('images', texture1.source);
+        return texture;
+    });
+
+    // Materials.  Colors of glTF 1.0 materials were used as sRGB values, while glTF 2.0 color factors are linear.
+    glTF.materials = entries(glTF1.materials).map(([id, material1]) => {
+        let material = begin(id, material1);
+        let values: any = {};
+        let lightingTechnique: string;
+        let doubleSided = false;
+        let blend = false;
+
+        const common = material1.extensions && material1.extensions.KHR_materials_common;
+        if (common) {
+            values = common.values || {};
+            lightingTechnique = common.technique;
+            doubleSided = !!common.doubleSided;
+            blend = !!common.transparent;
+        } else {
+            const technique = glTF1.techniques && glTF1.techniques[material1.technique];
+            if (technique) {
+                for (let [name, parameter] of entries(technique.parameters)) {
+                    if (parameter && parameter.value !== undefined && !parameter.semantic) {
+                        values[name] = parameter.value;
+                    }
+                }
+                const enabledStates: number[] = (technique.states && technique.states.enable) || [];
+                doubleSided = enabledStates.indexOf(GL_CULL_FACE) < 0;
+                blend = enabledStates.indexOf(GL_BLEND) >= 0;
+            }
+            Object.assign(values, material1.values || {});
+        }
+
+        // Find the values that a basic technique uses, by their usual names.
+        let diffuse: any;
+        let emission: any;
+        let shininess: number;
+        let transparency = 1;
+        for (let name of Object.keys(values)) {
+            const key = name.toLowerCase().replace(/^u_/, '');
+            const value = Array.isArray(values[name]) && values[name].length === 1 ? values[name][0] : values[name];
+            if (key.indexOf('diffuse') >= 0) {
+                diffuse = value;
+            } else if (key.indexOf('emission') >= 0 || key.indexOf('emissive') >= 0) {
+                emission = value;
+            } else if (key === 'shininess' && typeof value === 'number') {
+                shininess = value;
+            } else if (key === 'transparency' && typeof value === 'number') {
+                transparency = value;
+            }
+        }
+        if (lightingTechnique === 'CONSTANT' && diffuse === undefined) {
+            // Constant materials show their emission color.
+            diffuse = emission;
+            emission = undefined;
+        }
+
+        let pbr: any = {};
+        if (typeof diffuse === 'string') {
+            pbr.baseColorTexture = { index: ref('textures', diffuse) };
+        } else if (Array.isArray(diffuse) && diffuse.length >= 3) {
+            pbr.baseColorFactor = [
+                sRGBToLinearComponent(diffuse[0]), sRGBToLinearComponent(diffuse[1]), sRGBToLinearComponent(diffuse[2]),
+                (diffuse.length > 3 ? diffuse[3] : 1) * transparency
+            ];
+        } else {
+            warn(`Material '${id}' has no recognizable diffuse color, so default values were used.`);
+        }
+        if (transparency < 1 && pbr.baseColorFactor === undefined) {
+            pbr.baseColorFactor = [1, 1, 1, transparency];
+        }
+        pbr.metallicFactor = 0;
+        pbr.roughnessFactor = (shininess !== undefined) ? shininessToRoughness(shininess) : 1;
+        material.pbrMetallicRoughness = pbr;
+
+        if (typeof emission === 'string') {
+            material.emissiveTexture = { index: ref('textures', emission) };
+            material.emissiveFactor = [1, 1, 1];
+        } else if (Array.isArray(emission) && emission.length >= 3 && emission.slice(0, 3).some(c => c > 0)) {
+            material.emissiveFactor = [sRGBToLinearComponent(emission[0]), sRGBToLinearComponent(emission[1]), sRGBToLinearComponent(emission[2])];
+        }
+        if (blend || transparency < 1 || (pbr.baseColorFactor && pbr.baseColorFactor[3] < 1)) {
+            material.alphaMode = 'BLEND';
+        }
+        if (doubleSided) {
+            material.doubleSided = true;
+        }
+        if (lightingTechnique === 'CONSTANT') {
+            material.extensions = Object.assign(material.extensions || {}, { KHR_materials_unlit: {} });
+            if (extensionsUsed.indexOf('KHR_materials_unlit') < 0) {
+                extensionsUsed.push('KHR_materials_unlit');
+            }
+        }
+        return material;
+    });
+
+    // Meshes.  Accessors used as vertex attributes are noted, because glTF 2.0 restricts how they share bufferViews.
+    let attributeAccessors = new Set<number>();
+    glTF.meshes = entries(glTF1.meshes).map(([id, mesh1]) => {
+        let mesh = begin(id, mesh1);
+        mesh.primitives = (mesh1.primitives || []).map((primitive1: any) => {
+            let primitive: any = { attributes: {} };
+            for (let [semantic, accessorId] of entries(primitive1.attributes)) {
+                const accessor = ref('accessors', accessorId);
+                primitive.attributes[upgradeAttributeSemantic(semantic)] = accessor;
+                attributeAccessors.add(accessor);
+            }
+            primitive.indices = ref('accessors', primitive1.indices);
+            primitive.material = ref('materials', primitive1.material);
+            copyDefined(primitive1, primitive, ['mode', 'extras']);
+            return primitive;
+        });
+        return mesh;
+    });
+
+    // Cameras keep their projections.
+    glTF.cameras = entries(glTF1.cameras).map(([id, camera1]) => {
+        let camera = begin(id, camera1);
+        copyDefined(camera1, camera, ['type', 'perspective', 'orthographic']);
+        return camera;
+    });
+
+    // Nodes.  glTF 2.0 nodes have at most one mesh, and animated nodes must not have a matrix.
+    let animatedNodes = new Set<string>();
+    for (let [, animation1] of entries(glTF1.animations)) {
+        for (let channel of (animation1.channels || [])) {
+            if (channel && channel.target) {
+                animatedNodes.add(channel.target.id);
+            }
+        }
+    }
+    let jointNodes = new Map<string, number>();
+    let skinSkeletons = new Map<string, string>();
+    let extraNodes: any[] = [];
+    glTF.nodes = entries(glTF1.nodes).map(([id, node1]) => {
+        let node = begin(id, node1);
+        node.camera = ref('cameras', node1.camera);
+        node.skin = ref('skins', node1.skin);
+        if (node1.jointName !== undefined) {
+            jointNodes.set(node1.jointName, indices.nodes.get(id));
+        }
+        if (node1.skin !== undefined && node1.skeletons && node1.skeletons.length > 0) {
+            skinSkeletons.set(node1.skin, node1.skeletons[0]);
+        }
+
+        let rotation = node1.rotation;
+        if (rotation && isPreRelease) {
+            rotation = axisAngleToQuaternion(rotation);
+        }
+        const trs = { translation: node1.translation, rotation: rotation, scale: node1.scale };
+        if (!node1.matrix || isIdentityMatrix(node1.matrix)) {
+            copyDefined(trs, node, ['translation', 'rotation', 'scale']);
+        } else {
+            let matrix: number[] = node1.matrix;
+            if (trs.translation || trs.rotation || trs.scale) {
+                matrix = multiplyMatrices(matrix, getNodeMatrix(trs));
+            }
+            if (animatedNodes.has(id)) {
+                const transform = decomposeMatrix(matrix);
+                node.translation = transform.translation;
+                node.rotation = transform.rotation;
+                node.scale = transform.scale;
+            } else {
+                node.matrix = matrix;
+            }
+        }
+
+        let children: number[] = (node1.children || []).map((childId: string) => ref('nodes', childId));
+        const meshes: number[] = (node1.meshes || []).map((meshId: string) => ref('meshes', meshId)).filter((mesh: number) => mesh !== undefined);
+        if (meshes.length > 0) {
+            node.mesh = meshes[0];
+        }
+        for (let meshIndex = 1; meshIndex < meshes.length; ++meshIndex) {
+            children.push(indices.nodes.size + extraNodes.length);
+            extraNodes.push({ name: `${node.name} mesh ${meshIndex}`, mesh: meshes[meshIndex], skin: node.skin });
+        }
+        children = children.filter(child => child !== undefined);
+        if (children.length > 0) {
+            node.children = children;
+        }
+        return node;
+    }).concat(extraNodes);
+    if (isPreRelease && Object.keys(glTF1.animations || {}).length > 0) {
+        warn('Animated rotations are stored as axis and angle before glTF 1.0, and were not converted to quaternions.');
+    }
+
+    // Skins list their joints by node, rather than by joint name.
+    glTF.skins = entries(glTF1.skins).map(([id, skin1]) => {
+        let skin = begin(id, skin1);
+        skin.inverseBindMatrices = ref('accessors', skin1.inverseBindMatrices);
+        skin.joints = (skin1.jointNames || []).map((jointName: string) => {
+            if (!jointNodes.has(jointName)) {
+                warn(`Skin '${id}' has no node for joint '${jointName}'.`);
+            }
+            return jointNodes.get(jointName);
+        }).filter((joint: number) => joint !== undefined);
+        skin.skeleton = skinSkeletons.has(id) ? ref('nodes', skinSkeletons.get(id)) : undefined;
+        if (skin1.bindShapeMatrix && !isIdentityMatrix(skin1.bindShapeMatrix)) {
+            warn(`Skin '${id}' has a bindShapeMatrix, which glTF 2.0 does not support.  It must be applied to the mesh's vertices.`);
+        }
+        return skin;
+    });
+
+    // Animations.  glTF 1.0 samplers name animation parameters, which in turn name accessors.
+    glTF.animations = entries(glTF1.animations).map(([id, animation1]) => {
+        let animation = begin(id, animation1);
+        const parameters = animation1.parameters || {};
+        let samplerIndices = new Map<string, number>();
+        animation.samplers = entries(animation1.samplers).map(([samplerId, sampler1], index) => {
+            samplerIndices.set(samplerId, index);
+            let sampler: any = {
+                input: ref('accessors', parameters[sampler1.input]),
+                output: ref('accessors', parameters[sampler1.output])
+            };
+            copyDefined(sampler1, sampler, ['interpolation', 'extras']);
+            return sampler;
+        });
+        animation.channels = (animation1.channels || []).map((channel1: any) => {
+            let channel: any = {
+                sampler: samplerIndices.get(channel1.sampler),
+                target: { node: ref('nodes', channel1.target && channel1.target.id), path: channel1.target && channel1.target.path }
+            };
+            copyDefined(channel1, channel, ['extras']);
+            return channel;
+        });
+        return animation;
+    });
+
+    glTF.scenes = entries(glTF1.scenes).map(([id, scene1]) => {
+        let scene = begin(id, scene1);
+        scene.nodes = (scene1.nodes || []).map((nodeId: string) => ref('nodes', nodeId)).filter((node: number) => node !== undefined);
+        return scene;
+    });
+    glTF.scene = ref('scenes', glTF1.scene);
+
+    splitBufferViewsByStride(glTF, accessorStrides, attributeAccessors, warn);
+
+    if (extensionsUsed.length > 0) {
+        glTF.extensionsUsed = extensionsUsed;
+    }
+    copyDefined(glTF1, glTF, ['extras']);
+    return { glTF: removeEmptyCollections(glTF), warnings: warnings };
+}
+
+/**
+ * glTF 2.0 gives bufferViews, rather than accessors, a byteStride, and requires one where vertex attributes
+ * share a bufferView.  Give each bufferView used by vertex attributes the stride of its accessors, copying the
+ * bufferView for any accessors with a different stride, and for any other accessors that share it.
+ */
+function splitBufferViewsByStride(glTF: any, accessorStrides: number[], attributeAccessors: Set<number>, warn: (message: string) => void): void {
+    const numBufferViews = glTF.bufferViews.length;
+    for (let bufferViewIndex = 0; bufferViewIndex < numBufferViews; ++bufferViewIndex) {
+        let accessors: number[] = [];
+        glTF.accessors.forEach((accessor: any, accessorIndex: number) => {
+            if (accessor.bufferView === bufferViewIndex) {
+                accessors.push(accessorIndex);
+            }
+        });
+        const attributes = accessors.filter(accessorIndex => attributeAccessors.has(accessorIndex));
+        if (attributes.length === 0) {
+            continue;
+        }
+
+        let strideGroups = new Map<number, number[]>();
+        for (let accessorIndex of attributes) {
+            const accessor = glTF.accessors[accessorIndex];
+            const elementSize = (componentTypeByteSizes[accessor.componentType] || 0) * (accessorTypeComponentCounts[accessor.type] || 0);
+            const stride = accessorStrides[accessorIndex] || elementSize;
+            if (!strideGroups.has(stride)) {
+                strideGroups.set(stride, []);
+            }
+            strideGroups.get(stride).push(accessorIndex);
+        }
+        if (accessors.length === 1 && accessorStrides[accessors[0]] === 0) {
+            continue;
+        }
+
+        let targetBufferView = bufferViewIndex;
+        strideGroups.forEach((group, stride) => {
+            if (targetBufferView === undefined) {
+                targetBufferView = glTF.bufferViews.push(Object.assign({}, glTF.bufferViews[bufferViewIndex])) - 1;
+            }
+            glTF.bufferViews[targetBufferView].byteStride = stride;
+            group.forEach(accessorIndex => glTF.accessors[accessorIndex].bufferView = targetBufferView);
+            if (stride % 4 !== 0) {
+                warn(`A vertex attribute has a byteStride of ${stride}, but glTF 2.0 requires a multiple of 4.`);
+            }
+            targetBufferView = undefined;
+        });
+
+        const others = accessors.filter(accessorIndex => !attributeAccessors.has(accessorIndex));
+        if (others.length > 0) {
+            let copy = Object.assign({}, glTF.bufferViews[bufferViewIndex]);
+            delete copy.byteStride;
+            const copyIndex = glTF.bufferViews.push(copy) - 1;
+            others.forEach(accessorIndex => glTF.accessors[accessorIndex].bufferView = copyIndex);
+        }
+    }
+}
+
+/**
+ * Remove the properties left undefined by references that could not be resolved, and the collections left empty.
+ */
+function removeEmptyCollections(glTF: any): any {
+    return JSON.parse(JSON.stringify(glTF, (key, value) => {
+        if (Array.isArray(value) && value.length === 0 && upgradedCollections.indexOf(key) >= 0) {
+            return undefined;
+        }
+        return value;
+    }));
+}
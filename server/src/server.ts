@@ -1,7 +1,11 @@
 import {
     IPCMessageReader, IPCMessageWriter, createConnection, IConnection, TextDocuments, TextDocument,
     Diagnostic, DiagnosticSeverity, InitializeResult, Position, Range, TextDocumentPositionParams,
-    Hover, MarkupContent, MarkupKind, Location
+    Hover, MarkupContent, MarkupKind, Location, CompletionItem, CompletionItemKind, CompletionParams, TextEdit, ReferenceParams,
+    CodeAction, CodeActionKind, CodeActionParams, Command, ExecuteCommandParams, InitializeParams,
+    DocumentSymbol, DocumentSymbolParams, SymbolInformation, WorkspaceSymbolParams, DidChangeWatchedFilesParams, FileChangeType,
+    ColorInformation, ColorPresentation, DocumentColorParams, ColorPresentationParams, DocumentLink, DocumentLinkParams,
+    CodeLens, CodeLensParams, FoldingRange, FoldingRangeParams
 } from 'vscode-languageserver';
 import { URI } from 'vscode-uri';
 import * as Url from 'url';
@@ -9,6 +13,24 @@ import * as path from 'path';
 import * as fs from 'fs';
 import * as jsonMap from 'json-source-map';
 import * as gltfValidator from 'gltf-validator';
+import {
+    JsonMap, getFromPath, getPathAtOffset, getReferencedCollection, getReferencedObject, getReferenceTarget, forEachReference, describeObject
+} from './gltfReferences';
+import { DeleteObjectsParams, RemoveObjectsResult, getTopLevelEntry, getTopLevelEntryLabel, getDeleteObjectEdits, getDeleteObjectsEdits, getMoveObjectEdits } from './gltfRefactor';
+import { getDocumentSymbols, getWorkspaceSymbols, matchesSymbolQuery } from './gltfSymbols';
+import { InlayHintSettings, InlayHintParams, GltfInlayHint, getInlayHints } from './gltfInlayHints';
+import { getReferenceHover } from './gltfHover';
+import { clearBufferCache } from './gltfBuffers';
+import { colorFactorNames, linearToSRGB, getDocumentColors, getColorPresentations } from './gltfColors';
+import { getDocumentLinks, getMissingFileDiagnostics } from './gltfLinks';
+import { SemanticTokensParams, GltfSemanticToken, getSemanticTokens } from './gltfSemanticTokens';
+import { getCodeLenses } from './gltfCodeLens';
+import { getReferenceDiagnostics, getTangentSpaceDiagnostics } from './gltfChecker';
+import { UpgradeResult, upgradeGltf1 } from './gltfUpgrade';
+import { SelectionRangeParams, AutoFoldParams, getFoldingRanges, getAutoFoldLines, getSelectionRanges } from './gltfFolding';
+import { NodeTransformParams, NodeTransform, getNodeTransform } from './gltfMath';
+import { PruneParams, PruneResult, MergeObjectsParams, ExtractNodeParams, getUnusedObjects, getMergedObjects, describeRemovedObjects, extractNodeSubtree } from './gltfPrune';
+import { MergeGltfParams, MergeGltfResult, mergeGltf } from './gltfMerge';
 
 // Create a connection for the server. The connection uses Node's IPC as a transport
 let connection: IConnection = createConnection(new IPCMessageReader(process), new IPCMessageWriter(process));
@@ -21,11 +43,6 @@ let documents: TextDocuments = new TextDocuments();
 // for open, change and close text document events
 documents.listen(connection);
 
-interface JsonMap {
-    data: any;
-    pointers: any;
-}
-
 interface ParseResult {
     jsonMap: JsonMap;
     parseable: boolean;
@@ -34,6 +51,10 @@ interface ParseResult {
 let documentsToHandle: Map<TextDocument, ParseResult> = new Map<TextDocument, ParseResult>();
 let debounceTimer: NodeJS.Timer;
 
+let workspaceFolderPaths: string[] = [];
+let workspaceGltfFiles: Promise<Set<string>>;
+let workspaceSymbolCache: Map<string, SymbolInformation[]> = new Map<string, SymbolInformation[]>();
+
 /**
  * Attempt to parse a JSON document into a map of JSON pointers.
  * Catch and report any parsing errors encountered.
@@ -64,7 +85,13 @@ function isLocalGltf(textDocument: TextDocument): boolean {
 
 // After the server has started the client sends an initialize request. The server receives
 // in the passed params the rootPath of the workspace plus the client capabilities.
-connection.onInitialize((): InitializeResult => {
+connection.onInitialize((params: InitializeParams): InitializeResult => {
+    if (params.workspaceFolders) {
+        workspaceFolderPaths = params.workspaceFolders.map(folder => URI.parse(folder.uri).fsPath);
+    } else if (params.rootUri) {
+        workspaceFolderPaths = [URI.parse(params.rootUri).fsPath];
+    }
+
     return {
         capabilities: {
             // Tell the client that the server works in FULL text document sync mode
@@ -73,6 +100,32 @@ connection.onInitialize((): InitializeResult => {
             hoverProvider: true,
             // Tell the client we provide definitions
             definitionProvider: true,
+            // Tell the client we provide references
+            referencesProvider: true,
+            // Tell the client we provide completions of glTF indices
+            completionProvider: {
+                triggerCharacters: [':', '[', ',']
+            },
+            // Tell the client we provide links to external files
+            documentLinkProvider: {
+                resolveProvider: false
+            },
+            // Tell the client we provide color swatches and a color picker for color factors
+            colorProvider: true,
+            // Tell the client we provide symbols for glTF objects, in each document and across the workspace
+            documentSymbolProvider: true,
+            workspaceSymbolProvider: true,
+            // Tell the client we provide reference counts and sizes above glTF objects
+            codeLensProvider: {
+                resolveProvider: false
+            },
+            // Tell the client we provide folding ranges for glTF objects and arrays
+            foldingRangeProvider: true,
+            // Tell the client we provide refactorings of glTF objects
+            codeActionProvider: true,
+            executeCommandProvider: {
+                commands: ['gltf.server.deleteObject', 'gltf.server.moveObject', 'gltf.server.upgradeTo2']
+            },
         }
     };
 });
@@ -80,6 +133,7 @@ connection.onInitialize((): InitializeResult => {
 // The settings interface describe the server relevant settings part
 interface GltfSettings {
     Validation: ValidatorSettings;
+    InlayHints: InlayHintSettings;
 }
 
 interface ValidatorSettings {
@@ -97,31 +151,22 @@ let currentSettings: GltfSettings;
 //
 connection.onDidChangeConfiguration((change) => {
     currentSettings = <GltfSettings>change.settings.glTF;
-    if (currentSettings.Validation.enable) {
-        // Schedule revalidation of all open text documents using the new settings.
-        documents.all().forEach(scheduleParsing);
-    } else {
-        if (debounceTimer) {
-            clearTimeout(debounceTimer);
-            debounceTimer = undefined;
-        }
-        documents.all().forEach(clearTextDocument);
-    }
+    // Schedule revalidation of all open text documents using the new settings.
+    // Language server checks run even when the glTF Validator is disabled.
+    documents.all().forEach(scheduleParsing);
 });
 
 // The content of a text document has changed. This event is emitted
 // when the text document first opened or when its content has changed.
 documents.onDidChangeContent(change => {
-    if (currentSettings.Validation.enable) {
-        scheduleParsing(change.document);
-    }
+    clearBufferCache(URI.parse(change.document.uri).fsPath);
+    scheduleParsing(change.document);
 });
 
 // Turn off validation of closed documents.
 documents.onDidClose(change => {
-    if (currentSettings.Validation.enable) {
-        unscheduleParsing(change.document);
-    }
+    clearBufferCache(URI.parse(change.document.uri).fsPath);
+    unscheduleParsing(change.document);
     // A text document was closed we clear the diagnostics
     connection.sendDiagnostics({ uri: change.document.uri, diagnostics: [] });
 });
@@ -157,22 +202,7 @@ function unscheduleParsing(textDocument: TextDocument): void {
 }
 
 /**
- * Clear any previous validation output messages from a particular document,
- * likely because glTF validation has been disabled.
- *
- * @param textDocument The document to clear
- */
-function clearTextDocument(textDocument: TextDocument): void {
-    unscheduleParsing(textDocument);
-    if (isLocalGltf(textDocument)) {
-        console.log('disable validation ' + textDocument.uri);
-        const diagnostics: Diagnostic[] = [];
-        connection.sendDiagnostics({ uri: textDocument.uri, diagnostics });
-    }
-}
-
-/**
- * Immediately launch the glTF Validator on a .gltf JSON document.
+ * Immediately check a .gltf JSON document, launching the glTF Validator if it is enabled.
  *
  * @param textDocument The document to validate
  */
@@ -199,6 +229,20 @@ function parseTextDocument(parseResult: ParseResult, textDocument: TextDocument)
             }
         }
     }
+    if (!parseResult.jsonMap) {
+        return;
+    }
+
+    const isIssueReported = (diagnostic: Diagnostic) => currentSettings.Validation.ignoredIssues.indexOf(diagnostic.code as string) < 0;
+    const languageServerDiagnostics = getTangentSpaceDiagnostics(textDocument, parseResult.jsonMap).filter(isIssueReported);
+
+    // When the glTF Validator does not run, check the references and external files here instead.
+    if (!currentSettings.Validation.enable) {
+        const referenceDiagnostics = getReferenceDiagnostics(textDocument, parseResult.jsonMap)
+            .concat(getMissingFileDiagnostics(textDocument, parseResult.jsonMap)).filter(isIssueReported);
+        connection.sendDiagnostics({ uri: textDocument.uri, diagnostics: languageServerDiagnostics.concat(referenceDiagnostics) });
+        return;
+    }
 
     if ((!parseResult.jsonMap.data.asset) || (!parseResult.jsonMap.data.asset.version) || (parseResult.jsonMap.data.asset.version[0] === '1')) {
         let diagnostics: Diagnostic[] = [getDiagnostic({
@@ -206,8 +250,9 @@ function parseTextDocument(parseResult: ParseResult, textDocument: TextDocument)
             isFromLanguageServer: true,
             severity: 2
         }, jsonMap)];
-        connection.sendDiagnostics({ uri: textDocument.uri, diagnostics });
-        parseResult.parseable = false;
+        const referenceDiagnostics = getReferenceDiagnostics(textDocument, parseResult.jsonMap)
+            .concat(getMissingFileDiagnostics(textDocument, parseResult.jsonMap)).filter(isIssueReported);
+        connection.sendDiagnostics({ uri: textDocument.uri, diagnostics: diagnostics.concat(languageServerDiagnostics, referenceDiagnostics) });
         return;
     }
 
@@ -231,7 +276,7 @@ function parseTextDocument(parseResult: ParseResult, textDocument: TextDocument)
             }
         ),
     }).then((result) => {
-        let diagnostics: Diagnostic[] = [];
+        let diagnostics: Diagnostic[] = languageServerDiagnostics.slice();
         if (result.issues && result.issues.messages) {
             const messages = result.issues.messages;
             const numMessages = messages.length;
@@ -264,7 +309,7 @@ function parseTextDocument(parseResult: ParseResult, textDocument: TextDocument)
         let diagnostics: Diagnostic[] = [getDiagnostic({
             message: 'glTF Validator error: ' + result,
             isFromLanguageServer: true
-        }, {data: null, pointers: null})];
+        }, {data: null, pointers: null})].concat(languageServerDiagnostics);
         connection.sendDiagnostics({ uri: textDocument.uri, diagnostics });
     });
 }
@@ -320,22 +365,6 @@ function getDiagnostic(info: any, map: JsonMap): Diagnostic {
     };
 }
 
-function positionContained(selection: Position, rangeStart: Position, rangeEnd: Position): boolean {
-    return ((rangeStart.line === selection.line && rangeStart.character <= selection.character) || rangeStart.line < selection.line) &&
-            ((rangeEnd.line === selection.line && rangeEnd.character >= selection.character) || rangeEnd.line > selection.line);
-}
-
-function getFromPath(glTF: any, path : string) {
-    const pathSplit = path.split('/');
-    const numPathSegments = pathSplit.length;
-    let result = glTF;
-    const firstValidIndex = 1; // Because the path has a leading slash.
-    for (let i = firstValidIndex; i < numPathSegments; ++i) {
-        result = result[pathSplit[i]];
-    }
-    return result;
-}
-
 interface PathData {
     path: string;
     start: Position;
@@ -354,24 +383,15 @@ function getPath(textDocumentPosition: TextDocumentPositionParams): PathData {
 
     let jsonMap = parseResult.jsonMap;
 
-    let lastPath: string;
-    let lastStartPos: Position;
-    let lastEndPos: Position;
-    for (let path of Object.keys(jsonMap.pointers)) {
-        let position = jsonMap.pointers[path];
-        let startPos = document.positionAt(position.value.pos);
-        let endPos = document.positionAt(position.valueEnd.pos);
-        if (positionContained(hoverPos, startPos, endPos)) {
-            lastPath = path;
-            lastStartPos = startPos;
-            lastEndPos = endPos;
-        }
-    }
-
+    let lastPath = getPathAtOffset(jsonMap, document.offsetAt(hoverPos));
     if (!lastPath) {
         return null;
     }
 
+    let position = jsonMap.pointers[lastPath];
+    let lastStartPos = document.positionAt(position.value.pos);
+    let lastEndPos = document.positionAt(position.valueEnd.pos);
+
     return { path: lastPath, start: lastStartPos, end: lastEndPos, jsonMap: jsonMap };
 }
 
@@ -408,34 +428,16 @@ connection.onDefinition((textDocumentPosition: TextDocumentPositionParams): Loca
     }
 
     const firstValidIndex = 1; // Because the path has a leading slash.
-    let inNodes = false;
-    let inChannels = false;
     let inAccessors = false;
     let inDraco = false;
     let currentPath = '';
-    let currentAnimationPath: string;
     for (let i = firstValidIndex; i < numPathSegments; ++i) {
         let part = pathSplit[i];
         currentPath += '/' + part;
         result = result[part];
         if (typeof result !== 'object')
         {
-            if (part === 'scene') {
-                return makeLocation(pathData.jsonMap.pointers['/scenes/' + result]);
-            }
-            else if (part === 'mesh') {
-                return makeLocation(pathData.jsonMap.pointers['/meshes/' + result]);
-            }
-            else if (part === 'skin') {
-                return makeLocation(pathData.jsonMap.pointers['/skins/' + result]);
-            }
-            else if (part === 'material') {
-                return makeLocation(pathData.jsonMap.pointers['/materials/' + result]);
-            }
-            else if (part === 'input' || part === 'output' || part === 'inverseBindMatrices') {
-                return makeLocation(pathData.jsonMap.pointers['/accessors/' + result]);
-            }
-            else if (part === 'indices') {
+            if (part === 'indices') {
                 let primitivePath = currentPath.substr(0, currentPath.length - '/indices'.length);
                 let primitive = getFromPath(pathData.jsonMap.data, primitivePath);
                 if (primitive && primitive.extensions && primitive.extensions['KHR_draco_mesh_compression']) {
@@ -443,49 +445,17 @@ connection.onDefinition((textDocumentPosition: TextDocumentPositionParams): Loca
                     let uri = makeDataUri(textDocumentPosition, indicesPath);
                     return makeLocation(undefined, uri);
                 }
-                return makeLocation(pathData.jsonMap.pointers['/accessors/' + result]);
             }
-            else if (part === 'POSITION' || part === 'NORMAL' || part === 'TANGENT'|| part === 'TEXCOORD_0' || part === 'TEXCOORD_1' || part === 'COLOR_0' || part === 'JOINTS_0' || part === 'WEIGHTS_0') {
-                if (inDraco) {
-                    let uri = makeDataUri(textDocumentPosition, currentPath);
-                    return makeLocation(undefined, uri);
-                }
-                return makeLocation(pathData.jsonMap.pointers['/accessors/' + result]);
+            else if (inDraco && pathSplit[i - 1] === 'attributes') {
+                let uri = makeDataUri(textDocumentPosition, currentPath);
+                return makeLocation(undefined, uri);
             }
-            else if (part === 'node' || part === 'skeleton' || inNodes ) {
-                return makeLocation(pathData.jsonMap.pointers['/nodes/' + result]);
-            }
-            else if (part === 'bufferView') {
-                return makeLocation(pathData.jsonMap.pointers['/bufferViews/' + result]);
-            }
-            else if (part === 'buffer') {
-                return makeLocation(pathData.jsonMap.pointers['/buffers/' + result]);
-            }
-            else if (part === 'index') {
-                return makeLocation(pathData.jsonMap.pointers['/textures/' + result]);
-            }
-            else if (part === 'sampler') {
-                if (inChannels) {
-                    return makeLocation(pathData.jsonMap.pointers[currentAnimationPath + '/samplers/' + result]);
-                }
-                return makeLocation(pathData.jsonMap.pointers['/samplers/' + result]);
-            }
-            else if (part === 'source') {
-                return makeLocation(pathData.jsonMap.pointers['/images/' + result]);
-            }
-            else if (part === 'camera') {
-                return makeLocation(pathData.jsonMap.pointers['/cameras/' + result]);
-            } else if (part === 'fragmentShader' || part === 'vertexShader') {
-                return makeLocation(pathData.jsonMap.pointers['/shaders/' + result]);
+
+            let target = getReferenceTarget(pathData.jsonMap.data, currentPath);
+            if (target !== undefined) {
+                return makeLocation(pathData.jsonMap.pointers[target]);
             }
         }
-        else if (part === 'nodes' || part === 'children' || part === 'joints') {
-            inNodes = true;
-        }
-        else if (part === 'channels') {
-            inChannels = true;
-            currentAnimationPath = currentPath.substring(0, currentPath.length - '/channels'.length);
-        }
         else if (result.uri !== undefined && result.uri !== null) {
             if (!result.uri.startsWith('data:') && !currentPath.startsWith('/images/')) {
                 return makeLocation(undefined, Url.resolve(textDocumentPosition.textDocument.uri, result.uri));
@@ -505,22 +475,526 @@ connection.onDefinition((textDocumentPosition: TextDocumentPositionParams): Loca
     return null;
 });
 
-function linearToSRGB(red: number, green: number, blue: number): string | null {
-    const l2sRGB = (c: number) => (c <= 0.0031308) ? (c * 12.92) : (1.055 * Math.pow(c, 1 / 2.4) - 0.055);
+connection.onReferences((referenceParams: ReferenceParams): Location[] => {
+    let pathData = getPath(referenceParams);
+    if (!pathData) {
+        return null;
+    }
+
+    let target = getReferencedObject(pathData.jsonMap.data, pathData.path);
+    if (!target) {
+        return null;
+    }
+
+    let document = documents.get(referenceParams.textDocument.uri);
+    let pointers = pathData.jsonMap.pointers;
+    let locations: Location[] = [];
+
+    function addLocation(pointer: any) {
+        let range = Range.create(document.positionAt(pointer.value.pos), document.positionAt(pointer.valueEnd.pos));
+        locations.push(Location.create(referenceParams.textDocument.uri, range));
+    }
 
-    red = Math.round(l2sRGB(red) * 255);
-    green = Math.round(l2sRGB(green) * 255);
-    blue = Math.round(l2sRGB(blue) * 255);
-    return ((red < 16) ? '0' : '') + red.toString(16) + ((green < 16) ? '0' : '') + green.toString(16) + ((blue < 16) ? '0' : '') + blue.toString(16);
+    if (referenceParams.context.includeDeclaration && pointers.hasOwnProperty(target)) {
+        addLocation(pointers[target]);
+    }
+
+    forEachReference(pathData.jsonMap.data, (referencePath, referenceTarget) => {
+        if (referenceTarget === target && pointers.hasOwnProperty(referencePath)) {
+            addLocation(pointers[referencePath]);
+        }
+    });
+
+    return locations;
+});
+
+/**
+ * Parse a document for the purpose of completing a value at the given offset.
+ * While a value is being typed the JSON is often incomplete, so a placeholder
+ * value is tried at the offset when the document text does not parse as-is.
+ *
+ * @param text The document text
+ * @param offset The offset at which a value is being completed
+ * @return The JSON map, and whether the placeholder was needed, or `undefined`
+ */
+function tryGetCompletionJsonMap(text: string, offset: number): { jsonMap: JsonMap, placeholder: boolean } {
+    try {
+        return { jsonMap: jsonMap.parse(text), placeholder: false };
+    } catch (ex) {
+        // Try again with a placeholder value below.
+    }
+    try {
+        return { jsonMap: jsonMap.parse(text.substring(0, offset) + '0' + text.substring(offset)), placeholder: true };
+    } catch (ex) {
+        return undefined;
+    }
 }
 
-const colorFactorNames = [
-    'ColorFactor',  // Note: This includes anything that ends with ...ColorFactor
-    'diffuseFactor',
-    'specularFactor',
-    'emissiveFactor',
-    'attenuationColor'
-];
+connection.onCompletion((completionParams: CompletionParams): CompletionItem[] => {
+    let document = documents.get(completionParams.textDocument.uri);
+    if (!document || !isLocalGltf(document)) {
+        return null;
+    }
+
+    let offset = document.offsetAt(completionParams.position);
+    let parsed = tryGetCompletionJsonMap(document.getText(), offset);
+    if (!parsed || !parsed.jsonMap.data) {
+        return null;
+    }
+
+    let glTF = parsed.jsonMap.data;
+    let path = getPathAtOffset(parsed.jsonMap, offset);
+    if (path === undefined) {
+        return null;
+    }
+
+    // Inside an empty or partially-filled list of indices, complete the next entry.
+    let value = getFromPath(glTF, path);
+    let range = Range.create(completionParams.position, completionParams.position);
+    if (Array.isArray(value)) {
+        path += '/' + value.length;
+    } else if (typeof value === 'object') {
+        return null;
+    } else if (!parsed.placeholder) {
+        let pointer = parsed.jsonMap.pointers[path];
+        range = Range.create(document.positionAt(pointer.value.pos), document.positionAt(pointer.valueEnd.pos));
+    }
+
+    let collectionPath = getReferencedCollection(path, glTF);
+    let collection = (collectionPath !== undefined) ? getFromPath(glTF, collectionPath) : undefined;
+    if (!collection || typeof collection !== 'object') {
+        return null;
+    }
+
+    const isArray = Array.isArray(collection);
+    return Object.keys(collection).map((id, index): CompletionItem => {
+        // glTF 1.0 uses string IDs, glTF 2.0 uses numeric indices.
+        const newText = isArray ? id : JSON.stringify(id);
+        return {
+            label: newText,
+            kind: CompletionItemKind.Reference,
+            detail: describeObject(glTF, collectionPath, collection[id]),
+            sortText: ('00000000' + index).slice(-8),
+            filterText: newText,
+            textEdit: TextEdit.replace(range, newText)
+        };
+    });
+});
+
+connection.onCodeAction((codeActionParams: CodeActionParams): CodeAction[] => {
+    let pathData = getPath({ textDocument: codeActionParams.textDocument, position: codeActionParams.range.start });
+    if (!pathData) {
+        return null;
+    }
+
+    let entry = getTopLevelEntry(pathData.jsonMap.data, pathData.path);
+    if (!entry) {
+        return null;
+    }
+
+    const uri = codeActionParams.textDocument.uri;
+    const entryPath = entry.collection + '/' + entry.index;
+    const label = getTopLevelEntryLabel(pathData.jsonMap, entry);
+    return [
+        {
+            title: `Delete ${label} and update references`,
+            kind: CodeActionKind.RefactorRewrite,
+            command: Command.create(`Delete ${label}`, 'gltf.server.deleteObject', uri, entryPath)
+        },
+        {
+            title: `Move ${label} to index...`,
+            kind: CodeActionKind.RefactorRewrite,
+            command: Command.create(`Move ${label}`, 'gltf.moveObject', uri, entryPath)
+        }
+    ];
+});
+
+connection.onExecuteCommand(async (executeCommandParams: ExecuteCommandParams): Promise<UpgradeResult | void> => {
+    const args = executeCommandParams.arguments || [];
+    const uri: string = args[0];
+    const entryPath: string = args[1];
+    let document = documents.get(uri);
+    if (!document) {
+        return;
+    }
+
+    try {
+        let map = tryGetJsonMap(document);
+        if (!map || !map.data) {
+            throw new Error('The glTF document could not be parsed.');
+        }
+
+        // The upgrade does not edit the document, but returns a new glTF 2.0 document for the client to open.
+        if (executeCommandParams.command === 'gltf.server.upgradeTo2') {
+            if (map.data.asset && typeof map.data.asset.version === 'string' && map.data.asset.version[0] === '2') {
+                throw new Error('This document is already glTF 2.0.');
+            }
+            return upgradeGltf1(map.data);
+        }
+
+        let entry = getTopLevelEntry(map.data, entryPath);
+        if (!entry) {
+            throw new Error('Only objects in top-level glTF arrays can be refactored: ' + entryPath);
+        }
+
+        let edits: TextEdit[];
+        if (executeCommandParams.command === 'gltf.server.deleteObject') {
+            edits = getDeleteObjectEdits(document, map, entry);
+        } else if (executeCommandParams.command === 'gltf.server.moveObject') {
+            edits = getMoveObjectEdits(document, map, entry, args[2]);
+        } else {
+            return;
+        }
+
+        if (edits.length > 0) {
+            await connection.workspace.applyEdit({ changes: { [uri]: edits } });
+        }
+    } catch (ex) {
+        connection.window.showErrorMessage(ex.message);
+    }
+});
+
+connection.onDocumentSymbol((documentSymbolParams: DocumentSymbolParams): DocumentSymbol[] => {
+    let document = documents.get(documentSymbolParams.textDocument.uri);
+    if (!document || !isLocalGltf(document)) {
+        return null;
+    }
+
+    let map = tryGetJsonMap(document);
+    if (!map || !map.data) {
+        return null;
+    }
+
+    return getDocumentSymbols(document, map);
+});
+
+/**
+ * Recursively find the `.gltf` files in a folder, skipping hidden folders and `node_modules`.
+ * The folders are read asynchronously, so that a large workspace does not hold up other requests.
+ *
+ * @param folderName The folder to search
+ * @param fileNames Receives the full path of each file found
+ */
+async function findGltfFiles(folderName: string, fileNames: Set<string>): Promise<void> {
+    let entries: fs.Dirent[];
+    try {
+        entries = await fs.promises.readdir(folderName, { withFileTypes: true });
+    } catch (ex) {
+        return;
+    }
+    for (let entry of entries) {
+        if (entry.isDirectory()) {
+            if (!entry.name.startsWith('.') && entry.name !== 'node_modules') {
+                await findGltfFiles(path.join(folderName, entry.name), fileNames);
+            }
+        } else if (entry.isFile() && entry.name.toLowerCase().endsWith('.gltf')) {
+            fileNames.add(path.join(folderName, entry.name));
+        }
+    }
+}
+
+/**
+ * Find the `.gltf` files of the workspace.  The folders are only searched once, since the client reports
+ * each `.gltf` file that is created or deleted afterwards.
+ *
+ * @return The full path of each `.gltf` file in the workspace folders
+ */
+function getWorkspaceGltfFiles(): Promise<Set<string>> {
+    if (!workspaceGltfFiles) {
+        workspaceGltfFiles = (async () => {
+            let fileNames = new Set<string>();
+            for (let folderName of workspaceFolderPaths) {
+                await findGltfFiles(folderName, fileNames);
+            }
+            return fileNames;
+        })();
+    }
+    return workspaceGltfFiles;
+}
+
+/**
+ * List the symbols of a `.gltf` file that may not be open, reusing earlier results until the file changes.
+ *
+ * @param fileName The full path of the file
+ * @return The symbols of the file, or an empty list if it cannot be read
+ */
+async function getFileSymbols(fileName: string): Promise<SymbolInformation[]> {
+    const uri = URI.file(fileName).toString();
+    const openDocument = documents.get(uri);
+    if (openDocument) {
+        const map = tryGetJsonMap(openDocument);
+        return (map && map.data) ? getWorkspaceSymbols(openDocument, map) : [];
+    }
+
+    let cached = workspaceSymbolCache.get(fileName);
+    if (cached) {
+        return cached;
+    }
+
+    let symbols: SymbolInformation[] = [];
+    try {
+        const document = TextDocument.create(uri, 'json', 0, await fs.promises.readFile(fileName, 'utf-8'));
+        const map = jsonMap.parse(document.getText());
+        if (map && map.data) {
+            symbols = getWorkspaceSymbols(document, map);
+        }
+    } catch (ex) {
+        console.warn('Error parsing glTF JSON document: ' + uri);
+    }
+    workspaceSymbolCache.set(fileName, symbols);
+    return symbols;
+}
+
+connection.onWorkspaceSymbol(async (workspaceSymbolParams: WorkspaceSymbolParams): Promise<SymbolInformation[]> => {
+    let result: SymbolInformation[] = [];
+    for (let fileName of await getWorkspaceGltfFiles()) {
+        const symbols = await getFileSymbols(fileName);
+        result = result.concat(symbols.filter(symbol => matchesSymbolQuery(symbol.name, workspaceSymbolParams.query)));
+    }
+    return result;
+});
+
+// The client watches the `.gltf` files of the workspace, so that the files and symbols found earlier stay current.
+connection.onDidChangeWatchedFiles((change: DidChangeWatchedFilesParams) => {
+    for (let event of change.changes) {
+        const fileName = URI.parse(event.uri).fsPath;
+        workspaceSymbolCache.delete(fileName);
+        if (workspaceGltfFiles) {
+            workspaceGltfFiles = workspaceGltfFiles.then(fileNames => {
+                if (event.type === FileChangeType.Deleted) {
+                    fileNames.delete(fileName);
+                } else if (fileName.toLowerCase().endsWith('.gltf')) {
+                    fileNames.add(fileName);
+                }
+                return fileNames;
+            });
+        }
+    }
+});
+
+connection.onRequest('gltf/inlayHints', (inlayHintParams: InlayHintParams): GltfInlayHint[] => {
+    let document = documents.get(inlayHintParams.textDocument.uri);
+    if (!document || !isLocalGltf(document)) {
+        return null;
+    }
+
+    let map = tryGetJsonMap(document);
+    if (!map || !map.data) {
+        return null;
+    }
+
+    return getInlayHints(document, map, inlayHintParams.range, currentSettings.InlayHints);
+});
+
+connection.onRequest('gltf/semanticTokens', (semanticTokensParams: SemanticTokensParams): GltfSemanticToken[] => {
+    let document = documents.get(semanticTokensParams.textDocument.uri);
+    if (!document || !isLocalGltf(document)) {
+        return null;
+    }
+
+    let map = tryGetJsonMap(document);
+    if (!map || !map.data) {
+        return null;
+    }
+
+    return getSemanticTokens(document, map);
+});
+
+connection.onCodeLens((codeLensParams: CodeLensParams): CodeLens[] => {
+    let document = documents.get(codeLensParams.textDocument.uri);
+    if (!document || !isLocalGltf(document)) {
+        return null;
+    }
+
+    let map = tryGetJsonMap(document);
+    if (!map || !map.data) {
+        return null;
+    }
+
+    return getCodeLenses(document, map, URI.parse(document.uri).fsPath);
+});
+
+connection.onFoldingRanges((foldingRangeParams: FoldingRangeParams): FoldingRange[] => {
+    let document = documents.get(foldingRangeParams.textDocument.uri);
+    if (!document || !isLocalGltf(document)) {
+        return null;
+    }
+
+    let map = tryGetJsonMap(document);
+    if (!map || !map.data) {
+        return null;
+    }
+
+    return getFoldingRanges(document, map);
+});
+
+connection.onRequest('gltf/autoFoldLines', (autoFoldParams: AutoFoldParams): number[] => {
+    let document = documents.get(autoFoldParams.textDocument.uri);
+    if (!document || !isLocalGltf(document)) {
+        return null;
+    }
+
+    let map = tryGetJsonMap(document);
+    if (!map || !map.data) {
+        return null;
+    }
+
+    return getAutoFoldLines(document, map);
+});
+
+connection.onRequest('gltf/deleteObjects', (deleteObjectsParams: DeleteObjectsParams): TextEdit[] => {
+    let document = documents.get(deleteObjectsParams.textDocument.uri);
+    if (!document) {
+        return null;
+    }
+
+    let map = tryGetJsonMap(document);
+    if (!map || !map.data) {
+        return null;
+    }
+
+    let entries = deleteObjectsParams.paths.map(path => getTopLevelEntry(map.data, path)).filter(entry => entry !== undefined);
+    return getDeleteObjectsEdits(document, map, entries);
+});
+
+connection.onRequest('gltf/nodeTransform', (nodeTransformParams: NodeTransformParams): NodeTransform => {
+    let document = documents.get(nodeTransformParams.textDocument.uri);
+    if (!document) {
+        return null;
+    }
+
+    let map = tryGetJsonMap(document);
+    if (!map || !map.data) {
+        return null;
+    }
+
+    const node = Array.isArray(map.data.nodes) ? map.data.nodes[nodeTransformParams.node] : undefined;
+    if (!node || typeof node !== 'object') {
+        return null;
+    }
+    return getNodeTransform(node);
+});
+
+connection.onRequest('gltf/prune', (pruneParams: PruneParams): RemoveObjectsResult => {
+    let document = documents.get(pruneParams.textDocument.uri);
+    if (!document) {
+        return null;
+    }
+
+    let map = tryGetJsonMap(document);
+    if (!map || !map.data) {
+        throw new Error('The glTF document could not be parsed.');
+    }
+    const removedPaths = getUnusedObjects(map.data);
+    const entries = removedPaths.map(path => getTopLevelEntry(map.data, path)).filter(entry => entry !== undefined);
+    return {
+        edits: getDeleteObjectsEdits(document, map, entries),
+        removedPaths: removedPaths,
+        removed: describeRemovedObjects(removedPaths)
+    };
+});
+
+connection.onRequest('gltf/mergeObjects', (mergeObjectsParams: MergeObjectsParams): RemoveObjectsResult => {
+    let document = documents.get(mergeObjectsParams.textDocument.uri);
+    if (!document) {
+        return null;
+    }
+
+    let map = tryGetJsonMap(document);
+    if (!map || !map.data) {
+        throw new Error('The glTF document could not be parsed.');
+    }
+    const mergedInto = getMergedObjects(map.data, mergeObjectsParams.merges);
+    const removedPaths = Array.from(mergedInto.keys());
+    const entries = removedPaths.map(path => getTopLevelEntry(map.data, path)).filter(entry => entry !== undefined);
+    return {
+        edits: getDeleteObjectsEdits(document, map, entries, mergedInto),
+        removedPaths: removedPaths,
+        removed: describeRemovedObjects(removedPaths)
+    };
+});
+
+connection.onRequest('gltf/mergeGltf', (mergeGltfParams: MergeGltfParams): MergeGltfResult => {
+    let document = documents.get(mergeGltfParams.textDocument.uri);
+    if (!document) {
+        return null;
+    }
+
+    let map = tryGetJsonMap(document);
+    if (!map || !map.data) {
+        throw new Error('The glTF document could not be parsed.');
+    }
+    return mergeGltf(map.data, mergeGltfParams.glTF, mergeGltfParams.parentNode);
+});
+
+connection.onRequest('gltf/extractNode', (extractNodeParams: ExtractNodeParams): PruneResult => {
+    let document = documents.get(extractNodeParams.textDocument.uri);
+    if (!document) {
+        return null;
+    }
+
+    let map = tryGetJsonMap(document);
+    if (!map || !map.data) {
+        throw new Error('The glTF document could not be parsed.');
+    }
+    return extractNodeSubtree(map.data, extractNodeParams.node, extractNodeParams.bakeParentTransform);
+});
+
+connection.onRequest('gltf/selectionRanges', (selectionRangeParams: SelectionRangeParams): Range[][] => {
+    let document = documents.get(selectionRangeParams.textDocument.uri);
+    if (!document || !isLocalGltf(document)) {
+        return null;
+    }
+
+    let map = tryGetJsonMap(document);
+    if (!map || !map.data) {
+        return null;
+    }
+
+    return selectionRangeParams.positions.map(position => getSelectionRanges(document, map, position));
+});
+
+connection.onDocumentLinks((documentLinkParams: DocumentLinkParams): DocumentLink[] => {
+    let document = documents.get(documentLinkParams.textDocument.uri);
+    if (!document || !isLocalGltf(document)) {
+        return null;
+    }
+
+    let map = tryGetJsonMap(document);
+    if (!map || !map.data) {
+        return null;
+    }
+
+    return getDocumentLinks(document, map);
+});
+
+connection.onDocumentColor((documentColorParams: DocumentColorParams): ColorInformation[] => {
+    let document = documents.get(documentColorParams.textDocument.uri);
+    if (!document || !isLocalGltf(document)) {
+        return null;
+    }
+
+    let map = tryGetJsonMap(document);
+    if (!map || !map.data) {
+        return null;
+    }
+
+    return getDocumentColors(document, map);
+});
+
+connection.onColorPresentation((colorPresentationParams: ColorPresentationParams): ColorPresentation[] => {
+    let document = documents.get(colorPresentationParams.textDocument.uri);
+    if (!document) {
+        return null;
+    }
+
+    let map = tryGetJsonMap(document);
+    if (!map || !map.data) {
+        return null;
+    }
+
+    return getColorPresentations(document, map, colorPresentationParams.color, colorPresentationParams.range);
+});
 
 connection.onHover((textDocumentPosition: TextDocumentPositionParams): Hover => {
     let pathData = getPath(textDocumentPosition);
@@ -530,6 +1004,20 @@ connection.onHover((textDocumentPosition: TextDocumentPositionParams): Hover =>
 
     let path = pathData.path;
 
+    // Indices of accessors, nodes and textures show details of the referenced object.  These cards are for glTF 2.0 only.
+    let value = getFromPath(pathData.jsonMap.data, path);
+    let target = getReferenceTarget(pathData.jsonMap.data, path);
+    if ((typeof value === 'number') && target !== undefined) {
+        let fileName = URI.parse(textDocumentPosition.textDocument.uri).fsPath;
+        let markdown = getReferenceHover(pathData.jsonMap.data, target, fileName);
+        if (markdown) {
+            return {
+                contents: { kind: MarkupKind.Markdown, value: markdown },
+                range: Range.create(pathData.start, pathData.end)
+            };
+        }
+    }
+
     if (path.startsWith('/images/')) {
         let splitPath = path.split('/');
         if (splitPath.length > 3) {
@@ -54,7 +54,8 @@ export class DataUriTextDocumentContentProvider implements vscode.TextDocumentCo
     }
 
     public isMeshPrimitive(jsonPointer: string): boolean {
-        return !!jsonPointer.match(/^\/meshes\/\d+\/primitives\//);
+        // glTF 1.0 meshes have string IDs rather than indices.
+        return !!jsonPointer.match(/^\/meshes\/[^/]+\/primitives\//);
     }
 
     public async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
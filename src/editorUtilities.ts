@@ -1,4 +1,7 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
+import * as Url from 'url';
+import * as fs from 'fs';
 import { GLTF2 } from "./GLTF2";
 import { JsonMap } from './utilities';
 
@@ -85,6 +88,98 @@ export function getInsertPointForKey(map: JsonMap<GLTF2.GLTF>, searchKey: string
     return insertPos;
 }
 
+/**
+ * Computes the edit that sets a key of an existing JSON object, replacing its value
+ * if the key is already there, or else adding it after the object's last key.
+ *
+ * @param document The document holding the object
+ * @param map The JSON Map
+ * @param objectKey The JSON pointer of the object
+ * @param keyName The name of the key to set
+ * @param newValue The new value, as JSON text
+ * @param insertables The line ending and indent to use for a new key
+ * @returns The edit to apply to the document.
+ */
+export function getSetKeyValueEdit(document: vscode.TextDocument, map: JsonMap<GLTF2.GLTF>, objectKey: string,
+    keyName: string, newValue: string, insertables: Insertables): vscode.TextEdit {
+    const pointers = map.pointers;
+    const key = objectKey + '/' + keyName;
+    if (pointers.hasOwnProperty(key)) {
+        return vscode.TextEdit.replace(new vscode.Range(document.positionAt(pointers[key].value.pos),
+            document.positionAt(pointers[key].valueEnd.pos)), newValue);
+    }
+
+    // Keys are indented one level deeper than the object, which is as deep as its JSON pointer has segments.
+    const indent = new Array(objectKey.split('/').length + 1).join(insertables.indent);
+    const newJson = ',' + insertables.eol + indent + '"' + keyName + '": ' + newValue;
+    return vscode.TextEdit.insert(document.positionAt(getInsertPointForKey(map, objectKey)), newJson);
+}
+
+/**
+ * Computes the edits that change a JSON value of a document into a new value that only adds to it,
+ * such as a glTF document with another document's objects appended.  New keys are added after an
+ * object's last key, new entries are appended after an array's last entry, and values that differ
+ * otherwise are replaced.  Everything else in the document is left as it is.
+ *
+ * @param document The document holding the value
+ * @param map The JSON Map
+ * @param jsonPointer The JSON pointer of the value, which is `''` for the whole document
+ * @param newValue The new value
+ * @param insertables The line ending and indent to use for new JSON
+ * @returns The edits to apply to the document, all at once.
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function getAppendEdits(document: vscode.TextDocument, map: JsonMap<GLTF2.GLTF>, jsonPointer: string, newValue: any, insertables: Insertables): vscode.TextEdit[] {
+    const pointers = map.pointers;
+    const pointer = pointers[jsonPointer];
+    const oldValue = jsonPointer.split('/').slice(1).reduce((value, segment) =>
+        value[segment.replace(/~1/g, '/').replace(/~0/g, '~')], map.data as any);
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) {
+        return [];
+    }
+
+    // A value is indented as deep as its JSON pointer has segments, and its entries one level deeper.
+    const level = jsonPointer.split('/').length - 1;
+    const getIndent = (depth: number) => new Array(depth + 1).join(insertables.indent);
+    const toJson = (value: any, depth: number) => JSON.stringify(value, null, insertables.indent).replace(/\n/g, insertables.eol + getIndent(depth));
+    // Entries written on lines of their own are appended on lines of their own, and others on the same line.
+    const getSeparator = (firstEntryPos: number) =>
+        /[\r\n]/.test(document.getText(new vscode.Range(document.positionAt(pointer.value.pos), document.positionAt(firstEntryPos)))) ?
+            ',' + insertables.eol + getIndent(level + 1) : ', ';
+
+    let edits: vscode.TextEdit[] = [];
+    if (Array.isArray(oldValue) && Array.isArray(newValue) && oldValue.length > 0 && newValue.length >= oldValue.length) {
+        for (let index = 0; index < oldValue.length; ++index) {
+            edits = edits.concat(getAppendEdits(document, map, jsonPointer + '/' + index, newValue[index], insertables));
+        }
+        if (newValue.length > oldValue.length) {
+            const separator = getSeparator(pointers[jsonPointer + '/0'].value.pos);
+            const newJson = newValue.slice(oldValue.length).map(entry => separator + toJson(entry, level + 1)).join('');
+            edits.push(vscode.TextEdit.insert(document.positionAt(pointers[jsonPointer + '/' + (oldValue.length - 1)].valueEnd.pos), newJson));
+        }
+        return edits;
+    }
+
+    const isObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value);
+    const oldKeys = isObject(oldValue) ? Object.keys(oldValue) : [];
+    if (oldKeys.length > 0 && isObject(newValue) && oldKeys.every(key => newValue.hasOwnProperty(key))) {
+        const getChildPointer = (key: string) => jsonPointer + '/' + key.replace(/~/g, '~0').replace(/\//g, '~1');
+        for (let key of oldKeys) {
+            edits = edits.concat(getAppendEdits(document, map, getChildPointer(key), newValue[key], insertables));
+        }
+        const newKeys = Object.keys(newValue).filter(key => !oldValue.hasOwnProperty(key));
+        if (newKeys.length > 0) {
+            const separator = getSeparator(pointers[getChildPointer(oldKeys[0])].key.pos);
+            const newJson = newKeys.map(key => separator + JSON.stringify(key) + ': ' + toJson(newValue[key], level + 1)).join('');
+            edits.push(vscode.TextEdit.insert(document.positionAt(getInsertPointForKey(map, jsonPointer)), newJson));
+        }
+        return edits;
+    }
+
+    return [vscode.TextEdit.replace(new vscode.Range(document.positionAt(pointer.value.pos),
+        document.positionAt(pointer.valueEnd.pos)), toJson(newValue, level))];
+}
+
 /**
  * Calculates an editor range that can be deleted to remove a key from an object.
  *
@@ -137,3 +232,93 @@ export function clearRangeOfJsonKey(map: JsonMap<GLTF2.GLTF>, parentKey: string,
 
     throw new Error("Can't leave JSON object empty: " + parentKey);
 }
+
+/**
+ * Calculates the editor ranges that can be deleted to remove some entries from an array,
+ * along with the commas that separate them from the remaining entries.
+ *
+ * @param document The document holding the array
+ * @param map The JSON Map
+ * @param arrayKey The JSON pointer of the array
+ * @param indices The indices of the entries to remove
+ * @returns The vscode ranges to delete from the editor.
+ */
+export function clearRangesOfArrayEntries(document: vscode.TextDocument, map: JsonMap<GLTF2.GLTF>, arrayKey: string, indices: number[]): vscode.Range[] {
+    const pointers = map.pointers;
+    let numEntries = 0;
+    while (pointers.hasOwnProperty(arrayKey + '/' + numEntries)) {
+        ++numEntries;
+    }
+
+    const start = (index: number) => document.positionAt(pointers[arrayKey + '/' + index].value.pos);
+    const end = (index: number) => document.positionAt(pointers[arrayKey + '/' + index].valueEnd.pos);
+
+    let ranges: vscode.Range[] = [];
+    for (let first = 0; first < numEntries; ++first) {
+        if (indices.indexOf(first) < 0) {
+            continue;
+        }
+        let last = first;
+        while (last + 1 < numEntries && indices.indexOf(last + 1) >= 0) {
+            ++last;
+        }
+
+        if (last + 1 < numEntries) {
+            // Remove the run along with the comma that follows it.
+            ranges.push(new vscode.Range(start(first), start(last + 1)));
+        } else if (first > 0) {
+            // Remove the run at the end, along with the comma that precedes it.
+            ranges.push(new vscode.Range(end(first - 1), end(last)));
+        } else {
+            throw new Error("Can't leave JSON array empty: " + arrayKey);
+        }
+        first = last;
+    }
+
+    return ranges;
+}
+
+/**
+ * Ask where to save updated binary data for a buffer, typically as a new `*_patchN.bin` file next to
+ * the glTF file, then save it there.
+ *
+ * @param document The glTF document
+ * @param currentUri The buffer's current `uri`, from which the default file name is worked out
+ * @param data The binary data to save
+ * @returns The URI of the saved file relative to the glTF file, or `undefined` if the save dialog was cancelled
+ */
+export async function saveBufferDataAs(document: vscode.TextDocument, currentUri: string | undefined,
+    data: Uint8Array): Promise<string | undefined> {
+    // Try to work out a good default name.
+    let defaultName = 'data_patch_1';
+    if (currentUri !== undefined) {
+        defaultName = currentUri;
+        if (/_patch[0-9]+\.bin$/i.test(defaultName)) {
+            let pos = defaultName.lastIndexOf('_patch');
+            let patchNum = parseInt(defaultName.substring(pos + 6), 10) + 1;
+            defaultName = defaultName.replace(/_patch[0-9]+\.bin$/i, '_patch' + patchNum + '.bin');
+        } else if (/\.bin$/i.test(defaultName)) {
+            defaultName = defaultName.replace(/\.bin$/i, '_patch1.bin');
+        } else {
+            defaultName = 'model_data_patch1.bin';
+        }
+    }
+    defaultName = decodeURI(Url.resolve(document.fileName, defaultName));
+
+    // Ask the user for confirmation, then save the new bin file.
+    const saveOptions: vscode.SaveDialogOptions = {
+        defaultUri: vscode.Uri.file(defaultName),
+        title: 'Save Updated Model Data As',
+        filters: {
+            'Binary Data': ['bin'],
+            'All files': ['*']
+        }
+    };
+    let saveUri = await vscode.window.showSaveDialog(saveOptions);
+    if (saveUri === undefined) {
+        return undefined;
+    }
+
+    fs.writeFileSync(saveUri.fsPath, Buffer.from(data.buffer, data.byteOffset, data.byteLength));
+    return encodeURI(path.basename(saveUri.fsPath));
+}
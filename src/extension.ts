@@ -1,16 +1,24 @@
 import * as vscode from 'vscode';
-import { LanguageClient, LanguageClientOptions, ServerOptions, TransportKind } from 'vscode-languageclient';
+import { LanguageClient, LanguageClientOptions, ServerOptions, TextEdit, TransportKind } from 'vscode-languageclient';
 import { DataUriTextDocumentContentProvider } from './dataUriTextDocumentContentProvider';
 import { ConvertGLBtoGltfLoadFirst, ConvertToGLB, getBuffer } from 'gltf-import-export';
 import { GltfActionProvider } from './gltfActionProvider';
+import { findDuplicates } from './gltfDeduplicate';
+import { loadGltfFile } from './gltfMergeFile';
+import { writeExtractedGltf } from './gltfExtractNode';
+import { GltfInlayHintsProvider } from './gltfInlayHintsProvider';
+import { GltfSemanticTokensProvider } from './gltfSemanticTokensProvider';
+import { GltfSelectionRangeProvider } from './gltfSelectionRangeProvider';
+import { GltfAutoFold } from './gltfAutoFold';
 import * as GltfValidate from './validationProvider';
 import * as path from 'path';
 import * as Url from 'url';
 import * as fs from 'fs';
-import { getFromJsonPointer, guessMimeType, btoa, guessFileExtension, getAccessorData, AccessorTypeToNumComponents, parseJsonMap, truncateJsonPointer, JsonMap } from './utilities';
+import { getFromJsonPointer, guessMimeType, btoa, guessFileExtension, getAccessorData, appendToBuffer, repackBuffer, formatByteSize, AccessorTypeToNumComponents, parseJsonMap, truncateJsonPointer, JsonMap } from './utilities';
 import { GLTF2 } from './GLTF2';
 import { GltfWindow } from './gltfWindow';
-import { Insertables } from './editorUtilities';
+import { GltfNode } from './gltfOutline';
+import { Insertables, getAppendEdits, getSetKeyValueEdit, saveBufferDataAs } from './editorUtilities';
 
 function checkValidEditor(textEditor: vscode.TextEditor): boolean {
     if (textEditor === undefined) {
@@ -26,6 +34,18 @@ function checkValidEditor(textEditor: vscode.TextEditor): boolean {
     return true;
 }
 
+/**
+ * Show an error unless the document is glTF 2.0, before a command that works with indices asks for anything.
+ * glTF 1.0 objects, such as the nodes in the glTF Outline, are named by string IDs instead.
+ */
+function checkGltf2(glTF: GLTF2.GLTF, action: string): boolean {
+    if (!glTF.asset || typeof glTF.asset.version !== 'string' || glTF.asset.version[0] !== '2') {
+        vscode.window.showErrorMessage(`Only glTF 2.0 documents can be ${action}.  Please upgrade this document to glTF 2.0 first.`);
+        return false;
+    }
+    return true;
+}
+
 function pointerContains(pointer: any, selection: vscode.Selection, textEditor: vscode.TextEditor): boolean {
     const doc = textEditor.document;
     const range = new vscode.Range(doc.positionAt(pointer.value.pos), doc.positionAt(pointer.valueEnd.pos));
@@ -74,7 +94,7 @@ function configurationChanged(): void {
 }
 
 // This method activates the language server, to run the glTF Validator.
-export function activateServer(context: vscode.ExtensionContext): void {
+export function activateServer(context: vscode.ExtensionContext): LanguageClient {
     // The server is implemented in node
     let serverModule = context.asAbsolutePath(path.join('server', 'server.js'));
     // The debug options for the server
@@ -94,17 +114,19 @@ export function activateServer(context: vscode.ExtensionContext): void {
         synchronize: {
             // Synchronize the setting section 'glTF' to the server
             configurationSection: 'glTF',
-            // Notify the server about file changes to '.clientrc files contain in the workspace
-            fileEvents: vscode.workspace.createFileSystemWatcher('**/.clientrc')
+            // Notify the server about changes to the glTF files in the workspace, for its workspace symbols
+            fileEvents: vscode.workspace.createFileSystemWatcher('**/*.gltf')
         }
     };
 
     // Create the language client and start the client.
-    let disposable = new LanguageClient('gltfLanguageServer', 'glTF Language Server', serverOptions, clientOptions).start();
+    let client = new LanguageClient('gltfLanguageServer', 'glTF Language Server', serverOptions, clientOptions);
+    let disposable = client.start();
 
     // Push the disposable to the context's subscriptions so that the
     // client can be deactivated on extension deactivation
     context.subscriptions.push(disposable);
+    return client;
 }
 
 // this method is called when your extension is activated
@@ -116,7 +138,7 @@ export function activate(context: vscode.ExtensionContext): void {
     configurationChanged();
 
     // Activate the validation server.
-    activateServer(context);
+    const client = activateServer(context);
 
     // Create the window object that manages the various views.
     const gltfWindow = new GltfWindow(context);
@@ -190,6 +212,38 @@ export function activate(context: vscode.ExtensionContext): void {
         }
     }));
 
+    //
+    // Recompute the normals of the current mesh primitive.
+    //
+    context.subscriptions.push(vscode.commands.registerTextEditorCommand('gltf.recomputeNormals', async (
+        textEditor: vscode.TextEditor
+    ) => {
+        if (!checkValidEditor(textEditor)) {
+            return;
+        }
+
+        const map = tryGetJsonMap(textEditor);
+        if (!map) {
+            return;
+        }
+
+        const jsonPointer = tryGetCurrentJsonPointer(map, textEditor);
+        if (!jsonPointer) {
+            return;
+        }
+
+        if (!dataPreviewProvider.isMeshPrimitive(jsonPointer)) {
+            vscode.window.showErrorMessage('This feature works only with mesh primitives.');
+            return;
+        }
+
+        try {
+            await GltfActionProvider.recomputeNormals(client, textEditor, map, truncateJsonPointer(jsonPointer, 4));
+        } catch (ex) {
+            vscode.window.showErrorMessage(ex.toString());
+        }
+    }));
+
     // Used by a TreeItem to change the behavior of expand and collapse.
     context.subscriptions.push(vscode.commands.registerCommand('gltf.noop', () => { }));
 
@@ -531,62 +585,194 @@ export function activate(context: vscode.ExtensionContext): void {
     }));
 
     context.subscriptions.push(
-        vscode.languages.registerCodeActionsProvider('json', new GltfActionProvider(), {
+        vscode.languages.registerCodeActionsProvider('json', new GltfActionProvider(client), {
             providedCodeActionKinds: GltfActionProvider.providedCodeActionKinds
         })
     );
 
+    const inlayHintsProvider = new GltfInlayHintsProvider(client);
+    context.subscriptions.push(inlayHintsProvider);
+    context.subscriptions.push(
+        vscode.languages.registerInlayHintsProvider({ scheme: 'file', language: 'json', pattern: '**/*.gltf' }, inlayHintsProvider)
+    );
+
+    context.subscriptions.push(
+        vscode.languages.registerDocumentSemanticTokensProvider({ scheme: 'file', language: 'json', pattern: '**/*.gltf' },
+            new GltfSemanticTokensProvider(client), GltfSemanticTokensProvider.legend)
+    );
+
+    context.subscriptions.push(
+        vscode.languages.registerSelectionRangeProvider({ scheme: 'file', language: 'json', pattern: '**/*.gltf' },
+            new GltfSelectionRangeProvider(client))
+    );
+
+    // Fold embedded buffer data and extras when a glTF document is first shown.
+    context.subscriptions.push(new GltfAutoFold(client));
+
     //
-    // Quick Fix: Copy the currently-selected extension to "extensionsUsed".
+    // Quick Fix: Each registered fix has a command to fix one issue, given its diagnostic or else the issue
+    // under the cursor, and may have another to fix every issue with its code in this file.
     //
-    context.subscriptions.push(vscode.commands.registerTextEditorCommand('gltf.declareExtension', (
-        textEditor: vscode.TextEditor, edit: vscode.TextEditorEdit, diagnostic: vscode.Diagnostic
-    ) => {
-        if (!textEditor) {
+    for (const quickFix of GltfActionProvider.quickFixes) {
+        context.subscriptions.push(vscode.commands.registerTextEditorCommand(quickFix.command, async (
+            textEditor: vscode.TextEditor, edit: vscode.TextEditorEdit, diagnostic?: vscode.Diagnostic
+        ) => {
+            if (!textEditor) {
+                return;
+            }
+
+            const map = tryGetJsonMap(textEditor);
+            if (!map) {
+                return;
+            }
+
+            try {
+                // Note the provided "edit" is invalid once a fix awaits, so fixes build a workspace edit instead.
+                await GltfActionProvider.fix(client, textEditor, map, quickFix, diagnostic);
+            } catch (ex) {
+                vscode.window.showErrorMessage(ex.toString());
+            }
+        }));
+
+        if (quickFix.fixAllCommand) {
+            context.subscriptions.push(vscode.commands.registerTextEditorCommand(quickFix.fixAllCommand, async (
+                textEditor: vscode.TextEditor, edit: vscode.TextEditorEdit, diagnostics?: vscode.Diagnostic[]
+            ) => {
+                if (!textEditor) {
+                    return;
+                }
+
+                const map = tryGetJsonMap(textEditor);
+                if (!map) {
+                    return;
+                }
+
+                try {
+                    await GltfActionProvider.fixAll(client, textEditor, map, quickFix, diagnostics);
+                } catch (ex) {
+                    vscode.window.showErrorMessage(ex.toString());
+                }
+            }));
+        }
+    }
+
+    function getRefactorTarget(uri?: string, jsonPointer?: string): { uri: string, jsonPointer: string, length: number } {
+        const textEditor = vscode.window.activeTextEditor;
+        if (uri === undefined) {
+            if (!checkValidEditor(textEditor)) {
+                return undefined;
+            }
+            uri = textEditor.document.uri.toString();
+        }
+        const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri);
+        if (!document) {
+            return undefined;
+        }
+        let glTF: any;
+        try {
+            glTF = JSON.parse(document.getText());
+        } catch (ex) {
+            vscode.window.showErrorMessage('Error parsing this document.  Please make sure it is valid JSON.');
+            return undefined;
+        }
+        if (jsonPointer === undefined) {
+            const map = tryGetJsonMap(textEditor);
+            if (!map) {
+                return undefined;
+            }
+            jsonPointer = tryGetCurrentJsonPointer(map, textEditor);
+            if (!jsonPointer) {
+                return undefined;
+            }
+            jsonPointer = truncateJsonPointer(jsonPointer, 2);
+        }
+        const collection = getFromJsonPointer(glTF, jsonPointer.substring(0, jsonPointer.lastIndexOf('/')));
+        if (!Array.isArray(collection) || !/^\/[^/]+\/\d+$/.test(jsonPointer)) {
+            vscode.window.showErrorMessage('Please click on an object in a top-level glTF array, and try this command again.');
+            return undefined;
+        }
+        return { uri: uri, jsonPointer: jsonPointer, length: collection.length };
+    }
+
+    //
+    // Refactor: Delete a glTF object, updating the indices that refer to later objects.
+    //
+    context.subscriptions.push(vscode.commands.registerCommand('gltf.deleteObject', async (uri?: string, jsonPointer?: string) => {
+        const target = getRefactorTarget(uri, jsonPointer);
+        if (!target) {
             return;
         }
 
-        const map = tryGetJsonMap(textEditor);
-        if (!map) {
+        await vscode.commands.executeCommand('gltf.server.deleteObject', target.uri, target.jsonPointer);
+    }));
+
+    //
+    // Refactor: Move a glTF object to a new index, updating all indices that refer to it.
+    //
+    context.subscriptions.push(vscode.commands.registerCommand('gltf.moveObject', async (uri?: string, jsonPointer?: string) => {
+        const target = getRefactorTarget(uri, jsonPointer);
+        if (!target) {
             return;
         }
 
-        try {
-            GltfActionProvider.declareExtension(diagnostic, map, textEditor, edit);
-        } catch (ex) {
-            vscode.window.showErrorMessage(ex.toString());
+        const newIndex = await vscode.window.showInputBox({
+            prompt: `New index for ${target.jsonPointer}`,
+            placeHolder: `0 to ${target.length - 1}`,
+            validateInput: (value: string) => {
+                const index = Number(value);
+                return (/^\d+$/.test(value) && index < target.length) ? null : `Please enter an index from 0 to ${target.length - 1}.`;
+            }
+        });
+        if (newIndex === undefined) {
+            return;
         }
+
+        await vscode.commands.executeCommand('gltf.server.moveObject', target.uri, target.jsonPointer, Number(newIndex));
     }));
 
     //
-    // Quick Fix: Add a target to the bufferView based on attribute type.
+    // Code Lens: Find the references to a glTF object, given its position as sent by the language server.
     //
-    context.subscriptions.push(vscode.commands.registerTextEditorCommand('gltf.addBufferViewTarget', (
-        textEditor: vscode.TextEditor, edit: vscode.TextEditorEdit, diagnostic: vscode.Diagnostic
-    ) => {
-        if (!textEditor) {
+    context.subscriptions.push(vscode.commands.registerCommand('gltf.findReferences', async (uri: string, position: { line: number, character: number }) => {
+        await vscode.commands.executeCommand('editor.action.findReferences',
+            client.protocol2CodeConverter.asUri(uri), client.protocol2CodeConverter.asPosition(position));
+    }));
+
+    //
+    // Upgrade a glTF 1.0 document to glTF 2.0, opening the result as a new document next to the original.
+    //
+    context.subscriptions.push(vscode.commands.registerCommand('gltf.upgradeTo2', async () => {
+        const textEditor = vscode.window.activeTextEditor;
+        if (!checkValidEditor(textEditor)) {
             return;
         }
 
-        const map = tryGetJsonMap(textEditor);
-        if (!map) {
+        const document = textEditor.document;
+        const result: { glTF: any, warnings: string[] } = await vscode.commands.executeCommand('gltf.server.upgradeTo2',
+            client.code2ProtocolConverter.asUri(document.uri));
+        if (!result) {
             return;
         }
 
-        try {
-            GltfActionProvider.addBufferViewTarget(diagnostic, map, textEditor, edit);
-        } catch (ex) {
-            vscode.window.showErrorMessage(ex.toString());
+        // An untitled document in the same folder saves next to the original, where its relative URIs resolve.
+        const newFileName = document.fileName.replace(/(\.gltf)?$/i, '-2.0.gltf');
+        const newDocument = await vscode.workspace.openTextDocument(vscode.Uri.file(newFileName).with({ scheme: 'untitled' }));
+        const newEditor = await vscode.window.showTextDocument(newDocument);
+        const indent = new Insertables(textEditor).indent;
+        await newEditor.edit(edit => edit.insert(new vscode.Position(0, 0), JSON.stringify(result.glTF, null, indent)));
+
+        if (result.warnings.length > 0) {
+            vscode.window.showWarningMessage('glTF 2.0 upgrade: ' + result.warnings.join('  '));
         }
     }));
 
     //
-    // Quick Fix: Add all needed targets for all bufferViews in this file.
+    // Remove unused objects, then repack each buffer so that it holds only the data of the remaining bufferViews.
     //
-    context.subscriptions.push(vscode.commands.registerTextEditorCommand('gltf.addAllBufferViewTargets', (
-        textEditor: vscode.TextEditor, edit: vscode.TextEditorEdit, diagnostic: vscode.Diagnostic
+    context.subscriptions.push(vscode.commands.registerTextEditorCommand('gltf.prune', async (
+        textEditor: vscode.TextEditor
     ) => {
-        if (!textEditor) {
+        if (!checkValidEditor(textEditor)) {
             return;
         }
 
@@ -595,20 +781,90 @@ export function activate(context: vscode.ExtensionContext): void {
             return;
         }
 
+        const document = textEditor.document;
         try {
-            GltfActionProvider.addAllBufferViewTargets(diagnostic, map, textEditor, edit);
+            await client.onReady();
+            const result: { edits: TextEdit[], removedPaths: string[], removed: string[] } = await client.sendRequest('gltf/prune', {
+                textDocument: { uri: client.code2ProtocolConverter.asUri(document.uri) }
+            });
+            if (!result) {
+                return;
+            }
+
+            // The buffers are repacked in terms of the objects that remain, at their current indices,
+            // so that their edits can be applied along with the edits that remove the rest.
+            const glTF = map.data;
+            const isRemoved = (path: string) => result.removedPaths.indexOf(path) >= 0;
+            const getTotalByteLength = (buffers: GLTF2.Buffer[]) =>
+                (buffers || []).reduce((total, buffer) => total + (buffer.byteLength || 0), 0);
+            const buffers = glTF.buffers || [];
+            const bufferViews = glTF.bufferViews || [];
+            const oldByteLength = getTotalByteLength(buffers);
+            let newByteLength = getTotalByteLength(buffers.filter((buffer, bufferId) => !isRemoved('/buffers/' + bufferId)));
+
+            // Buffers without a uri are stored in a GLB file, and are left as they are.
+            const insertables = new Insertables(textEditor);
+            let bufferEdits: vscode.TextEdit[] = [];
+            for (let bufferId = 0; bufferId < buffers.length; ++bufferId) {
+                const buffer = buffers[bufferId];
+                if (typeof buffer.uri !== 'string' || isRemoved('/buffers/' + bufferId)) {
+                    continue;
+                }
+
+                const bufferViewIds = bufferViews.map((bufferView, index) => index).filter(index =>
+                    bufferViews[index].buffer === bufferId && !isRemoved('/bufferViews/' + index));
+                const bufferData = getBuffer(glTF, bufferId, document.fileName);
+                const repacked = repackBuffer(bufferData, bufferViewIds.map(index => bufferViews[index]));
+                if (repacked.data.length >= bufferData.length) {
+                    continue;
+                }
+
+                let newUri: string;
+                if (buffer.uri.startsWith('data:')) {
+                    newUri = 'data:application/octet-stream;base64,' + repacked.data.toString('base64');
+                } else {
+                    newUri = await saveBufferDataAs(document, buffer.uri, repacked.data);
+                    if (newUri === undefined) {
+                        continue;
+                    }
+                }
+                const bufferKey = '/buffers/' + bufferId;
+                bufferEdits.push(getSetKeyValueEdit(document, map, bufferKey, 'uri', JSON.stringify(newUri), insertables));
+                bufferEdits.push(getSetKeyValueEdit(document, map, bufferKey, 'byteLength', repacked.data.length.toString(), insertables));
+                bufferViewIds.forEach((bufferViewId, index) => {
+                    const byteOffset = bufferViews[bufferViewId].byteOffset;
+                    if (byteOffset !== repacked.byteOffsets[index] && (byteOffset !== undefined || repacked.byteOffsets[index] > 0)) {
+                        bufferEdits.push(getSetKeyValueEdit(document, map, '/bufferViews/' + bufferViewId, 'byteOffset',
+                            repacked.byteOffsets[index].toString(), insertables));
+                    }
+                });
+                newByteLength -= (buffer.byteLength || 0) - repacked.data.length;
+            }
+
+            if (result.removed.length === 0 && bufferEdits.length === 0) {
+                vscode.window.showInformationMessage('There are no unused objects or buffer data to prune.');
+                return;
+            }
+
+            let workspaceEdit = new vscode.WorkspaceEdit();
+            workspaceEdit.set(document.uri, (await client.protocol2CodeConverter.asTextEdits(result.edits)).concat(bufferEdits));
+            await vscode.workspace.applyEdit(workspaceEdit);
+
+            let summary = (result.removed.length > 0) ? 'Removed ' + result.removed.join(', ') + '.' : 'Removed no objects.';
+            summary += '  Buffers are ' + formatByteSize(oldByteLength - newByteLength) + ' smaller.';
+            vscode.window.showInformationMessage(summary);
         } catch (ex) {
             vscode.window.showErrorMessage(ex.toString());
         }
     }));
 
     //
-    // Quick Fix: Clear byteStride for this animation's bufferView.
+    // Merge duplicate accessors, images, samplers, textures and materials, after listing what will be merged.
     //
-    context.subscriptions.push(vscode.commands.registerTextEditorCommand('gltf.clearAnimationByteStride', (
-        textEditor: vscode.TextEditor, edit: vscode.TextEditorEdit, diagnostic: vscode.Diagnostic
+    context.subscriptions.push(vscode.commands.registerTextEditorCommand('gltf.deduplicate', async (
+        textEditor: vscode.TextEditor
     ) => {
-        if (!textEditor) {
+        if (!checkValidEditor(textEditor)) {
             return;
         }
 
@@ -617,20 +873,70 @@ export function activate(context: vscode.ExtensionContext): void {
             return;
         }
 
+        const document = textEditor.document;
         try {
-            GltfActionProvider.clearAnimationByteStride(diagnostic, map, textEditor, edit);
+            const duplicates = findDuplicates(document.fileName, map.data);
+            if (duplicates.length === 0) {
+                vscode.window.showInformationMessage('There are no duplicate objects to merge.');
+                return;
+            }
+
+            const getLabel = (collection: string, index: number) => {
+                const name = map.data[collection][index].name;
+                return collection.charAt(0).toUpperCase() + collection.substring(1, collection.length - 1) + ' ' + index +
+                    ((typeof name === 'string' && name.length > 0) ? ` '${name}'` : '');
+            };
+            const items = duplicates.map(duplicate => ({
+                label: getLabel(duplicate.collection, duplicate.index),
+                description: 'into ' + getLabel(duplicate.collection, duplicate.original) +
+                    ((duplicate.byteLength > 0) ? ', saving ' + formatByteSize(duplicate.byteLength) : ''),
+                picked: true,
+                duplicate: duplicate
+            }));
+            const picked = await vscode.window.showQuickPick(items, {
+                canPickMany: true,
+                placeHolder: 'Merge these duplicates into the objects they duplicate'
+            });
+            if (!picked || picked.length === 0) {
+                return;
+            }
+
+            await client.onReady();
+            const result: { edits: TextEdit[], removedPaths: string[], removed: string[] } = await client.sendRequest('gltf/mergeObjects', {
+                textDocument: { uri: client.code2ProtocolConverter.asUri(document.uri) },
+                merges: picked.map(item => ({ path: '/' + item.duplicate.collection + '/' + item.duplicate.index, into: item.duplicate.original }))
+            });
+            if (!result) {
+                return;
+            }
+
+            let workspaceEdit = new vscode.WorkspaceEdit();
+            workspaceEdit.set(document.uri, await client.protocol2CodeConverter.asTextEdits(result.edits));
+            await vscode.workspace.applyEdit(workspaceEdit);
+
+            // The data of merged accessors and images stays in the buffers until their bufferViews are pruned.
+            const byteLength = picked.reduce((total, item) => total + item.duplicate.byteLength, 0);
+            if (byteLength === 0) {
+                vscode.window.showInformationMessage('Merged ' + result.removed.join(', ') + '.');
+                return;
+            }
+            const prune = 'Prune';
+            const choice = await vscode.window.showInformationMessage('Merged ' + result.removed.join(', ') + '.  Prune unused ' +
+                'bufferViews to make the buffers up to ' + formatByteSize(byteLength) + ' smaller.', prune);
+            if (choice === prune) {
+                await vscode.commands.executeCommand('gltf.prune');
+            }
         } catch (ex) {
             vscode.window.showErrorMessage(ex.toString());
         }
     }));
 
     //
-    // Quick Fix: Clear byteStrides for all animation bufferViews in this file.
+    // Append the objects of another glTF or GLB file, as new scenes or as children of a node chosen in the outline.
     //
-    context.subscriptions.push(vscode.commands.registerTextEditorCommand('gltf.clearAllAnimationByteStrides', (
-        textEditor: vscode.TextEditor, edit: vscode.TextEditorEdit, diagnostic: vscode.Diagnostic
-    ) => {
-        if (!textEditor) {
+    context.subscriptions.push(vscode.commands.registerCommand('gltf.mergeFile', async (outlineNode?: GltfNode) => {
+        const textEditor = gltfWindow.activeTextEditor;
+        if (!checkValidEditor(textEditor)) {
             return;
         }
 
@@ -639,20 +945,116 @@ export function activate(context: vscode.ExtensionContext): void {
             return;
         }
 
+        if (!checkGltf2(map.data, 'merged')) {
+            return;
+        }
+
+        const document = textEditor.document;
         try {
-            GltfActionProvider.clearAllAnimationByteStrides(diagnostic, map, textEditor, edit);
+            const openUri = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                openLabel: 'Merge',
+                filters: {
+                    'glTF': ['gltf', 'glb'],
+                    'All files': ['*']
+                }
+            });
+            if (!openUri || !openUri[0]) {
+                return;
+            }
+
+            // The editor context menu passes the document's Uri instead of an outline node.
+            let parentNode: number;
+            if (outlineNode && typeof outlineNode.jsonPointer === 'string') {
+                parentNode = parseInt(outlineNode.jsonPointer.substring('/nodes/'.length));
+            } else if (Array.isArray(map.data.nodes) && map.data.nodes.length > 0) {
+                const items = [{ label: 'As a new scene', parentNode: undefined as number }].concat(map.data.nodes.map((node, index) => ({
+                    label: 'Under Node ' + index + ((typeof node.name === 'string' && node.name.length > 0) ? ` '${node.name}'` : ''),
+                    parentNode: index
+                })));
+                const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Where should the merged objects go?' });
+                if (!picked) {
+                    return;
+                }
+                parentNode = picked.parentNode;
+            }
+
+            const loaded = await loadGltfFile(openUri[0].fsPath, document.fileName);
+
+            // Meshopt compressed bufferViews also name their buffer from an extension, so their buffers are kept apart.
+            const oldBuffers = map.data.buffers || [];
+            let combine = false;
+            if (oldBuffers.length > 0 && typeof oldBuffers[0].uri === 'string' && loaded.buffers.length > 0 &&
+                (loaded.glTF.extensionsUsed || []).indexOf('EXT_meshopt_compression') < 0) {
+                const append = 'Append buffers';
+                const combineBuffers = 'Combine into Buffer 0';
+                const choice = await vscode.window.showQuickPick([append, combineBuffers], {
+                    placeHolder: 'Append the buffers of ' + path.basename(openUri[0].fsPath) + ', or combine their data into Buffer 0?'
+                });
+                if (!choice) {
+                    return;
+                }
+                combine = (choice === combineBuffers);
+            }
+
+            await client.onReady();
+            const result: { glTF: GLTF2.GLTF, added: number[] } = await client.sendRequest('gltf/mergeGltf', {
+                textDocument: { uri: client.code2ProtocolConverter.asUri(document.uri) },
+                glTF: loaded.glTF,
+                parentNode: parentNode
+            });
+            if (!result) {
+                return;
+            }
+
+            const glTF = result.glTF;
+            if (combine) {
+                const buffer = glTF.buffers[0];
+                const appended = appendToBuffer(getBuffer(glTF, 0, document.fileName), loaded.buffers);
+                if (buffer.uri.startsWith('data:')) {
+                    buffer.uri = 'data:application/octet-stream;base64,' + appended.data.toString('base64');
+                } else {
+                    const savedUri = await saveBufferDataAs(document, buffer.uri, appended.data);
+                    if (savedUri === undefined) {
+                        return;
+                    }
+                    buffer.uri = savedUri;
+                }
+                buffer.byteLength = appended.data.length;
+
+                for (let bufferView of glTF.bufferViews || []) {
+                    if (bufferView.buffer >= oldBuffers.length) {
+                        bufferView.byteOffset = (bufferView.byteOffset || 0) + appended.byteOffsets[bufferView.buffer - oldBuffers.length];
+                        bufferView.buffer = 0;
+                    }
+                }
+                glTF.buffers.splice(oldBuffers.length);
+            }
+
+            // The merged glTF only adds to the document, apart from a combined buffer, so only the additions are edited in.
+            let workspaceEdit = new vscode.WorkspaceEdit();
+            workspaceEdit.set(document.uri, getAppendEdits(document, map, '', glTF, new Insertables(textEditor)));
+            await vscode.workspace.applyEdit(workspaceEdit);
+
+            const fileName = path.basename(openUri[0].fsPath);
+            if (result.added.length === 0) {
+                vscode.window.showInformationMessage(`Merged ${fileName}, which has no nodes to place in a scene.`);
+            } else if (parentNode !== undefined) {
+                vscode.window.showInformationMessage(`Merged ${fileName} under Node ${parentNode}, as Nodes ${result.added.join(', ')}.`);
+            } else {
+                vscode.window.showInformationMessage(`Merged ${fileName} as Scenes ${result.added.join(', ')}.`);
+            }
         } catch (ex) {
             vscode.window.showErrorMessage(ex.toString());
         }
     }));
 
     //
-    // Quick Fix: Clear all Joint IDs with zero weight.
+    // Write a node and its descendants, with everything they use, to a standalone glTF or GLB file.
     //
-    context.subscriptions.push(vscode.commands.registerTextEditorCommand('gltf.clearUnusedJoints', async (
-        textEditor: vscode.TextEditor, edit: vscode.TextEditorEdit, diagnostic: vscode.Diagnostic
-    ) => {
-        if (!textEditor) {
+    context.subscriptions.push(vscode.commands.registerCommand('gltf.extractNode', async (outlineNode?: GltfNode) => {
+        const textEditor = gltfWindow.activeTextEditor;
+        if (!checkValidEditor(textEditor)) {
             return;
         }
 
@@ -661,9 +1063,73 @@ export function activate(context: vscode.ExtensionContext): void {
             return;
         }
 
+        if (!checkGltf2(map.data, 'extracted from')) {
+            return;
+        }
+
+        const document = textEditor.document;
+        const nodes = map.data.nodes || [];
+        const getNodeLabel = (index: number) => 'Node ' + index +
+            ((typeof nodes[index].name === 'string' && nodes[index].name.length > 0) ? ` '${nodes[index].name}'` : '');
         try {
-            // Note the provided "edit" is invalid after awaiting the results of a save file dialog.
-            await GltfActionProvider.clearUnusedJoints(diagnostic, map, textEditor);
+            let nodeIndex: number;
+            if (outlineNode && typeof outlineNode.jsonPointer === 'string') {
+                nodeIndex = parseInt(outlineNode.jsonPointer.substring('/nodes/'.length));
+            } else {
+                if (nodes.length === 0) {
+                    vscode.window.showInformationMessage('This document has no nodes to extract.');
+                    return;
+                }
+                const picked = await vscode.window.showQuickPick(nodes.map((node, index) => ({ label: getNodeLabel(index), nodeIndex: index })),
+                    { placeHolder: 'Which node should be extracted, with its descendants?' });
+                if (!picked) {
+                    return;
+                }
+                nodeIndex = picked.nodeIndex;
+            }
+
+            let bakeParentTransform = false;
+            if (nodes.some(node => Array.isArray(node.children) && node.children.indexOf(nodeIndex) >= 0)) {
+                const keep = 'Keep the node\'s own transform';
+                const bake = 'Bake the parents\' world transform into the node';
+                const choice = await vscode.window.showQuickPick([keep, bake], { placeHolder: getNodeLabel(nodeIndex) + ' has a parent' });
+                if (!choice) {
+                    return;
+                }
+                bakeParentTransform = (choice === bake);
+            }
+
+            const name = (typeof nodes[nodeIndex].name === 'string' && nodes[nodeIndex].name.length > 0) ?
+                nodes[nodeIndex].name.replace(/[\\/:*?"<>|]/g, '_') : 'node' + nodeIndex;
+            const saveUri = await vscode.window.showSaveDialog({
+                defaultUri: vscode.Uri.file(path.join(path.dirname(document.fileName), name + '.gltf')),
+                filters: {
+                    'glTF': ['gltf'],
+                    'Binary glTF': ['glb'],
+                    'All files': ['*']
+                }
+            });
+            if (!saveUri) {
+                return;
+            }
+
+            await client.onReady();
+            const result: { glTF: GLTF2.GLTF, removed: string[] } = await client.sendRequest('gltf/extractNode', {
+                textDocument: { uri: client.code2ProtocolConverter.asUri(document.uri) },
+                node: nodeIndex,
+                bakeParentTransform: bakeParentTransform
+            });
+            if (!result) {
+                return;
+            }
+
+            const writtenFiles = writeExtractedGltf(result.glTF, document.fileName, saveUri.fsPath, new Insertables(textEditor).indent);
+            const open = 'Open';
+            const choice = await vscode.window.showInformationMessage('Extracted ' + getNodeLabel(nodeIndex) + ' to ' +
+                writtenFiles.map(fileName => path.basename(fileName)).join(', ') + '.', ...(saveUri.fsPath.toLowerCase().endsWith('.glb') ? [] : [open]));
+            if (choice === open) {
+                await vscode.window.showTextDocument(saveUri);
+            }
         } catch (ex) {
             vscode.window.showErrorMessage(ex.toString());
         }
@@ -818,25 +1284,8 @@ export function activate(context: vscode.ExtensionContext): void {
         }
         const bufferJson = glTF.buffers[bufferIndex];
         const bufferData = getBuffer(glTF, bufferIndex, textEditor.document.fileName);
-        const alignedLength = (value: number) => {
-            const alignValue = 4;
-            if (value === 0) {
-                return value;
-            }
-
-            const multiple = value % alignValue;
-            if (multiple === 0) {
-                return value;
-            }
-
-            return value + (alignValue - multiple);
-        };
-        let bufferOffset = alignedLength(bufferData.length);
-
-        const outputBuffers = [bufferData];
-        if (bufferOffset !== bufferData.length) {
-            outputBuffers.push(new Buffer(bufferOffset - bufferData.length));
-        }
+        let newBufferViews: { buffer: number, byteOffset: number, byteLength: number }[] = [];
+        let parts: Uint8Array[] = [];
 
         for (const accessorType of ['input', 'output']) {
             const values = newData[accessorType];
@@ -871,18 +1320,17 @@ export function activate(context: vscode.ExtensionContext): void {
 
             const newBufferView = {
                 "buffer": bufferIndex,
-                "byteOffset": bufferOffset,
+                "byteOffset": 0,
                 "byteLength": float32Values.byteLength,
             };
             glTF.bufferViews.push(newBufferView);
-            if (alignedLength(float32Values.byteLength) !== float32Values.byteLength) {
-                throw new Error('Float32Array not 4 byte length');
-            }
-            bufferOffset += float32Values.byteLength;
-            outputBuffers.push(Buffer.from(float32Values.buffer as ArrayBuffer));
+            newBufferViews.push(newBufferView);
+            parts.push(new Uint8Array(float32Values.buffer));
         }
 
-        const finalBuffer = Buffer.concat(outputBuffers);
+        const appended = appendToBuffer(bufferData, parts);
+        newBufferViews.forEach((bufferView, index) => bufferView.byteOffset = appended.byteOffsets[index]);
+        const finalBuffer = appended.data;
 
         bufferJson.uri = 'data:application/octet-stream;base64,' + finalBuffer.toString('base64');
         bufferJson.byteLength = finalBuffer.length;
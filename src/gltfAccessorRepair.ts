@@ -0,0 +1,111 @@
+import { GLTF2 } from './GLTF2';
+import { getAccessorElement, setAccessorElement, AccessorTypeToNumComponents } from './utilities';
+
+// This file repairs accessor data in memory: it renormalizes skin weights, vectors and quaternions, and
+// puts animation keyframes in order.  The quick fixes that use it read the data and save the results.
+
+/**
+ * The largest stored value of a normalized unsigned accessor, which represents 1.0, or `undefined` for other accessors.
+ */
+function getUnsignedNormalizedScale(accessor: GLTF2.Accessor): number | undefined {
+    if (accessor.normalized) {
+        switch (accessor.componentType) {
+            case GLTF2.AccessorComponentType.UNSIGNED_BYTE: return 255;
+            case GLTF2.AccessorComponentType.UNSIGNED_SHORT: return 65535;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Scale the weights of each vertex so that they sum to one.  When all weights are normalized unsigned bytes
+ * or shorts of the same type, the quantized weights are rounded so that their stored values sum exactly to
+ * the value that represents 1.0, with any remainder going to the weights that lost the most to rounding.
+ */
+export function renormalizeWeights(accessors: GLTF2.Accessor[], datas: ArrayLike<number>[]): void {
+    const numComponents = 4;
+    const scale = getUnsignedNormalizedScale(accessors[0]);
+    const isQuantized = scale !== undefined && accessors.every(accessor => accessor.componentType === accessors[0].componentType &&
+        getUnsignedNormalizedScale(accessor) === scale);
+
+    for (let i = 0; i < accessors[0].count; ++i) {
+        let weights: number[] = [];
+        accessors.forEach((accessor, a) => {
+            weights = weights.concat(getAccessorElement(datas[a], i, numComponents, accessor.componentType, accessor.normalized));
+        });
+        const sum = weights.reduce((total, weight) => total + weight, 0);
+        if (!(sum > 0)) {
+            continue;
+        }
+
+        if (isQuantized) {
+            const exact = weights.map(weight => weight / sum * scale);
+            let quantized = exact.map(Math.floor);
+            let remainder = scale - quantized.reduce((total, value) => total + value, 0);
+            const order = exact.map((value, index) => index).sort((a, b) => (exact[b] - quantized[b]) - (exact[a] - quantized[a]));
+            for (let k = 0; remainder > 0; ++k, --remainder) {
+                ++quantized[order[k % order.length]];
+            }
+            weights = quantized.map(value => value / scale);
+        } else {
+            weights = weights.map(weight => weight / sum);
+        }
+
+        accessors.forEach((accessor, a) => {
+            setAccessorElement(datas[a], i, numComponents, accessor.componentType, accessor.normalized,
+                weights.slice(a * numComponents, (a + 1) * numComponents));
+        });
+    }
+}
+
+/**
+ * Scale the first few components of each element to unit length, such as the `xyz` of a tangent,
+ * or all four components of a rotation quaternion.
+ */
+export function renormalizeVectors(accessor: GLTF2.Accessor, data: ArrayLike<number>, numVectorComponents: number): void {
+    const numComponents = AccessorTypeToNumComponents[accessor.type];
+    for (let i = 0; i < accessor.count; ++i) {
+        let values = getAccessorElement(data, i, numComponents, accessor.componentType, accessor.normalized);
+        let length = 0;
+        for (let c = 0; c < numVectorComponents; ++c) {
+            length += values[c] * values[c];
+        }
+        length = Math.sqrt(length);
+        if (!(length > 0)) {
+            continue;
+        }
+        for (let c = 0; c < numVectorComponents; ++c) {
+            values[c] /= length;
+        }
+        setAccessorElement(data, i, numComponents, accessor.componentType, accessor.normalized, values);
+    }
+}
+
+/**
+ * Choose which keyframes to keep, and in what order, so that their times are non-negative and strictly
+ * increasing.  Keyframes are sorted by time, keeping the first of any with the same time.
+ */
+export function getKeyframeOrder(times: ArrayLike<number>): number[] {
+    let order: number[] = [];
+    for (let i = 0; i < times.length; ++i) {
+        if (times[i] >= 0) {
+            order.push(i);
+        }
+    }
+    order.sort((a, b) => (times[a] - times[b]) || (a - b));
+    return order.filter((keyframe, index) => index === 0 || times[keyframe] > times[order[index - 1]]);
+}
+
+/**
+ * Reorder the elements of an accessor's data, moving each keyframe's block of elements together.
+ */
+export function reorderAccessorData(data: ArrayLike<number>, numComponents: number, entriesPerKeyframe: number, order: number[]): number[] {
+    const blockSize = numComponents * entriesPerKeyframe;
+    let newData = new Array<number>(order.length * blockSize);
+    order.forEach((keyframe, index) => {
+        for (let j = 0; j < blockSize; ++j) {
+            newData[index * blockSize + j] = data[keyframe * blockSize + j];
+        }
+    });
+    return newData;
+}
@@ -1,539 +1,2003 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
-import * as Url from 'url';
-import * as fs from 'fs';
-import { JsonMap, getFromJsonPointer, getAccessorData, getAccessorElement, setAccessorElement } from './utilities';
-import { clearRangeOfJsonKey, getBestKeyFromDiagnostic, getInsertPointForKey, Insertables } from './editorUtilities';
+import { LanguageClient, TextEdit } from 'vscode-languageclient';
+import { JsonMap, parseJsonMap, getFromJsonPointer, getAccessorData, getSparseAccessorData, getAccessorElement, setAccessorElement, writeAccessorData,
+    appendToBuffer, encodeAccessorData, getTriangles, AccessorTypeToNumComponents, ComponentTypeToBytesPerElement } from './utilities';
+import { generateTangents } from './gltfTangents';
+import { computeSmoothNormals, computeFlatNormals } from './gltfNormals';
+import { renormalizeWeights, renormalizeVectors, getKeyframeOrder, reorderAccessorData } from './gltfAccessorRepair';
+import { clearRangeOfJsonKey, clearRangesOfArrayEntries, getBestKeyFromDiagnostic, getInsertPointForKey, getSetKeyValueEdit, Insertables, saveBufferDataAs } from './editorUtilities';
 import { GLTF2 } from './GLTF2';
+import { getBuffer } from 'gltf-import-export';
 
-// This file offers "Quick Fixes" for select validation issues.
+// This file offers "Quick Fixes" for select validation issues.  Each fix is registered for one issue code,
+// and can fix a single issue, and optionally every issue with its code in the file.  Fixes that are safe to
+// apply without review also take part in the `source.fixAll.gltf` code action, which can run on save.  Some fixes
+// are also offered as refactorings wherever they apply, such as on any node with a transform.
 
 const GLTF_VALIDATOR = 'glTF Validator';
+const GLTF_LANGUAGE_SERVER = 'glTF Language Server';
 const UNDECLARED_EXTENSION = 'UNDECLARED_EXTENSION';
+const UNUSED_EXTENSION_REQUIRED = 'UNUSED_EXTENSION_REQUIRED';
+const NON_REQUIRED_EXTENSION = 'NON_REQUIRED_EXTENSION';
 const BUFFER_VIEW_TARGET_MISSING = 'BUFFER_VIEW_TARGET_MISSING';
 const ANIMATION_SAMPLER_ACCESSOR_WITH_BYTESTRIDE = 'ANIMATION_SAMPLER_ACCESSOR_WITH_BYTESTRIDE';
 const ACCESSOR_JOINTS_USED_ZERO_WEIGHT = 'ACCESSOR_JOINTS_USED_ZERO_WEIGHT';
+const UNUSED_OBJECT = 'UNUSED_OBJECT';
+const IMAGE_MIME_TYPE_INVALID = 'IMAGE_MIME_TYPE_INVALID';
+const BUFFER_BYTE_LENGTH_MISMATCH = 'BUFFER_BYTE_LENGTH_MISMATCH';
+const ACCESSOR_MIN_MISMATCH = 'ACCESSOR_MIN_MISMATCH';
+const ACCESSOR_MAX_MISMATCH = 'ACCESSOR_MAX_MISMATCH';
+const ACCESSOR_ELEMENT_OUT_OF_MIN_BOUND = 'ACCESSOR_ELEMENT_OUT_OF_MIN_BOUND';
+const ACCESSOR_ELEMENT_OUT_OF_MAX_BOUND = 'ACCESSOR_ELEMENT_OUT_OF_MAX_BOUND';
+const ACCESSOR_WEIGHTS_NON_NORMALIZED = 'ACCESSOR_WEIGHTS_NON_NORMALIZED';
+const ACCESSOR_VECTOR3_NON_UNIT = 'ACCESSOR_VECTOR3_NON_UNIT';
+const ACCESSOR_ANIMATION_SAMPLER_OUTPUT_NON_NORMALIZED_QUATERNION = 'ACCESSOR_ANIMATION_SAMPLER_OUTPUT_NON_NORMALIZED_QUATERNION';
+const ACCESSOR_ANIMATION_INPUT_NON_INCREASING = 'ACCESSOR_ANIMATION_INPUT_NON_INCREASING';
+const ACCESSOR_ANIMATION_INPUT_NEGATIVE = 'ACCESSOR_ANIMATION_INPUT_NEGATIVE';
+const NODE_MATRIX_TRS = 'NODE_MATRIX_TRS';
+const NODE_MATRIX_NON_TRS = 'NODE_MATRIX_NON_TRS';
+const NODE_MATRIX_DEFAULT = 'NODE_MATRIX_DEFAULT';
+const MESH_PRIMITIVE_GENERATED_TANGENT_SPACE = 'MESH_PRIMITIVE_GENERATED_TANGENT_SPACE';
 const ADD_EXTENSION = 'Add Extension to \'extensionsUsed\'';
+const ADD_ALL_EXTENSIONS = 'Add all undeclared extensions to \'extensionsUsed\'';
+const FIX_REQUIRED_EXTENSION = 'Declare this required extension in \'extensionsUsed\', or stop requiring it';
+const FIX_ALL_REQUIRED_EXTENSIONS = 'Fix all of \'extensionsRequired\' to match \'extensionsUsed\'';
+const REQUIRE_EXTENSION = 'Add Extension to \'extensionsRequired\'';
+const REQUIRE_ALL_EXTENSIONS = 'Add all extensions that cannot be optional to \'extensionsRequired\'';
 const ADD_BUFFER_VIEW_TARGET = 'Add target for this bufferView';
 const ADD_ALL_BUFFER_VIEW_TARGETS = 'Add all needed targets for all bufferViews in this file';
 const CLEAR_ANIMATION_BYTESTRIDE = 'Clear byteStride for this animation\'s bufferView';
 const CLEAR_ALL_ANIMATION_BYTESTRIDES = 'Clear byteStrides for all animation bufferViews in this file';
 const CLEAR_UNUSED_JOINTS = 'Clear Joint IDs with Zero Weight';
+const DELETE_UNUSED_OBJECT = 'Delete this unused object and update references';
+const DELETE_ALL_UNUSED_OBJECTS = 'Delete all unused objects in this file and update references';
+const FIX_IMAGE_MIME_TYPE = 'Change mimeType to match the image data';
+const FIX_ALL_IMAGE_MIME_TYPES = 'Change all image mimeTypes in this file to match their data';
+const FIX_BUFFER_BYTE_LENGTH = 'Change byteLength to match the buffer data';
+const FIX_ALL_BUFFER_BYTE_LENGTHS = 'Change all buffer byteLengths in this file to match their data';
+const RECOMPUTE_ACCESSOR_BOUNDS = 'Recompute min and max of this accessor from its data';
+const RECOMPUTE_ALL_ACCESSOR_BOUNDS = 'Recompute min and max of all accessors in this file from their data';
+const RENORMALIZE_ACCESSOR = 'Renormalize the data of this accessor';
+const RENORMALIZE_ALL_ACCESSORS = 'Renormalize the data of all reported accessors in this file';
+const REPAIR_ANIMATION_INPUT = 'Sort keyframes by time, dropping duplicate and negative times';
+const REPAIR_ALL_ANIMATION_INPUTS = 'Sort keyframes by time in all reported animation inputs in this file';
+const DECOMPOSE_NODE_MATRIX = 'Decompose matrix into translation, rotation and scale';
+const COMPOSE_NODE_MATRIX = 'Compose translation, rotation and scale into a matrix';
+const REMOVE_DEFAULT_NODE_TRANSFORM = 'Remove default transform properties';
+const GENERATE_TANGENTS = 'Generate MikkTSpace tangents for this primitive';
+const GENERATE_ALL_TANGENTS = 'Generate MikkTSpace tangents for all normal-mapped primitives in this file';
+
+/**
+ * What a quick fix has to work with.  Fixes add their changes to `edit`, which is applied once the fix returns.
+ */
+export interface QuickFixContext {
+    textEditor: vscode.TextEditor;
+    map: JsonMap<GLTF2.GLTF>;
+    edit: vscode.WorkspaceEdit;
+    client: LanguageClient;
+}
+
+/**
+ * A fix for all issues with the given codes.
+ */
+export interface QuickFix {
+    /** The issue codes that this fixes. */
+    codes: string[];
+    /** The title of the fix for a single issue. */
+    title: string;
+    tooltip?: string;
+    /** The command that fixes a single issue, given its diagnostic, or else the issue under the cursor. */
+    command: string;
+    fix: (context: QuickFixContext, diagnostic: vscode.Diagnostic) => void | Promise<void>;
+    /** The title of the fix for every issue with this code in the file. */
+    fixAllTitle?: string;
+    fixAllCommand?: string;
+    fixAll?: (context: QuickFixContext, diagnostics: vscode.Diagnostic[]) => void | Promise<void>;
+    /**
+     * Whether `fixAll` is safe to apply without review, as part of `source.fixAll.gltf`.  A function is applied
+     * on save instead of `fixAll`, for fixes whose `fixAll` does more than fix the issues reported.
+     */
+    fixOnSave?: boolean | ((context: QuickFixContext, diagnostics: vscode.Diagnostic[]) => void | Promise<void>);
+    /** Whether the fix can also be offered as a refactoring of the text in a range, where no issue is reported. */
+    canRefactor?: (document: vscode.TextDocument, map: JsonMap<GLTF2.GLTF>, range: vscode.Range) => boolean;
+}
+
+const quickFixes = new Map<string, QuickFix>();
+const refactorings: QuickFix[] = [];
+
+/**
+ * Add a quick fix to those offered for glTF issues, replacing any fix already registered for its codes.
+ * Each fix's commands are registered when the extension activates.
+ *
+ * @param quickFix The fix to offer
+ */
+export function registerQuickFix(quickFix: QuickFix): void {
+    quickFix.codes.forEach(code => quickFixes.set(code, quickFix));
+    if (quickFix.canRefactor) {
+        refactorings.push(quickFix);
+    }
+}
+
+function getDiagnosticCode(diagnostic: vscode.Diagnostic): string {
+    const code = diagnostic.code;
+    if (code === undefined) {
+        return undefined;
+    }
+    return (typeof code === 'object') ? code.value.toString() : code.toString();
+}
+
+/**
+ * Find the diagnostics of a document that have a registered quick fix, optionally limited to those of one fix.
+ */
+function getFixableDiagnostics(diagnostics: readonly vscode.Diagnostic[], quickFix?: QuickFix): vscode.Diagnostic[] {
+    return diagnostics.filter(diagnostic => {
+        const diagnosticCode = getDiagnosticCode(diagnostic);
+        return (diagnostic.source === GLTF_VALIDATOR || diagnostic.source === GLTF_LANGUAGE_SERVER) &&
+            quickFixes.has(diagnosticCode) && (quickFix === undefined || quickFixes.get(diagnosticCode) === quickFix);
+    });
+}
+
+/**
+ * Determine whether two edits of the same document touch the same text, so they cannot be applied together.
+ * Two insertions at the same position conflict too: fixes that each add names to `extensionsUsed` insert at
+ * the same place, and applying both could add a name twice, or create the list twice.
+ */
+function editsOverlap(a: vscode.TextEdit, b: vscode.TextEdit): boolean {
+    if (a.range.isEmpty && b.range.isEmpty) {
+        return a.range.start.isEqual(b.range.start);
+    }
+    return a.range.start.isBefore(b.range.end) && b.range.start.isBefore(a.range.end);
+}
 
 export class GltfActionProvider implements vscode.CodeActionProvider {
 
+    public static readonly fixAllKind = vscode.CodeActionKind.SourceFixAll.append('gltf');
+
     public static readonly providedCodeActionKinds = [
-        vscode.CodeActionKind.QuickFix
+        vscode.CodeActionKind.QuickFix,
+        vscode.CodeActionKind.RefactorRewrite,
+        GltfActionProvider.fixAllKind
     ];
 
-    public static readonly supportedCodes = [
-        UNDECLARED_EXTENSION,
-        BUFFER_VIEW_TARGET_MISSING,
-        ANIMATION_SAMPLER_ACCESSOR_WITH_BYTESTRIDE,
-        ACCESSOR_JOINTS_USED_ZERO_WEIGHT
-    ];
+    constructor(private client: LanguageClient) { }
 
-    provideCodeActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection, context: vscode.CodeActionContext, token: vscode.CancellationToken): vscode.CodeAction[] {
-        // For each diagnostic entry that has the matching `code`, create a code action command.
-        // Only allow one QuickFix per code.
-        let actions : vscode.CodeAction[] = [];
-        let diagnosticHash = context.diagnostics
-            .filter(diagnostic => diagnostic.source === GLTF_VALIDATOR && GltfActionProvider.supportedCodes.indexOf(diagnostic.code.toString()) >= 0)
-            .reduce((ob, diagnostic) => {
-                let code = diagnostic.code.toString();
-                if (!ob[code]) {
-                    ob[code] = diagnostic;
-                }
-                return ob;
-            }, {});
+    /**
+     * The registered quick fixes, in order of registration, including those only offered as refactorings.
+     */
+    public static get quickFixes(): QuickFix[] {
+        return Array.from(new Set(Array.from(quickFixes.values()).concat(refactorings)));
+    }
 
-        for (let code in diagnosticHash) {
-            if (diagnosticHash.hasOwnProperty(code)) {
-                this.createCommandFromDiagnostic(diagnosticHash[code]).forEach(c => actions.push(c));
+    async provideCodeActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection, context: vscode.CodeActionContext, token: vscode.CancellationToken): Promise<vscode.CodeAction[]> {
+        let actions: vscode.CodeAction[] = [];
+        const fileDiagnostics = getFixableDiagnostics(vscode.languages.getDiagnostics(document.uri));
+
+        // For each diagnostic entry that has a registered `code`, create a code action command.
+        // Only allow one QuickFix per fix, plus one to fix every issue with its codes in the file.
+        // The language server reports some of the same codes when the glTF Validator is not running.
+        let diagnosticHash = new Map<QuickFix, vscode.Diagnostic>();
+        for (let diagnostic of getFixableDiagnostics(context.diagnostics)) {
+            const quickFix = quickFixes.get(getDiagnosticCode(diagnostic));
+            if (!diagnosticHash.has(quickFix)) {
+                diagnosticHash.set(quickFix, diagnostic);
             }
         }
+
+        diagnosticHash.forEach((diagnostic, quickFix) => {
+            actions.push(this.createCommandFix(quickFix, diagnostic));
+            const fixDiagnostics = getFixableDiagnostics(fileDiagnostics, quickFix);
+            if (quickFix.fixAll && fixDiagnostics.length > 1) {
+                actions.push(this.createCommandFixAll(quickFix, fixDiagnostics));
+            }
+        });
+
+        // Some fixes are also offered as refactorings wherever they apply, unless already offered for an issue here.
+        if (!context.only || context.only.contains(vscode.CodeActionKind.RefactorRewrite)) {
+            const refactorFixes = refactorings.filter(quickFix => !diagnosticHash.has(quickFix));
+            if (refactorFixes.length > 0) {
+                actions = actions.concat(this.createRefactorings(document, range, refactorFixes));
+            }
+        }
+
+        // The fix-all action is only composed when asked for, such as on save, since it must compute its edits up front.
+        if (context.only && context.only.contains(GltfActionProvider.fixAllKind)) {
+            const fixAllAction = await this.createFixAllAction(document, fileDiagnostics);
+            if (fixAllAction && !token.isCancellationRequested) {
+                actions.push(fixAllAction);
+            }
+        }
+
         return actions;
     }
 
-    private createCommandFromDiagnostic(diagnostic: vscode.Diagnostic): vscode.CodeAction[] {
-        switch (diagnostic.code) {
-            case UNDECLARED_EXTENSION:
-                return [
-                    this.createCommandDeclareExtension(diagnostic)
-                ];
-            case BUFFER_VIEW_TARGET_MISSING:
-                return [
-                    this.createCommandAddTarget(diagnostic),
-                    this.createCommandAddAllTargets(diagnostic)
-                ];
-            case ANIMATION_SAMPLER_ACCESSOR_WITH_BYTESTRIDE:
-                return [
-                    this.createCommandClearByteStride(diagnostic),
-                    this.createCommandClearAllByteStrides(diagnostic)
-                ];
-            case ACCESSOR_JOINTS_USED_ZERO_WEIGHT:
-                return [
-                    this.createCommandClearUnusedJoints(diagnostic)
-                ];
-            default:
-                throw new Error("Invalid diagnostic code.");
-        }
-    }
-
-    /////////////////////////////////////////////////////////////////
-    // UNDECLARED_EXTENSION
-
-    private createCommandDeclareExtension(diagnostic: vscode.Diagnostic): vscode.CodeAction {
-        const action = new vscode.CodeAction(ADD_EXTENSION, vscode.CodeActionKind.QuickFix);
+    private createCommandFix(quickFix: QuickFix, diagnostic: vscode.Diagnostic): vscode.CodeAction {
+        const action = new vscode.CodeAction(quickFix.title, vscode.CodeActionKind.QuickFix);
         action.command = {
-            command: 'gltf.declareExtension',
+            command: quickFix.command,
             arguments: [diagnostic],
-            title: ADD_EXTENSION,
-            tooltip: 'Add this extension to the extensionsUsed array.'
+            title: quickFix.title,
+            tooltip: quickFix.tooltip
         };
         action.diagnostics = [diagnostic];
         action.isPreferred = true;
         return action;
     }
 
-    public static declareExtension(diagnostic: vscode.Diagnostic, map: JsonMap<GLTF2.GLTF>,
-        textEditor: vscode.TextEditor, edit: vscode.TextEditorEdit): void {
-        const document = textEditor.document;
-        const pointers = map.pointers;
-        let bestKey = getBestKeyFromDiagnostic(diagnostic, map, textEditor);
-        let pos = bestKey.lastIndexOf('/extensions/');
-        if (pos < 0) {
-            throw new Error("This quick-fix command should be used on a glTF extension.");
+    private createCommandFixAll(quickFix: QuickFix, diagnostics: vscode.Diagnostic[]): vscode.CodeAction {
+        const action = new vscode.CodeAction(quickFix.fixAllTitle, vscode.CodeActionKind.QuickFix);
+        action.command = {
+            command: quickFix.fixAllCommand,
+            arguments: [diagnostics],
+            title: quickFix.fixAllTitle
+        };
+        action.diagnostics = diagnostics;
+        return action;
+    }
+
+    /**
+     * Offer fixes as refactorings where they apply.  These run their commands with no diagnostic,
+     * so they act on the text under the cursor.
+     */
+    private createRefactorings(document: vscode.TextDocument, range: vscode.Range, refactorFixes: QuickFix[]): vscode.CodeAction[] {
+        let map: JsonMap<GLTF2.GLTF>;
+        try {
+            map = parseJsonMap(document.getText());
+        } catch (ex) {
+            return [];
         }
 
-        let extensionName = bestKey.substring(pos + 12);
-        let pos2 = extensionName.indexOf('/');
-        if (pos2 >= 0)
-        {
-            extensionName = extensionName.substring(0, pos2);
+        return refactorFixes.filter(quickFix => quickFix.canRefactor(document, map, range)).map(quickFix => {
+            const action = new vscode.CodeAction(quickFix.title, vscode.CodeActionKind.RefactorRewrite);
+            action.command = {
+                command: quickFix.command,
+                title: quickFix.title,
+                tooltip: quickFix.tooltip
+            };
+            return action;
+        });
+    }
+
+    /**
+     * Compose a single edit from every fix that can run on save.  Where two fixes would edit the same
+     * text, the later fix is left out, and its issues remain for the next time.
+     */
+    private async createFixAllAction(document: vscode.TextDocument, fileDiagnostics: vscode.Diagnostic[]): Promise<vscode.CodeAction> {
+        const textEditor = vscode.window.visibleTextEditors.find(editor => editor.document === document);
+        if (!textEditor || fileDiagnostics.length === 0) {
+            return undefined;
         }
 
-        if (extensionName === '') {
-            throw new Error("Extension name cannot be blank.");
+        let map: JsonMap<GLTF2.GLTF>;
+        try {
+            map = parseJsonMap(document.getText());
+        } catch (ex) {
+            return undefined;
         }
 
-        // Now we know the extension name.  Figure out if there's already
-        // an "extensionsUsed" block, create one if not, and add the extension name to it.
-        const insertables = new Insertables(textEditor);
-        const eol = insertables.eol;
-        const indent = insertables.indent;
-        let insertPos = -1;
-        let newJson: string;
+        let edits: vscode.TextEdit[] = [];
+        let fixedDiagnostics: vscode.Diagnostic[] = [];
+        for (let quickFix of GltfActionProvider.quickFixes) {
+            const diagnostics = getFixableDiagnostics(fileDiagnostics, quickFix);
+            const fixOnSave = (typeof quickFix.fixOnSave === 'function') ? quickFix.fixOnSave : quickFix.fixOnSave && quickFix.fixAll;
+            if (!fixOnSave || diagnostics.length === 0) {
+                continue;
+            }
 
-        if (pointers['/extensionsUsed'] !== undefined) {
-            // Add extension name to existing extensionsUsed list.
+            const edit = new vscode.WorkspaceEdit();
+            try {
+                await fixOnSave({ textEditor: textEditor, map: map, edit: edit, client: this.client }, diagnostics);
+            } catch (ex) {
+                continue;
+            }
 
-            for (let key of Object.keys(pointers)) {
-                if (key.startsWith('/extensionsUsed/')) {
-                    insertPos = Math.max(insertPos, pointers[key].valueEnd.pos);
-                }
+            const fixEdits = edit.get(document.uri);
+            const acceptedEdits = edits;
+            if (!fixEdits.some(fixEdit => acceptedEdits.some(accepted => editsOverlap(fixEdit, accepted)))) {
+                edits = edits.concat(fixEdits);
+                fixedDiagnostics = fixedDiagnostics.concat(diagnostics);
             }
+        }
 
-            newJson =
-                ',' + eol +
-                indent + indent + '"' + extensionName + '"';
+        if (edits.length === 0) {
+            return undefined;
+        }
 
-            if (insertPos < 0) {
-                // This block only executes if "extensionsUsed" is an empty array,
-                // which is invalid glTF, but possible in the editor.
-                insertPos = pointers['/extensionsUsed'].value.pos + 1;
-                newJson = newJson.substring(1);
-            }
+        const action = new vscode.CodeAction('Fix all glTF issues that can be fixed automatically', GltfActionProvider.fixAllKind);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.set(document.uri, edits);
+        action.diagnostics = fixedDiagnostics;
+        return action;
+    }
 
-        } else {
-            // Create a new extensionsUsed section.
+    /**
+     * Apply a quick fix to a single issue.  When no diagnostic is given, such as when the command
+     * is run from the command palette, the issue under the cursor is fixed.
+     *
+     * @param client The language client
+     * @param textEditor The editor of the glTF document
+     * @param map The JSON map of the document
+     * @param quickFix The fix to apply
+     * @param diagnostic The diagnostic of the issue to fix
+     */
+    public static async fix(client: LanguageClient, textEditor: vscode.TextEditor, map: JsonMap<GLTF2.GLTF>,
+        quickFix: QuickFix, diagnostic?: vscode.Diagnostic): Promise<void> {
+        if (!diagnostic) {
+            const cursor = textEditor.selection.active;
+            diagnostic = getFixableDiagnostics(vscode.languages.getDiagnostics(textEditor.document.uri), quickFix)
+                .find(candidate => candidate.range.contains(cursor));
+        }
 
-            for (let key of Object.keys(pointers)) {
-                if (key.length > 2) {
-                    insertPos = Math.max(insertPos, pointers[key].valueEnd.pos);
-                }
-            }
+        const edit = new vscode.WorkspaceEdit();
+        await quickFix.fix({ textEditor: textEditor, map: map, edit: edit, client: client }, diagnostic);
+        if (edit.size > 0) {
+            await vscode.workspace.applyEdit(edit);
+        }
+    }
+
+    /**
+     * Recompute the normals of a mesh primitive, asking whether they should be smooth or flat.
+     *
+     * @param client The language client
+     * @param textEditor The editor of the glTF document
+     * @param map The JSON map of the document
+     * @param primitiveKey The JSON pointer of the mesh primitive
+     */
+    public static async recomputeNormals(client: LanguageClient, textEditor: vscode.TextEditor, map: JsonMap<GLTF2.GLTF>,
+        primitiveKey: string): Promise<void> {
+        const edit = new vscode.WorkspaceEdit();
+        await recomputePrimitiveNormals({ textEditor: textEditor, map: map, edit: edit, client: client }, primitiveKey);
+        if (edit.size > 0) {
+            await vscode.workspace.applyEdit(edit);
+        }
+    }
 
-            newJson =
-                ',' + eol +
-                indent + '"extensionsUsed": [' + eol +
-                indent + indent + '"' + extensionName + '"' + eol +
-                indent + ']';
+    /**
+     * Apply a quick fix to every issue with its code in a document.
+     *
+     * @param client The language client
+     * @param textEditor The editor of the glTF document
+     * @param map The JSON map of the document
+     * @param quickFix The fix to apply
+     * @param diagnostics The diagnostics of the issues to fix, or else all of those in the document with the fix's code
+     */
+    public static async fixAll(client: LanguageClient, textEditor: vscode.TextEditor, map: JsonMap<GLTF2.GLTF>,
+        quickFix: QuickFix, diagnostics?: vscode.Diagnostic[]): Promise<void> {
+        if (!diagnostics) {
+            diagnostics = getFixableDiagnostics(vscode.languages.getDiagnostics(textEditor.document.uri), quickFix);
         }
 
-        edit.insert(document.positionAt(insertPos), newJson);
+        const edit = new vscode.WorkspaceEdit();
+        await quickFix.fixAll({ textEditor: textEditor, map: map, edit: edit, client: client }, diagnostics);
+        if (edit.size > 0) {
+            await vscode.workspace.applyEdit(edit);
+        }
     }
+}
 
-    /////////////////////////////////////////////////////////////////
-    // BUFFER_VIEW_TARGET_MISSING
+/**
+ * Find the innermost JSON pointer matching a pattern whose value contains a diagnostic,
+ * such as `/images/2` for an issue reported on that image or on one of its properties.
+ */
+function getKeyContainingDiagnostic(document: vscode.TextDocument, map: JsonMap<GLTF2.GLTF>,
+    diagnostic: vscode.Diagnostic, pattern: RegExp): string | undefined {
+    if (!diagnostic) {
+        return undefined;
+    }
+    return getKeyContainingRange(document, map, diagnostic.range, pattern);
+}
 
-    private createCommandAddTarget(diagnostic: vscode.Diagnostic): vscode.CodeAction {
-        const action = new vscode.CodeAction(ADD_BUFFER_VIEW_TARGET, vscode.CodeActionKind.QuickFix);
-        action.command = {
-            command: 'gltf.addBufferViewTarget',
-            arguments: [diagnostic],
-            title: ADD_BUFFER_VIEW_TARGET,
-            tooltip: 'Add a target to the bufferView based on attribute type.'
-        };
-        action.diagnostics = [diagnostic];
-        action.isPreferred = true;
-        return action;
+/**
+ * Find the innermost JSON pointer matching a pattern whose value contains a range of the document.
+ */
+function getKeyContainingRange(document: vscode.TextDocument, map: JsonMap<GLTF2.GLTF>,
+    range: vscode.Range, pattern: RegExp): string | undefined {
+    let bestKey: string;
+    for (let key of Object.keys(map.pointers)) {
+        const pointer = map.pointers[key];
+        if (pattern.test(key) &&
+            new vscode.Range(document.positionAt(pointer.value.pos), document.positionAt(pointer.valueEnd.pos)).contains(range)) {
+            bestKey = key;
+        }
+    }
+    return bestKey;
+}
+
+/**
+ * Read the values that the glTF Validator quotes in an issue's message, such as the extension name in
+ * "Extension 'KHR_draco_mesh_compression' cannot be optional."
+ */
+function getQuotedValues(diagnostic: vscode.Diagnostic): string[] {
+    let values: string[] = [];
+    const regex = /'([^']*)'/g;
+    let match: RegExpExecArray;
+    while ((match = regex.exec(diagnostic.message)) !== null) {
+        values.push(match[1]);
     }
+    return values;
+}
+
+/**
+ * Replace the value of a key of an object, or add the key if the object does not have it yet.
+ */
+function setKeyValue(context: QuickFixContext, objectKey: string, keyName: string, newValue: string): void {
+    const document = context.textEditor.document;
+    const edit = getSetKeyValueEdit(document, context.map, objectKey, keyName, newValue, new Insertables(context.textEditor));
+    context.edit.replace(document.uri, edit.range, edit.newText);
+}
+
+/////////////////////////////////////////////////////////////////
+// UNDECLARED_EXTENSION
 
-    public static addBufferViewTarget(diagnostic: vscode.Diagnostic, map: JsonMap<GLTF2.GLTF>,
-        textEditor: vscode.TextEditor, edit: vscode.TextEditorEdit): void {
-        const document = textEditor.document;
-        let bestKey = getBestKeyFromDiagnostic(diagnostic, map, textEditor);
+function getUndeclaredExtensionName(context: QuickFixContext, diagnostic: vscode.Diagnostic): string {
+    let bestKey = getBestKeyFromDiagnostic(diagnostic, context.map, context.textEditor);
+    let pos = bestKey.lastIndexOf('/extensions/');
+    if (pos < 0) {
+        throw new Error("This quick-fix command should be used on a glTF extension.");
+    }
 
-        if (bestKey.indexOf('primitives') < 0) {
-            throw new Error("This quick-fix command should be used on a mesh primitive that lacks a bufferView target.");
+    let extensionName = bestKey.substring(pos + 12);
+    let pos2 = extensionName.indexOf('/');
+    if (pos2 >= 0)
+    {
+        extensionName = extensionName.substring(0, pos2);
+    }
+
+    if (extensionName === '') {
+        throw new Error("Extension name cannot be blank.");
+    }
+
+    return extensionName.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/**
+ * Add extension names to `extensionsUsed` or `extensionsRequired`, creating the list if needed.
+ * Names already in the list are skipped.
+ */
+function addExtensionNames(context: QuickFixContext, listName: string, extensionNames: string[]): void {
+    const document = context.textEditor.document;
+    const pointers = context.map.pointers;
+    const listKey = '/' + listName;
+    const existingNames: string[] = Array.isArray(context.map.data[listName]) ? context.map.data[listName] : [];
+    extensionNames = extensionNames.filter((name, index) => extensionNames.indexOf(name) === index && existingNames.indexOf(name) < 0);
+    if (extensionNames.length === 0) {
+        return;
+    }
+
+    // Figure out if there's already a list, create one if not, and add the extension names to it.
+    const insertables = new Insertables(context.textEditor);
+    const eol = insertables.eol;
+    const indent = insertables.indent;
+    const namesJson = extensionNames.map(name => indent + indent + JSON.stringify(name)).join(',' + eol);
+    let insertPos = -1;
+    let newJson: string;
+
+    if (pointers[listKey] !== undefined) {
+        // Add extension names to the existing list.
+
+        for (let key of Object.keys(pointers)) {
+            if (key.startsWith(listKey + '/')) {
+                insertPos = Math.max(insertPos, pointers[key].valueEnd.pos);
+            }
         }
 
-        let gltf = map.data;
-        let accessorId = getFromJsonPointer(gltf, bestKey);
-        let bufferViewId = gltf.accessors[accessorId].bufferView;
-        let bufferViewKey = '/bufferViews/' + bufferViewId;
-        if (map.pointers.hasOwnProperty(bufferViewKey + '/target')) {
-            throw new Error("This bufferView already has a target set.");
+        newJson = ',' + eol + namesJson;
+
+        if (insertPos < 0) {
+            // This block only executes if the list is an empty array,
+            // which is invalid glTF, but possible in the editor.
+            insertPos = pointers[listKey].value.pos + 1;
+            newJson = newJson.substring(1);
         }
-        let insertPos = getInsertPointForKey(map, bufferViewKey);
 
-        const insertables = new Insertables(textEditor);
-        const eol = insertables.eol;
-        const indent = insertables.indent;
-        let newJson: string;
+    } else {
+        // Create a new list.
 
-        if (bestKey.endsWith('/indices')) {
-            newJson = ',' + eol + indent + indent + indent + '"target": 34963'; // ELEMENT_ARRAY_BUFFER for indices
-        } else {
-            newJson = ',' + eol + indent + indent + indent + '"target": 34962'; // ARRAY_BUFFER for vertex attributes
+        for (let key of Object.keys(pointers)) {
+            if (key.length > 2) {
+                insertPos = Math.max(insertPos, pointers[key].valueEnd.pos);
+            }
         }
 
-        edit.insert(document.positionAt(insertPos), newJson);
+        newJson =
+            ',' + eol +
+            indent + '"' + listName + '": [' + eol +
+            namesJson + eol +
+            indent + ']';
     }
 
-    private createCommandAddAllTargets(diagnostic: vscode.Diagnostic): vscode.CodeAction {
-        const action = new vscode.CodeAction(ADD_ALL_BUFFER_VIEW_TARGETS, vscode.CodeActionKind.QuickFix);
-        action.command = {
-            command: 'gltf.addAllBufferViewTargets',
-            arguments: [diagnostic],
-            title: ADD_ALL_BUFFER_VIEW_TARGETS,
-            tooltip: 'Add targets to all bufferViews that require them.'
-        };
-        action.diagnostics = [diagnostic];
-        action.isPreferred = true;
-        return action;
+    context.edit.insert(document.uri, document.positionAt(insertPos), newJson);
+}
+
+registerQuickFix({
+    codes: [UNDECLARED_EXTENSION],
+    title: ADD_EXTENSION,
+    tooltip: 'Add this extension to the extensionsUsed array.',
+    command: 'gltf.declareExtension',
+    fix: (context, diagnostic) => addExtensionNames(context, 'extensionsUsed', [getUndeclaredExtensionName(context, diagnostic)]),
+    fixAllTitle: ADD_ALL_EXTENSIONS,
+    fixAllCommand: 'gltf.declareAllExtensions',
+    fixAll: (context, diagnostics) => addExtensionNames(context, 'extensionsUsed',
+        diagnostics.map(diagnostic => getUndeclaredExtensionName(context, diagnostic))),
+    fixOnSave: true
+});
+
+/////////////////////////////////////////////////////////////////
+// UNUSED_EXTENSION_REQUIRED
+
+function isExtensionUsedInDocument(map: JsonMap<GLTF2.GLTF>, extensionName: string): boolean {
+    const suffix = '/extensions/' + extensionName.replace(/~/g, '~0').replace(/\//g, '~1');
+    return Object.keys(map.pointers).some(key => key.endsWith(suffix) && key.indexOf('/extras') < 0);
+}
+
+/**
+ * Reconcile required extensions that are missing from `extensionsUsed`: those that the document
+ * uses are declared, and those it does not use are no longer required.
+ */
+function fixRequiredExtensions(context: QuickFixContext, diagnostics: vscode.Diagnostic[]): void {
+    const extensionNames = diagnostics.map(diagnostic => {
+        const name = diagnostic && getQuotedValues(diagnostic)[0];
+        if (name === undefined) {
+            throw new Error("This quick-fix command should be used on a required extension that is not declared in 'extensionsUsed'.");
+        }
+        return name;
+    });
+    const usedNames = extensionNames.filter(name => isExtensionUsedInDocument(context.map, name));
+    addExtensionNames(context, 'extensionsUsed', usedNames);
+
+    const required: string[] = context.map.data.extensionsRequired || [];
+    const removedIndices = required
+        .map((name, index) => (extensionNames.indexOf(name) >= 0 && usedNames.indexOf(name) < 0) ? index : -1)
+        .filter(index => index >= 0);
+    if (removedIndices.length === 0) {
+        return;
     }
 
-    public static addAllBufferViewTargets(diagnostic: vscode.Diagnostic, map: JsonMap<GLTF2.GLTF>,
-        textEditor: vscode.TextEditor, edit: vscode.TextEditorEdit): void {
-        const document = textEditor.document;
-        const pointers = map.pointers;
-        const insertables = new Insertables(textEditor);
-        const eol = insertables.eol;
-        const indent = insertables.indent;
-
-        let gltf = map.data;
-        const indiciesAccessorIds: number[] = [];
-        const attributeAccessorIds: number[] = [];
-        const numMeshes = gltf.meshes.length;
-        for (let m = 0; m < numMeshes; ++m) {
-            const mesh = gltf.meshes[m];
-            const numPrims = mesh.primitives.length;
-            for (let p = 0; p < numPrims; ++p) {
-                const primitive = mesh.primitives[p];
-                // Indicies
-                if (primitive.indices !== undefined) {
-                    indiciesAccessorIds.push(primitive.indices);
-                }
-                // Attributes
-                for (let key of Object.keys(primitive.attributes)) {
-                    attributeAccessorIds.push(primitive.attributes[key]);
-                }
-                // Morph targets
-                if (primitive.targets) {
-                    const numTargets = primitive.targets.length;
-                    for (let t = 0; t < numTargets; ++t) {
-                        const target = primitive.targets[t];
-                        for (let key of Object.keys(target)) {
-                            attributeAccessorIds.push(target[key]);
-                        }
+    const document = context.textEditor.document;
+    if (removedIndices.length === required.length) {
+        context.edit.delete(document.uri, clearRangeOfJsonKey(context.map, '', 'extensionsRequired'));
+    } else {
+        clearRangesOfArrayEntries(document, context.map, '/extensionsRequired', removedIndices)
+            .forEach(range => context.edit.delete(document.uri, range));
+    }
+}
+
+registerQuickFix({
+    codes: [UNUSED_EXTENSION_REQUIRED],
+    title: FIX_REQUIRED_EXTENSION,
+    tooltip: 'Add this extension to extensionsUsed if the document uses it, otherwise remove it from extensionsRequired.',
+    command: 'gltf.fixRequiredExtension',
+    fix: (context, diagnostic) => fixRequiredExtensions(context, [diagnostic]),
+    fixAllTitle: FIX_ALL_REQUIRED_EXTENSIONS,
+    fixAllCommand: 'gltf.fixAllRequiredExtensions',
+    fixAll: fixRequiredExtensions,
+    fixOnSave: true
+});
+
+/////////////////////////////////////////////////////////////////
+// NON_REQUIRED_EXTENSION
+
+function getNonRequiredExtensionName(diagnostic: vscode.Diagnostic): string {
+    const name = diagnostic && getQuotedValues(diagnostic)[0];
+    if (name === undefined) {
+        throw new Error("This quick-fix command should be used on an extension that cannot be optional.");
+    }
+    return name;
+}
+
+registerQuickFix({
+    codes: [NON_REQUIRED_EXTENSION],
+    title: REQUIRE_EXTENSION,
+    tooltip: 'Add this extension to the extensionsRequired array.',
+    command: 'gltf.requireExtension',
+    fix: (context, diagnostic) => addExtensionNames(context, 'extensionsRequired', [getNonRequiredExtensionName(diagnostic)]),
+    fixAllTitle: REQUIRE_ALL_EXTENSIONS,
+    fixAllCommand: 'gltf.requireAllExtensions',
+    fixAll: (context, diagnostics) => addExtensionNames(context, 'extensionsRequired', diagnostics.map(getNonRequiredExtensionName)),
+    fixOnSave: true
+});
+
+/////////////////////////////////////////////////////////////////
+// BUFFER_VIEW_TARGET_MISSING
+
+function addBufferViewTarget(context: QuickFixContext, diagnostic: vscode.Diagnostic): void {
+    const document = context.textEditor.document;
+    const map = context.map;
+    let bestKey = getBestKeyFromDiagnostic(diagnostic, map, context.textEditor);
+
+    if (bestKey.indexOf('primitives') < 0) {
+        throw new Error("This quick-fix command should be used on a mesh primitive that lacks a bufferView target.");
+    }
+
+    let gltf = map.data;
+    let accessorId = getFromJsonPointer(gltf, bestKey);
+    let bufferViewId = gltf.accessors[accessorId].bufferView;
+    let bufferViewKey = '/bufferViews/' + bufferViewId;
+    if (map.pointers.hasOwnProperty(bufferViewKey + '/target')) {
+        throw new Error("This bufferView already has a target set.");
+    }
+    let insertPos = getInsertPointForKey(map, bufferViewKey);
+
+    const insertables = new Insertables(context.textEditor);
+    const eol = insertables.eol;
+    const indent = insertables.indent;
+    let newJson: string;
+
+    if (bestKey.endsWith('/indices')) {
+        newJson = ',' + eol + indent + indent + indent + '"target": 34963'; // ELEMENT_ARRAY_BUFFER for indices
+    } else {
+        newJson = ',' + eol + indent + indent + indent + '"target": 34962'; // ARRAY_BUFFER for vertex attributes
+    }
+
+    context.edit.insert(document.uri, document.positionAt(insertPos), newJson);
+}
+
+function addAllBufferViewTargets(context: QuickFixContext): void {
+    const document = context.textEditor.document;
+    const map = context.map;
+    const pointers = map.pointers;
+    const insertables = new Insertables(context.textEditor);
+    const eol = insertables.eol;
+    const indent = insertables.indent;
+
+    let gltf = map.data;
+    const indiciesAccessorIds: number[] = [];
+    const attributeAccessorIds: number[] = [];
+    const numMeshes = gltf.meshes.length;
+    for (let m = 0; m < numMeshes; ++m) {
+        const mesh = gltf.meshes[m];
+        const numPrims = mesh.primitives.length;
+        for (let p = 0; p < numPrims; ++p) {
+            const primitive = mesh.primitives[p];
+            // Indicies
+            if (primitive.indices !== undefined) {
+                indiciesAccessorIds.push(primitive.indices);
+            }
+            // Attributes
+            for (let key of Object.keys(primitive.attributes)) {
+                attributeAccessorIds.push(primitive.attributes[key]);
+            }
+            // Morph targets
+            if (primitive.targets) {
+                const numTargets = primitive.targets.length;
+                for (let t = 0; t < numTargets; ++t) {
+                    const target = primitive.targets[t];
+                    for (let key of Object.keys(target)) {
+                        attributeAccessorIds.push(target[key]);
                     }
                 }
             }
         }
+    }
 
-        // Make sure 'target' isn't added to the same bufferView twice.
-        const touchedBufferIds: number[] = [];
+    // Make sure 'target' isn't added to the same bufferView twice.
+    const touchedBufferIds: number[] = [];
 
-        // Apply ELEMENT_ARRAY_BUFFER targets for indicies.
-        const numIndiciesAccessors = indiciesAccessorIds.length;
-        for (let a = 0; a < numIndiciesAccessors; ++a) {
+    // Apply ELEMENT_ARRAY_BUFFER targets for indicies.
+    const numIndiciesAccessors = indiciesAccessorIds.length;
+    for (let a = 0; a < numIndiciesAccessors; ++a) {
 
-            let bufferViewId = gltf.accessors[indiciesAccessorIds[a]].bufferView;
-            if (bufferViewId !== undefined) {
-                let bufferViewKey = '/bufferViews/' + bufferViewId;
-                if (!pointers.hasOwnProperty(bufferViewKey + '/target') &&
-                    touchedBufferIds.indexOf(bufferViewId) < 0) {
-                    let insertPos = getInsertPointForKey(map, bufferViewKey);
-                    let newJson = ',' + eol + indent + indent + indent + '"target": 34963';
+        let bufferViewId = gltf.accessors[indiciesAccessorIds[a]].bufferView;
+        if (bufferViewId !== undefined) {
+            let bufferViewKey = '/bufferViews/' + bufferViewId;
+            if (!pointers.hasOwnProperty(bufferViewKey + '/target') &&
+                touchedBufferIds.indexOf(bufferViewId) < 0) {
+                let insertPos = getInsertPointForKey(map, bufferViewKey);
+                let newJson = ',' + eol + indent + indent + indent + '"target": 34963';
 
-                    edit.insert(document.positionAt(insertPos), newJson);
-                    touchedBufferIds.push(bufferViewId);
-                }
+                context.edit.insert(document.uri, document.positionAt(insertPos), newJson);
+                touchedBufferIds.push(bufferViewId);
             }
         }
+    }
 
-        // Apply ARRAY_BUFFER targets for vertex attributes.
-        const numAttributeAccessors = attributeAccessorIds.length;
-        for (let a = 0; a < numAttributeAccessors; ++a) {
+    // Apply ARRAY_BUFFER targets for vertex attributes.
+    const numAttributeAccessors = attributeAccessorIds.length;
+    for (let a = 0; a < numAttributeAccessors; ++a) {
+
+        let bufferViewId = gltf.accessors[attributeAccessorIds[a]].bufferView;
+        if (bufferViewId !== undefined) {
+            let bufferViewKey = '/bufferViews/' + bufferViewId;
+            if (!pointers.hasOwnProperty(bufferViewKey + '/target') &&
+                touchedBufferIds.indexOf(bufferViewId) < 0) {
+                let insertPos = getInsertPointForKey(map, bufferViewKey);
+                let newJson = ',' + eol + indent + indent + indent + '"target": 34962';
+
+                context.edit.insert(document.uri, document.positionAt(insertPos), newJson);
+                touchedBufferIds.push(bufferViewId);
+            }
+        }
+    }
+}
 
-            let bufferViewId = gltf.accessors[attributeAccessorIds[a]].bufferView;
+registerQuickFix({
+    codes: [BUFFER_VIEW_TARGET_MISSING],
+    title: ADD_BUFFER_VIEW_TARGET,
+    tooltip: 'Add a target to the bufferView based on attribute type.',
+    command: 'gltf.addBufferViewTarget',
+    fix: addBufferViewTarget,
+    fixAllTitle: ADD_ALL_BUFFER_VIEW_TARGETS,
+    fixAllCommand: 'gltf.addAllBufferViewTargets',
+    fixAll: addAllBufferViewTargets,
+    fixOnSave: true
+});
+
+/////////////////////////////////////////////////////////////////
+// ANIMATION_SAMPLER_ACCESSOR_WITH_BYTESTRIDE
+
+function clearAnimationByteStride(context: QuickFixContext, diagnostic: vscode.Diagnostic): void {
+    const map = context.map;
+    let bestKey = getBestKeyFromDiagnostic(diagnostic, map, context.textEditor);
+
+    // Key should be '/animations/n/samplers/n/output'
+    let keySplit = bestKey.split('/');
+    if (keySplit.length < 6 || keySplit[1] !== 'animations' ||
+        keySplit[3] !== 'samplers' || keySplit[5] !== 'output') {
+        throw new Error("This quick-fix command should be used on an animation sampler output.");
+    }
+
+    let gltf = map.data;
+    let accessorId = getFromJsonPointer(gltf, bestKey);
+    let bufferViewId = gltf.accessors[accessorId].bufferView;
+    let bufferViewKey = '/bufferViews/' + bufferViewId;
+    if (!map.pointers.hasOwnProperty(bufferViewKey + '/byteStride')) {
+        throw new Error("This bufferView does not have a byteStride.");
+    }
+
+    let range = clearRangeOfJsonKey(map, bufferViewKey, 'byteStride');
+    context.edit.delete(context.textEditor.document.uri, range);
+}
+
+function clearAllAnimationByteStrides(context: QuickFixContext): void {
+    const map = context.map;
+    const pointers = map.pointers;
+
+    // Make sure we don't try to delete the same key twice.
+    const touchedBufferIds: number[] = [];
+
+    let gltf = map.data;
+    const numAnimations = gltf.animations ? gltf.animations.length : 0;
+    for (let a = 0; a < numAnimations; ++a) {
+        const animation = gltf.animations[a];
+        const numSamplers = animation.samplers.length;
+        for (let s = 0; s < numSamplers; ++s) {
+            const sampler = animation.samplers[s];
+            const accessorId = sampler.output;
+            const bufferViewId = gltf.accessors[accessorId].bufferView;
             if (bufferViewId !== undefined) {
                 let bufferViewKey = '/bufferViews/' + bufferViewId;
-                if (!pointers.hasOwnProperty(bufferViewKey + '/target') &&
+                if (pointers.hasOwnProperty(bufferViewKey + '/byteStride') &&
                     touchedBufferIds.indexOf(bufferViewId) < 0) {
-                    let insertPos = getInsertPointForKey(map, bufferViewKey);
-                    let newJson = ',' + eol + indent + indent + indent + '"target": 34962';
-
-                    edit.insert(document.positionAt(insertPos), newJson);
+                    let range = clearRangeOfJsonKey(map, bufferViewKey, 'byteStride');
+                    context.edit.delete(context.textEditor.document.uri, range);
                     touchedBufferIds.push(bufferViewId);
                 }
             }
         }
     }
+}
 
-    /////////////////////////////////////////////////////////////////
-    // ANIMATION_SAMPLER_ACCESSOR_WITH_BYTESTRIDE
+registerQuickFix({
+    codes: [ANIMATION_SAMPLER_ACCESSOR_WITH_BYTESTRIDE],
+    title: CLEAR_ANIMATION_BYTESTRIDE,
+    command: 'gltf.clearAnimationByteStride',
+    fix: clearAnimationByteStride,
+    fixAllTitle: CLEAR_ALL_ANIMATION_BYTESTRIDES,
+    fixAllCommand: 'gltf.clearAllAnimationByteStrides',
+    fixAll: clearAllAnimationByteStrides,
+    fixOnSave: true
+});
+
+/////////////////////////////////////////////////////////////////
+// ACCESSOR_JOINTS_USED_ZERO_WEIGHT
+
+async function clearUnusedJoints(context: QuickFixContext, diagnostic: vscode.Diagnostic): Promise<void> {
+    const textEditor = context.textEditor;
+    const map = context.map;
+    let bestKey = getBestKeyFromDiagnostic(diagnostic, map, textEditor);
+
+    if (bestKey.indexOf('/attributes/JOINTS') < 0) {
+        throw new Error("This quick-fix command should be used on a mesh primitive attribute JOINTS_*");
+    }
 
-    private createCommandClearByteStride(diagnostic: vscode.Diagnostic): vscode.CodeAction {
-        const action = new vscode.CodeAction(CLEAR_ANIMATION_BYTESTRIDE, vscode.CodeActionKind.QuickFix);
-        action.command = {
-            command: 'gltf.clearAnimationByteStride',
-            arguments: [diagnostic],
-            title: CLEAR_ANIMATION_BYTESTRIDE
-        };
-        action.diagnostics = [diagnostic];
-        action.isPreferred = true;
-        return action;
+    let gltf = map.data;
+    let fileName = textEditor.document.fileName;
+
+    // Locate the joints & weights data.
+
+    let jointsAccessor = map.data.accessors[getFromJsonPointer(gltf, bestKey)];
+
+    let weightsKey = bestKey.replace('/JOINTS_', '/WEIGHTS_');
+    if (weightsKey === bestKey) {
+        throw new Error("Can't find weights key.");
+    }
+    let weightsAccessor = map.data.accessors[getFromJsonPointer(gltf, weightsKey)];
+
+    if (jointsAccessor.type !== GLTF2.AccessorType.VEC4) {
+        throw new Error("Joints accessor type must be VEC4.");
     }
+    if (weightsAccessor.type !== GLTF2.AccessorType.VEC4) {
+        throw new Error("Weights accessor type must be VEC4.");
+    }
+    const numComponents = 4;
 
-    public static clearAnimationByteStride(diagnostic: vscode.Diagnostic, map: JsonMap<GLTF2.GLTF>,
-        textEditor: vscode.TextEditor, edit: vscode.TextEditorEdit): void {
-        const document = textEditor.document;
-        let bestKey = getBestKeyFromDiagnostic(diagnostic, map, textEditor);
+    let jointsData = jointsAccessor && getAccessorData(fileName, gltf, jointsAccessor);
+    if (!jointsData) {
+        throw new Error("Can't read Joints data.");
+    }
 
-        // Key should be '/animations/n/samplers/n/output'
-        let keySplit = bestKey.split('/');
-        if (keySplit.length < 6 || keySplit[1] !== 'animations' ||
-            keySplit[3] !== 'samplers' || keySplit[5] !== 'output') {
-            throw new Error("This quick-fix command should be used on an animation sampler output.");
+    let weightsData = weightsAccessor && getAccessorData(fileName, gltf, weightsAccessor);
+    if (!weightsData) {
+        throw new Error("Can't read Weights data.");
+    }
+
+    const howMany = jointsAccessor.count;
+
+    // Joints is VEC4 of unsigned byte or unsigned short.
+    // Weights is VEC4 of float, unsigned byte normalized, or unsigned short normalized.
+    // Iterate to discover and clear any nonzero joints with zero weights.
+
+    for (let i = 0; i < howMany; ++i) {
+        const jointsValues = getAccessorElement(jointsData, i, numComponents,
+            jointsAccessor.componentType, jointsAccessor.normalized);
+        const weightsValues = getAccessorElement(weightsData, i, numComponents,
+            weightsAccessor.componentType, weightsAccessor.normalized);
+        let anyComponentChanged = false;
+        for (let c = 0; c < numComponents; ++c) {
+            if (weightsValues[c] < 1e-6 && jointsValues[c] > 0) {
+                // Clear unused Joint ID
+                jointsValues[c] = 0;
+                anyComponentChanged = true;
+            }
+        }
+        if (anyComponentChanged) {
+            setAccessorElement(jointsData, i, numComponents,
+                jointsAccessor.componentType, jointsAccessor.normalized, jointsValues);
         }
+    }
+
+    // Copy the joints into the buffer, which can now replace its predecessor.
+    let bufferId = map.data.bufferViews[jointsAccessor.bufferView].buffer;
+    let updatedBuffer = Uint8Array.from(getBuffer(gltf, bufferId, fileName));
+    writeAccessorData(updatedBuffer, gltf, jointsAccessor, jointsData);
+    await savePatchedBuffer(context, bufferId, updatedBuffer);
+}
+
+/**
+ * Ask where to save an updated copy of a buffer's binary data, typically as a new `*_patchN.bin` file next to
+ * the glTF file, then save it and point the buffer's `uri` at it.  Changes to the binary data can't be undone
+ * in the editor, but undoing the change of `uri` returns to the original data.
+ *
+ * @return Whether the data was saved, rather than the save dialog being cancelled
+ */
+async function savePatchedBuffer(context: QuickFixContext, bufferId: number, updatedBuffer: Uint8Array): Promise<boolean> {
+    const textEditor = context.textEditor;
+    const map = context.map;
+    const document = textEditor.document;
+    const pointers = map.pointers;
+    const insertables = new Insertables(textEditor);
+    const eol = insertables.eol;
+    const indent = insertables.indent;
+
+    let bufferUriKey = '/buffers/' + bufferId + '/uri';
+    let currentUri: string;
+    if (pointers.hasOwnProperty(bufferUriKey)) {
+        const pointer = pointers[bufferUriKey];
+        currentUri = JSON.parse(textEditor.document.getText().substring(
+            pointer.value.pos, pointer.valueEnd.pos));
+    }
+
+    const savedUri = await saveBufferDataAs(document, currentUri, updatedBuffer);
+    if (savedUri !== undefined) {
+        let replacementUri = JSON.stringify(savedUri);
+        if (pointers.hasOwnProperty(bufferUriKey)) {
+            const pointer = pointers[bufferUriKey];
+            context.edit.replace(document.uri, new vscode.Range(pointer.value.line, pointer.value.column,
+                pointer.valueEnd.line, pointer.valueEnd.column), replacementUri);
+            let pos = new vscode.Position(pointer.value.line, pointer.value.column);
+            textEditor.selection = new vscode.Selection(pos, pos);
+            textEditor.revealRange(new vscode.Range(pos, pos),
+                vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+        } else {
+            let bufferKey = '/buffers/' + bufferId;
+            if (!pointers.hasOwnProperty(bufferKey)) {
+                throw new Error("Can't find buffer in JSON.");
+            }
 
-        let gltf = map.data;
-        let accessorId = getFromJsonPointer(gltf, bestKey);
-        let bufferViewId = gltf.accessors[accessorId].bufferView;
-        let bufferViewKey = '/bufferViews/' + bufferViewId;
-        if (!map.pointers.hasOwnProperty(bufferViewKey + '/byteStride')) {
-            throw new Error("This bufferView does not have a byteStride.");
+            const pointer = pointers[bufferKey];
+            let insertPos = getInsertPointForKey(map, bufferKey);
+            let newJson = ',' + eol + indent + indent + indent + '"uri": ' + replacementUri;
+            context.edit.insert(document.uri, document.positionAt(insertPos), newJson);
+            let pos = new vscode.Position(pointer.value.line + 1, 0);
+            textEditor.selection = new vscode.Selection(pos, pos);
+            textEditor.revealRange(new vscode.Range(pos, pos),
+                vscode.TextEditorRevealType.InCenterIfOutsideViewport);
         }
+    }
+    return savedUri !== undefined;
+}
 
-        let range = clearRangeOfJsonKey(map, bufferViewKey, 'byteStride');
-        edit.delete(range);
+registerQuickFix({
+    codes: [ACCESSOR_JOINTS_USED_ZERO_WEIGHT],
+    title: CLEAR_UNUSED_JOINTS,
+    tooltip: 'Clear all Joint IDs in this accessor with zero weight.',
+    command: 'gltf.clearUnusedJoints',
+    fix: clearUnusedJoints
+});
+
+/////////////////////////////////////////////////////////////////
+// UNUSED_OBJECT
+
+/**
+ * Delete unused objects, with the language server renumbering the indices that refer to later objects.
+ * Only objects in top-level arrays can be deleted, so other unused objects are left alone.
+ */
+async function deleteUnusedObjects(context: QuickFixContext, diagnostics: vscode.Diagnostic[]): Promise<void> {
+    const document = context.textEditor.document;
+    const paths = diagnostics
+        .map(diagnostic => getKeyContainingDiagnostic(document, context.map, diagnostic, /^\/[^/]+\/\d+$/))
+        .filter(key => key !== undefined);
+    if (paths.length === 0) {
+        throw new Error("This quick-fix command should be used on an unused object in a top-level glTF array.");
     }
 
-    private createCommandClearAllByteStrides(diagnostic: vscode.Diagnostic): vscode.CodeAction {
-        const action = new vscode.CodeAction(CLEAR_ALL_ANIMATION_BYTESTRIDES, vscode.CodeActionKind.QuickFix);
-        action.command = {
-            command: 'gltf.clearAllAnimationByteStrides',
-            arguments: [diagnostic],
-            title: CLEAR_ALL_ANIMATION_BYTESTRIDES
-        };
-        action.diagnostics = [diagnostic];
-        action.isPreferred = true;
-        return action;
+    await context.client.onReady();
+    const edits: TextEdit[] = await context.client.sendRequest('gltf/deleteObjects', {
+        textDocument: { uri: context.client.code2ProtocolConverter.asUri(document.uri) },
+        paths: paths
+    });
+    if (edits) {
+        context.edit.set(document.uri, await context.client.protocol2CodeConverter.asTextEdits(edits));
     }
+}
 
-    public static clearAllAnimationByteStrides(diagnostic: vscode.Diagnostic, map: JsonMap<GLTF2.GLTF>,
-        textEditor: vscode.TextEditor, edit: vscode.TextEditorEdit): void {
-        const pointers = map.pointers;
-
-        // Make sure we don't try to delete the same key twice.
-        const touchedBufferIds: number[] = [];
-
-        let gltf = map.data;
-        const numAnimations = gltf.animations ? gltf.animations.length : 0;
-        for (let a = 0; a < numAnimations; ++a) {
-            const animation = gltf.animations[a];
-            const numSamplers = animation.samplers.length;
-            for (let s = 0; s < numSamplers; ++s) {
-                const sampler = animation.samplers[s];
-                const accessorId = sampler.output;
-                const bufferViewId = gltf.accessors[accessorId].bufferView;
-                if (bufferViewId !== undefined) {
-                    let bufferViewKey = '/bufferViews/' + bufferViewId;
-                    if (pointers.hasOwnProperty(bufferViewKey + '/byteStride') &&
-                        touchedBufferIds.indexOf(bufferViewId) < 0) {
-                        let range = clearRangeOfJsonKey(map, bufferViewKey, 'byteStride');
-                        edit.delete(range);
-                        touchedBufferIds.push(bufferViewId);
-                    }
-                }
+registerQuickFix({
+    codes: [UNUSED_OBJECT],
+    title: DELETE_UNUSED_OBJECT,
+    tooltip: 'Delete this object, and renumber the indices that refer to later objects in the same array.',
+    command: 'gltf.deleteUnusedObject',
+    fix: (context, diagnostic) => deleteUnusedObjects(context, [diagnostic]),
+    fixAllTitle: DELETE_ALL_UNUSED_OBJECTS,
+    fixAllCommand: 'gltf.deleteAllUnusedObjects',
+    fixAll: deleteUnusedObjects
+});
+
+/////////////////////////////////////////////////////////////////
+// IMAGE_MIME_TYPE_INVALID
+
+function fixImageMimeTypes(context: QuickFixContext, diagnostics: vscode.Diagnostic[]): void {
+    let fixedKeys: string[] = [];
+    for (let diagnostic of diagnostics) {
+        const imageKey = getKeyContainingDiagnostic(context.textEditor.document, context.map, diagnostic, /^\/images\/\d+$/);
+        const recognizedMimeType = diagnostic && getQuotedValues(diagnostic)[0];
+        if (imageKey === undefined || recognizedMimeType === undefined) {
+            throw new Error("This quick-fix command should be used on an image whose data does not match its mimeType.");
+        }
+        if (fixedKeys.indexOf(imageKey) < 0) {
+            setKeyValue(context, imageKey, 'mimeType', JSON.stringify(recognizedMimeType));
+            fixedKeys.push(imageKey);
+        }
+    }
+}
+
+registerQuickFix({
+    codes: [IMAGE_MIME_TYPE_INVALID],
+    title: FIX_IMAGE_MIME_TYPE,
+    tooltip: 'Set the mimeType of this image to the format recognized in its data.',
+    command: 'gltf.fixImageMimeType',
+    fix: (context, diagnostic) => fixImageMimeTypes(context, [diagnostic]),
+    fixAllTitle: FIX_ALL_IMAGE_MIME_TYPES,
+    fixAllCommand: 'gltf.fixAllImageMimeTypes',
+    fixAll: fixImageMimeTypes,
+    fixOnSave: true
+});
+
+/////////////////////////////////////////////////////////////////
+// BUFFER_BYTE_LENGTH_MISMATCH
+
+function fixBufferByteLengths(context: QuickFixContext, diagnostics: vscode.Diagnostic[]): void {
+    let fixedKeys: string[] = [];
+    for (let diagnostic of diagnostics) {
+        const bufferKey = getKeyContainingDiagnostic(context.textEditor.document, context.map, diagnostic, /^\/buffers\/\d+$/);
+        // The message reads "Actual data byte length (n) is less than the declared buffer byte length (m)."
+        const match = diagnostic && /\((\d+)\)/.exec(diagnostic.message);
+        if (bufferKey === undefined || !match) {
+            throw new Error("This quick-fix command should be used on a buffer whose data is shorter than its byteLength.");
+        }
+        if (fixedKeys.indexOf(bufferKey) < 0) {
+            setKeyValue(context, bufferKey, 'byteLength', match[1]);
+            fixedKeys.push(bufferKey);
+        }
+    }
+}
+
+registerQuickFix({
+    codes: [BUFFER_BYTE_LENGTH_MISMATCH],
+    title: FIX_BUFFER_BYTE_LENGTH,
+    tooltip: 'Set the byteLength of this buffer to the length of its data.',
+    command: 'gltf.fixBufferByteLength',
+    fix: (context, diagnostic) => fixBufferByteLengths(context, [diagnostic]),
+    fixAllTitle: FIX_ALL_BUFFER_BYTE_LENGTHS,
+    fixAllCommand: 'gltf.fixAllBufferByteLengths',
+    fixAll: fixBufferByteLengths,
+    fixOnSave: true
+});
+
+/////////////////////////////////////////////////////////////////
+// ACCESSOR_MIN_MISMATCH, ACCESSOR_MAX_MISMATCH,
+// ACCESSOR_ELEMENT_OUT_OF_MIN_BOUND, ACCESSOR_ELEMENT_OUT_OF_MAX_BOUND
+
+/**
+ * Format a bound for the JSON document.  Float bounds use the shortest text that reads back as the same 32-bit float.
+ */
+function formatAccessorBound(value: number, componentType: GLTF2.AccessorComponentType): string {
+    if (componentType === GLTF2.AccessorComponentType.FLOAT) {
+        for (let precision = 1; precision < 9; ++precision) {
+            const text = parseFloat(value.toPrecision(precision)).toString();
+            if (Math.fround(parseFloat(text)) === value) {
+                return text;
             }
         }
     }
+    return value.toString();
+}
 
-    /////////////////////////////////////////////////////////////////
-    // ACCESSOR_JOINTS_USED_ZERO_WEIGHT
+/**
+ * Replace an array of an object in place, keeping it on one line if it was on one line,
+ * and otherwise placing each value on its own line.
+ */
+function replaceArray(context: QuickFixContext, arrayKey: string, values: string[]): void {
+    const document = context.textEditor.document;
+    const pointer = context.map.pointers[arrayKey];
+    const range = new vscode.Range(document.positionAt(pointer.value.pos), document.positionAt(pointer.valueEnd.pos));
+    const oldJson = document.getText(range);
+
+    let newJson: string;
+    if (oldJson.indexOf('\n') < 0) {
+        newJson = '[' + values.join(/,\s/.test(oldJson) ? ', ' : ',') + ']';
+    } else {
+        const insertables = new Insertables(context.textEditor);
+        const eol = insertables.eol;
+        const keyLine = document.lineAt(document.positionAt(pointer.key ? pointer.key.pos : pointer.value.pos).line).text;
+        const keyIndent = /^\s*/.exec(keyLine)[0];
+        newJson = '[' + eol + values.map(value => keyIndent + insertables.indent + value).join(',' + eol) + eol + keyIndent + ']';
+    }
 
-    private createCommandClearUnusedJoints(diagnostic: vscode.Diagnostic): vscode.CodeAction {
-        const action = new vscode.CodeAction(CLEAR_UNUSED_JOINTS, vscode.CodeActionKind.QuickFix);
-        action.command = {
-            command: 'gltf.clearUnusedJoints',
-            arguments: [diagnostic],
-            title: CLEAR_UNUSED_JOINTS,
-            tooltip: 'Clear all Joint IDs in this accessor with zero weight.'
-        };
-        action.diagnostics = [diagnostic];
-        action.isPreferred = true;
-        return action;
+    context.edit.replace(document.uri, range, newJson);
+}
+
+/**
+ * Rewrite the `min` and `max` of an accessor, whichever it has, from its data.
+ * @param updated The new data and count of an accessor whose binary data is being replaced, if any.
+ */
+function recomputeAccessorBounds(context: QuickFixContext, accessorKey: string,
+    updated?: { data: ArrayLike<number>, count: number }): void {
+    const accessor: GLTF2.Accessor = getFromJsonPointer(context.map.data, accessorKey);
+    const pointers = context.map.pointers;
+    if (!pointers.hasOwnProperty(accessorKey + '/min') && !pointers.hasOwnProperty(accessorKey + '/max')) {
+        throw new Error("This accessor has no min or max.");
     }
 
-    public static async clearUnusedJoints(diagnostic: vscode.Diagnostic, map: JsonMap<GLTF2.GLTF>,
-        textEditor: vscode.TextEditor): Promise<void> {
-        const document = textEditor.document;
-        const pointers = map.pointers;
-        let bestKey = getBestKeyFromDiagnostic(diagnostic, map, textEditor);
+    const data = updated ? updated.data : getSparseAccessorData(context.textEditor.document.fileName, context.map.data, accessor);
+    if (!data) {
+        throw new Error("Can't read accessor data.");
+    }
 
-        if (bestKey.indexOf('/attributes/JOINTS') < 0) {
-            throw new Error("This quick-fix command should be used on a mesh primitive attribute JOINTS_*");
+    // The bounds of a normalized accessor are in the stored values, so the data is not normalized here.
+    const numComponents = AccessorTypeToNumComponents[accessor.type];
+    const count = updated ? updated.count : accessor.count;
+    let min = new Array<number>(numComponents).fill(Infinity);
+    let max = new Array<number>(numComponents).fill(-Infinity);
+    for (let i = 0; i < count; ++i) {
+        const values = getAccessorElement(data, i, numComponents, accessor.componentType, false);
+        for (let c = 0; c < numComponents; ++c) {
+            if (!isNaN(values[c])) {
+                min[c] = Math.min(min[c], values[c]);
+                max[c] = Math.max(max[c], values[c]);
+            }
         }
+    }
+    if (min.some(value => !isFinite(value))) {
+        throw new Error("This accessor has no values to compute bounds from.");
+    }
 
-        let gltf = map.data;
-        let fileName = textEditor.document.fileName;
+    if (pointers.hasOwnProperty(accessorKey + '/min')) {
+        replaceArray(context, accessorKey + '/min', min.map(value => formatAccessorBound(value, accessor.componentType)));
+    }
+    if (pointers.hasOwnProperty(accessorKey + '/max')) {
+        replaceArray(context, accessorKey + '/max', max.map(value => formatAccessorBound(value, accessor.componentType)));
+    }
+}
 
-        // Locate the joints & weights data.
+function recomputeDiagnosedAccessorBounds(context: QuickFixContext, diagnostic: vscode.Diagnostic): void {
+    const accessorKey = getKeyContainingDiagnostic(context.textEditor.document, context.map, diagnostic, /^\/accessors\/\d+$/);
+    if (accessorKey === undefined) {
+        throw new Error("This quick-fix command should be used on an accessor whose min or max does not match its data.");
+    }
+    recomputeAccessorBounds(context, accessorKey);
+}
 
-        let jointsAccessor = map.data.accessors[getFromJsonPointer(gltf, bestKey)];
+/**
+ * Rewrite the `min` and `max` of each accessor named by some diagnostics, once each.  Accessors whose
+ * data can't be read are left alone.
+ */
+function recomputeReportedAccessorBounds(context: QuickFixContext, diagnostics: vscode.Diagnostic[]): void {
+    let accessorKeys = new Set<string>();
+    for (let diagnostic of diagnostics) {
+        const accessorKey = getKeyContainingDiagnostic(context.textEditor.document, context.map, diagnostic, /^\/accessors\/\d+$/);
+        if (accessorKey !== undefined) {
+            accessorKeys.add(accessorKey);
+        }
+    }
+    accessorKeys.forEach(accessorKey => {
+        try {
+            recomputeAccessorBounds(context, accessorKey);
+        } catch (ex) {
+            // Leave this accessor as it is.
+        }
+    });
+}
 
-        let weightsKey = bestKey.replace('/JOINTS_', '/WEIGHTS_');
-        if (weightsKey === bestKey) {
-            throw new Error("Can't find weights key.");
+/**
+ * Rewrite the `min` and `max` of every accessor in the file that has them, whether or not an issue
+ * was reported.  Accessors whose data can't be read are left alone.
+ */
+function recomputeAllAccessorBounds(context: QuickFixContext): void {
+    const accessors = context.map.data.accessors || [];
+    accessors.forEach((accessor, index) => {
+        if (accessor.min === undefined && accessor.max === undefined) {
+            return;
         }
-        let weightsAccessor = map.data.accessors[getFromJsonPointer(gltf, weightsKey)];
+        try {
+            recomputeAccessorBounds(context, '/accessors/' + index);
+        } catch (ex) {
+            // Leave this accessor as it is.
+        }
+    });
+}
+
+registerQuickFix({
+    codes: [ACCESSOR_MIN_MISMATCH, ACCESSOR_MAX_MISMATCH, ACCESSOR_ELEMENT_OUT_OF_MIN_BOUND, ACCESSOR_ELEMENT_OUT_OF_MAX_BOUND],
+    title: RECOMPUTE_ACCESSOR_BOUNDS,
+    tooltip: 'Decode this accessor, including sparse values, and rewrite its min and max arrays.',
+    command: 'gltf.recomputeAccessorBounds',
+    fix: recomputeDiagnosedAccessorBounds,
+    fixAllTitle: RECOMPUTE_ALL_ACCESSOR_BOUNDS,
+    fixAllCommand: 'gltf.recomputeAllAccessorBounds',
+    fixAll: recomputeAllAccessorBounds,
+    // On save, only the reported accessors are decoded and rewritten.
+    fixOnSave: recomputeReportedAccessorBounds
+});
+
+/////////////////////////////////////////////////////////////////
+// ACCESSOR_WEIGHTS_NON_NORMALIZED, ACCESSOR_VECTOR3_NON_UNIT,
+// ACCESSOR_ANIMATION_SAMPLER_OUTPUT_NON_NORMALIZED_QUATERNION
+
+/**
+ * Find the index of the accessor that a diagnostic is about, whether it was reported
+ * on the accessor itself or on a mesh attribute or animation sampler output that uses it.
+ */
+function getAccessorIdFromDiagnostic(context: QuickFixContext, diagnostic: vscode.Diagnostic): number | undefined {
+    const accessorKey = getKeyContainingDiagnostic(context.textEditor.document, context.map, diagnostic, /^\/accessors\/\d+$/);
+    if (accessorKey !== undefined) {
+        return parseInt(accessorKey.substring(11), 10);
+    }
+
+    if (diagnostic) {
+        const bestKey = getBestKeyFromDiagnostic(diagnostic, context.map, context.textEditor);
+        if (/\/attributes\/[^/]+$|\/samplers\/\d+\/(input|output)$/.test(bestKey)) {
+            return getFromJsonPointer(context.map.data, bestKey);
+        }
+    }
+    return undefined;
+}
 
-        if (jointsAccessor.type !== GLTF2.AccessorType.VEC4) {
-            throw new Error("Joints accessor type must be VEC4.");
+/**
+ * Find all of the weights accessors used alongside a weights accessor, such as `WEIGHTS_0` and `WEIGHTS_1`
+ * of the same mesh primitive, since the weights of all sets together must sum to one.
+ */
+function getWeightsSet(gltf: GLTF2.GLTF, accessorId: number): number[] {
+    for (let mesh of (gltf.meshes || [])) {
+        for (let primitive of mesh.primitives) {
+            const weightsIds = Object.keys(primitive.attributes)
+                .filter(semantic => semantic.startsWith('WEIGHTS_'))
+                .sort()
+                .map(semantic => primitive.attributes[semantic]);
+            if (weightsIds.indexOf(accessorId) >= 0) {
+                return weightsIds;
+            }
         }
-        if (weightsAccessor.type !== GLTF2.AccessorType.VEC4) {
-            throw new Error("Weights accessor type must be VEC4.");
+    }
+    return [accessorId];
+}
+
+/**
+ * Renormalize the data of the accessors named by some diagnostics, then save updated copies of the buffers holding them.
+ */
+async function renormalizeAccessors(context: QuickFixContext, diagnostics: vscode.Diagnostic[]): Promise<void> {
+    const gltf = context.map.data;
+    const fileName = context.textEditor.document.fileName;
+
+    // Group the accessors to renormalize, so each is only changed once.
+    let groups = new Map<string, { accessorIds: number[], code: string }>();
+    for (let diagnostic of diagnostics) {
+        const accessorId = getAccessorIdFromDiagnostic(context, diagnostic);
+        if (accessorId === undefined || !gltf.accessors || !gltf.accessors[accessorId]) {
+            throw new Error("This quick-fix command should be used on an accessor whose data is not normalized.");
+        }
+        const code = getDiagnosticCode(diagnostic);
+        const accessorIds = (code === ACCESSOR_WEIGHTS_NON_NORMALIZED) ? getWeightsSet(gltf, accessorId) : [accessorId];
+        groups.set(accessorIds.join(','), { accessorIds: accessorIds, code: code });
+    }
+
+    // Each buffer is copied when first changed, so several accessors can be saved to one patched buffer.
+    let updatedBuffers = new Map<number, Uint8Array>();
+    groups.forEach(group => {
+        const accessors = group.accessorIds.map(accessorId => gltf.accessors[accessorId]);
+        if (accessors.some(accessor => accessor.sparse !== undefined || accessor.bufferView === undefined)) {
+            throw new Error("Sparse accessors can't be renormalized.");
+        }
+        const datas = accessors.map(accessor => getAccessorData(fileName, gltf, accessor));
+        if (datas.some(data => !data)) {
+            throw new Error("Can't read accessor data.");
+        }
+
+        if (group.code === ACCESSOR_WEIGHTS_NON_NORMALIZED) {
+            renormalizeWeights(accessors, datas);
+        } else {
+            renormalizeVectors(accessors[0], datas[0], (group.code === ACCESSOR_VECTOR3_NON_UNIT) ? 3 : 4);
+        }
+
+        accessors.forEach((accessor, a) => {
+            const bufferId = gltf.bufferViews[accessor.bufferView].buffer;
+            if (!updatedBuffers.has(bufferId)) {
+                updatedBuffers.set(bufferId, Uint8Array.from(getBuffer(gltf, bufferId, fileName)));
+            }
+            writeAccessorData(updatedBuffers.get(bufferId), gltf, accessor, datas[a]);
+        });
+    });
+
+    for (let [bufferId, updatedBuffer] of Array.from(updatedBuffers.entries())) {
+        await savePatchedBuffer(context, bufferId, updatedBuffer);
+    }
+}
+
+registerQuickFix({
+    codes: [ACCESSOR_WEIGHTS_NON_NORMALIZED, ACCESSOR_VECTOR3_NON_UNIT, ACCESSOR_ANIMATION_SAMPLER_OUTPUT_NON_NORMALIZED_QUATERNION],
+    title: RENORMALIZE_ACCESSOR,
+    tooltip: 'Scale weights to sum to one, or vectors and quaternions to unit length, then save the updated binary data.',
+    command: 'gltf.renormalizeAccessor',
+    fix: (context, diagnostic) => renormalizeAccessors(context, [diagnostic]),
+    fixAllTitle: RENORMALIZE_ALL_ACCESSORS,
+    fixAllCommand: 'gltf.renormalizeAllAccessors',
+    fixAll: renormalizeAccessors
+});
+
+/////////////////////////////////////////////////////////////////
+// ACCESSOR_ANIMATION_INPUT_NON_INCREASING, ACCESSOR_ANIMATION_INPUT_NEGATIVE
+
+/**
+ * Count the output elements for each keyframe of an animation sampler: three for `CUBICSPLINE`
+ * tangents and values, multiplied by the number of morph targets when animating weights.
+ */
+function getOutputEntriesPerKeyframe(gltf: GLTF2.GLTF, animation: GLTF2.Animation, samplerIndex: number): number {
+    let entriesPerKeyframe = animation.samplers[samplerIndex].interpolation === 'CUBICSPLINE' ? 3 : 1;
+
+    for (let channel of (animation.channels || [])) {
+        if (channel.sampler === samplerIndex && channel.target && channel.target.path === 'weights') {
+            const animatedNode = gltf.nodes && gltf.nodes[channel.target.node];
+            const animatedMesh = animatedNode && animatedNode.mesh !== undefined && gltf.meshes && gltf.meshes[animatedNode.mesh];
+            const primitive = animatedMesh && Array.isArray(animatedMesh.primitives) && animatedMesh.primitives[0];
+            if (!primitive || !Array.isArray(primitive.targets) || primitive.targets.length === 0) {
+                throw new Error(`Sampler ${samplerIndex} animates the weights of Node ${channel.target.node}, which has no mesh with morph targets.  ` +
+                    'Its keyframes cannot be sorted.');
+            }
+            entriesPerKeyframe *= primitive.targets.length;
+            break;
         }
-        const numComponents = 4;
+    }
+    return entriesPerKeyframe;
+}
 
-        let jointsData = jointsAccessor && getAccessorData(fileName, gltf, jointsAccessor);
-        if (!jointsData) {
-            throw new Error("Can't read Joints data.");
+/**
+ * Sort the keyframes of the animation inputs named by some diagnostics, applying the same order to the output
+ * of every sampler that uses each input.  The reordered data is written over the old data, and any dropped
+ * keyframes are left unused at the end, so the accessors' `count`, `min` and `max` are updated to match.
+ */
+async function repairAnimationInputs(context: QuickFixContext, diagnostics: vscode.Diagnostic[]): Promise<void> {
+    const gltf = context.map.data;
+    const fileName = context.textEditor.document.fileName;
+
+    let inputIds = new Set<number>();
+    for (let diagnostic of diagnostics) {
+        const accessorId = getAccessorIdFromDiagnostic(context, diagnostic);
+        if (accessorId === undefined || !gltf.accessors || !gltf.accessors[accessorId]) {
+            throw new Error("This quick-fix command should be used on an animation input accessor.");
         }
+        inputIds.add(accessorId);
+    }
 
-        let weightsData = weightsAccessor && getAccessorData(fileName, gltf, weightsAccessor);
-        if (!weightsData) {
-            throw new Error("Can't read Weights data.");
+    let updatedBuffers = new Map<number, Uint8Array>();
+    const writeAccessor = (accessorId: number, newData: number[], count: number) => {
+        const accessor = gltf.accessors[accessorId];
+        const bufferId = gltf.bufferViews[accessor.bufferView].buffer;
+        if (!updatedBuffers.has(bufferId)) {
+            updatedBuffers.set(bufferId, Uint8Array.from(getBuffer(gltf, bufferId, fileName)));
         }
+        writeAccessorData(updatedBuffers.get(bufferId), gltf, Object.assign({}, accessor, { count: count }), newData);
 
-        const howMany = jointsAccessor.count;
+        const accessorKey = '/accessors/' + accessorId;
+        if (count !== accessor.count) {
+            setKeyValue(context, accessorKey, 'count', count.toString());
+        }
+        if (accessor.min !== undefined || accessor.max !== undefined) {
+            recomputeAccessorBounds(context, accessorKey, { data: newData, count: count });
+        }
+    };
 
-        // Joints is VEC4 of unsigned byte or unsigned short.
-        // Weights is VEC4 of float, unsigned byte normalized, or unsigned short normalized.
-        // Iterate to discover and clear any nonzero joints with zero weights.
+    inputIds.forEach(inputId => {
+        const input = gltf.accessors[inputId];
+        if (input.sparse !== undefined || input.bufferView === undefined) {
+            throw new Error("Sparse animation inputs can't be repaired.");
+        }
+        const times = getAccessorData(fileName, gltf, input);
+        if (!times) {
+            throw new Error("Can't read accessor data.");
+        }
+        const order = getKeyframeOrder(times);
+        if (order.length === 0) {
+            throw new Error("This animation input has no keyframes with non-negative times.");
+        }
+        if (order.length === times.length && order.every((keyframe, index) => keyframe === index)) {
+            return;
+        }
 
-        for (let i = 0; i < howMany; ++i) {
-            const jointsValues = getAccessorElement(jointsData, i, numComponents,
-                jointsAccessor.componentType, jointsAccessor.normalized);
-            const weightsValues = getAccessorElement(weightsData, i, numComponents,
-                weightsAccessor.componentType, weightsAccessor.normalized);
-            let anyComponentChanged = false;
-            for (let c = 0; c < numComponents; ++c) {
-                if (weightsValues[c] < 1e-6 && jointsValues[c] > 0) {
-                    // Clear unused Joint ID
-                    jointsValues[c] = 0;
-                    anyComponentChanged = true;
+        // Every sampler that shares this input has its outputs reordered in the same way.
+        let outputIds = new Map<number, number>();
+        for (let animation of (gltf.animations || [])) {
+            (animation.samplers || []).forEach((sampler, samplerIndex) => {
+                if (sampler.input === inputId) {
+                    outputIds.set(sampler.output, getOutputEntriesPerKeyframe(gltf, animation, samplerIndex));
                 }
+            });
+        }
+
+        outputIds.forEach((entriesPerKeyframe, outputId) => {
+            const output = gltf.accessors[outputId];
+            if (output.sparse !== undefined || output.bufferView === undefined) {
+                throw new Error("Sparse animation outputs can't be reordered.");
+            }
+            if (output.count !== input.count * entriesPerKeyframe) {
+                throw new Error(`Number of input values (${input.count}) does not equal output values (${output.count / entriesPerKeyframe}).`);
             }
-            if (anyComponentChanged) {
-                setAccessorElement(jointsData, i, numComponents,
-                    jointsAccessor.componentType, jointsAccessor.normalized, jointsValues);
+            const data = getAccessorData(fileName, gltf, output);
+            if (!data) {
+                throw new Error("Can't read accessor data.");
             }
+            const numComponents = AccessorTypeToNumComponents[output.type];
+            writeAccessor(outputId, reorderAccessorData(data, numComponents, entriesPerKeyframe, order), order.length * entriesPerKeyframe);
+        });
+
+        writeAccessor(inputId, reorderAccessorData(times, 1, 1, order), order.length);
+    });
+
+    if (updatedBuffers.size === 0) {
+        throw new Error("The keyframe times of this animation input are already in order.");
+    }
+    for (let [bufferId, updatedBuffer] of Array.from(updatedBuffers.entries())) {
+        await savePatchedBuffer(context, bufferId, updatedBuffer);
+    }
+}
+
+registerQuickFix({
+    codes: [ACCESSOR_ANIMATION_INPUT_NON_INCREASING, ACCESSOR_ANIMATION_INPUT_NEGATIVE],
+    title: REPAIR_ANIMATION_INPUT,
+    tooltip: 'Reorder the keyframes of this animation input and the outputs that use it, then save the updated binary data.',
+    command: 'gltf.repairAnimationInput',
+    fix: (context, diagnostic) => repairAnimationInputs(context, [diagnostic]),
+    fixAllTitle: REPAIR_ALL_ANIMATION_INPUTS,
+    fixAllCommand: 'gltf.repairAllAnimationInputs',
+    fixAll: repairAnimationInputs
+});
+
+/////////////////////////////////////////////////////////////////
+// NODE_MATRIX_TRS, NODE_MATRIX_NON_TRS, NODE_MATRIX_DEFAULT
+
+/**
+ * The transform of a node in both forms, as computed by the language server.
+ */
+interface NodeTransform {
+    composed: number[];
+    decomposed?: { translation: number[], rotation: number[], scale: number[] };
+    isDecomposable?: boolean;
+}
+
+const nodeTransformDefaults: { [key: string]: number[] } = {
+    matrix: [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1],
+    translation: [0, 0, 0],
+    rotation: [0, 0, 0, 1],
+    scale: [1, 1, 1]
+};
+
+/**
+ * Round away the error left by composing or decomposing a transform, such as `0.9999999999999998`.
+ */
+function formatTransformValue(value: number): string {
+    return (Math.abs(value) < 1e-9) ? '0' : parseFloat(value.toPrecision(9)).toString();
+}
+
+/**
+ * Find the node that a diagnostic is about, or else the node under the cursor.
+ */
+function getNodeKey(context: QuickFixContext, diagnostic: vscode.Diagnostic): string {
+    const document = context.textEditor.document;
+    const range = diagnostic ? diagnostic.range : new vscode.Range(context.textEditor.selection.active, context.textEditor.selection.active);
+    const nodeKey = getKeyContainingRange(document, context.map, range, /^\/nodes\/\d+$/);
+    if (nodeKey === undefined) {
+        throw new Error("This command should be used on a glTF node.");
+    }
+    return nodeKey;
+}
+
+/**
+ * List the transform properties of a node whose values are the defaults, so they can be left out.
+ */
+function getDefaultTransformKeys(node: GLTF2.Node): string[] {
+    return Object.keys(nodeTransformDefaults).filter(keyName => Array.isArray(node[keyName]) &&
+        node[keyName].length === nodeTransformDefaults[keyName].length &&
+        node[keyName].every((value: number, index: number) => value === nodeTransformDefaults[keyName][index]));
+}
+
+function isNodeAnimated(gltf: GLTF2.GLTF, nodeId: number): boolean {
+    return (gltf.animations || []).some(animation => (animation.channels || []).some(channel =>
+        channel.target && channel.target.node === nodeId && channel.target.path !== 'weights'));
+}
+
+/**
+ * Replace some keys of an object with new ones.  The new keys take the place of the first old key,
+ * and the other old keys are removed along with their commas.
+ *
+ * @param context The quick fix context
+ * @param objectKey The JSON pointer of the object
+ * @param keyNames The names of the keys to remove, of which the object must have at least one
+ * @param newKeys The JSON text of each new key and its value
+ */
+function replaceObjectKeys(context: QuickFixContext, objectKey: string, keyNames: string[], newKeys: string[]): void {
+    const document = context.textEditor.document;
+    const pointers = context.map.pointers;
+    const prefix = objectKey + '/';
+    const keys = Object.keys(pointers).filter(key => pointers[key].key && key.startsWith(prefix) && key.indexOf('/', prefix.length) < 0);
+    const start = (key: string) => document.positionAt(pointers[key].key.pos);
+    const end = (key: string) => document.positionAt(pointers[key].valueEnd.pos);
+
+    let removedKeys = keys.filter(key => keyNames.indexOf(key.substring(prefix.length)) >= 0);
+    if (removedKeys.length === 0) {
+        throw new Error("Can't find keys to replace in " + objectKey);
+    }
+    if (removedKeys.length === keys.length && newKeys.length === 0) {
+        context.edit.replace(document.uri, new vscode.Range(document.positionAt(pointers[objectKey].value.pos),
+            document.positionAt(pointers[objectKey].valueEnd.pos)), '{}');
+        return;
+    }
+
+    if (newKeys.length > 0) {
+        const eol = new Insertables(context.textEditor).eol;
+        const keyIndent = /^\s*/.exec(document.lineAt(start(removedKeys[0]).line).text)[0];
+        context.edit.replace(document.uri, new vscode.Range(start(removedKeys[0]), end(removedKeys[0])), newKeys.join(',' + eol + keyIndent));
+        removedKeys = removedKeys.slice(1);
+    }
+
+    // Keys before the first kept key are removed up to it, and the rest are removed from the end of the key before them.
+    const firstKept = keys.findIndex(key => removedKeys.indexOf(key) < 0);
+    if (firstKept > 0) {
+        context.edit.delete(document.uri, new vscode.Range(start(keys[0]), start(keys[firstKept])));
+    }
+    keys.forEach((key, index) => {
+        if (index > firstKept && removedKeys.indexOf(key) >= 0) {
+            context.edit.delete(document.uri, new vscode.Range(end(keys[index - 1]), end(key)));
         }
+    });
+}
 
-        // The underlying buffer can now replace its predecessor.
-        let updatedBuffer = (jointsData as any).buffer as ArrayBuffer;
-        const insertables = new Insertables(textEditor);
-        const eol = insertables.eol;
-        const indent = insertables.indent;
+async function getNodeTransform(context: QuickFixContext, nodeKey: string): Promise<NodeTransform> {
+    await context.client.onReady();
+    const transform: NodeTransform = await context.client.sendRequest('gltf/nodeTransform', {
+        textDocument: { uri: context.client.code2ProtocolConverter.asUri(context.textEditor.document.uri) },
+        node: parseInt(nodeKey.substring(7), 10)
+    });
+    if (!transform) {
+        throw new Error("Can't read the transform of this node.");
+    }
+    return transform;
+}
 
-        // Try to work out a good default name.
-        let jointsBufferView = map.data.bufferViews[jointsAccessor.bufferView];
-        let bufferId = jointsBufferView.buffer;
-        let bufferUriKey = '/buffers/' + bufferId + '/uri';
-        let defaultName = 'data_patch_1';
-        if (pointers.hasOwnProperty(bufferUriKey)) {
-            const pointer = pointers[bufferUriKey];
-            defaultName = JSON.parse(textEditor.document.getText().substring(
-                pointer.value.pos, pointer.valueEnd.pos));
-            if (/_patch[0-9]+\.bin$/i.test(defaultName)) {
-                let pos = defaultName.lastIndexOf('_patch');
-                let patchNum = parseInt(defaultName.substring(pos + 6), 10) + 1;
-                defaultName = defaultName.replace(/_patch[0-9]+\.bin$/i, '_patch' + patchNum + '.bin');
-            } else if (/\.bin$/i.test(defaultName)) {
-                defaultName = defaultName.replace(/\.bin$/i, '_patch1.bin');
-            } else {
-                defaultName = 'model_data_patch1.bin';
+/**
+ * Replace a node's matrix, and any translation, rotation and scale it also has, with the translation,
+ * rotation and scale decomposed from its matrix.  Properties with default values are left out.
+ */
+async function decomposeNodeMatrix(context: QuickFixContext, diagnostic: vscode.Diagnostic): Promise<void> {
+    const nodeKey = getNodeKey(context, diagnostic);
+    const node: GLTF2.Node = getFromJsonPointer(context.map.data, nodeKey);
+    if (node.matrix === undefined) {
+        throw new Error("This node has no matrix to decompose.");
+    }
+
+    const transform = await getNodeTransform(context, nodeKey);
+    if (!transform.decomposed) {
+        throw new Error("This node's matrix can't be decomposed.");
+    }
+    if (!transform.isDecomposable) {
+        vscode.window.showWarningMessage('This matrix includes a shear or projection, so it was replaced by the nearest translation, rotation and scale.');
+    }
+
+    let newKeys: string[] = [];
+    for (let keyName of ['translation', 'rotation', 'scale']) {
+        const values = transform.decomposed[keyName].map(formatTransformValue);
+        if (values.some((value: string, index: number) => parseFloat(value) !== nodeTransformDefaults[keyName][index])) {
+            newKeys.push('"' + keyName + '": [' + values.join(', ') + ']');
+        }
+    }
+    replaceObjectKeys(context, nodeKey, Object.keys(nodeTransformDefaults), newKeys);
+}
+
+/**
+ * Replace a node's translation, rotation and scale with a matrix.  This is not offered for animated
+ * nodes, as animations must target the translation, rotation and scale.
+ */
+async function composeNodeMatrix(context: QuickFixContext, diagnostic: vscode.Diagnostic): Promise<void> {
+    const nodeKey = getNodeKey(context, diagnostic);
+    const node: GLTF2.Node = getFromJsonPointer(context.map.data, nodeKey);
+    if (node.translation === undefined && node.rotation === undefined && node.scale === undefined) {
+        throw new Error("This node has no translation, rotation or scale to compose.");
+    }
+    if (isNodeAnimated(context.map.data, parseInt(nodeKey.substring(7), 10))) {
+        throw new Error("Animated nodes must keep their translation, rotation and scale.");
+    }
+
+    const transform = await getNodeTransform(context, nodeKey);
+    const values = transform.composed.map(formatTransformValue);
+    let newKeys: string[] = [];
+    if (values.some((value, index) => parseFloat(value) !== nodeTransformDefaults.matrix[index])) {
+        // Place each column of the matrix on its own line.
+        const insertables = new Insertables(context.textEditor);
+        const document = context.textEditor.document;
+        const firstKey = ['translation', 'rotation', 'scale'].find(keyName => node[keyName] !== undefined);
+        const keyLine = document.lineAt(document.positionAt(context.map.pointers[nodeKey + '/' + firstKey].key.pos).line).text;
+        const keyIndent = /^\s*/.exec(keyLine)[0];
+        let columns: string[] = [];
+        for (let column = 0; column < 4; ++column) {
+            columns.push(keyIndent + insertables.indent + values.slice(column * 4, column * 4 + 4).join(', '));
+        }
+        newKeys.push('"matrix": [' + insertables.eol + columns.join(',' + insertables.eol) + insertables.eol + keyIndent + ']');
+    }
+    replaceObjectKeys(context, nodeKey, Object.keys(nodeTransformDefaults), newKeys);
+}
+
+function removeDefaultNodeTransform(context: QuickFixContext, diagnostic: vscode.Diagnostic): void {
+    const nodeKey = getNodeKey(context, diagnostic);
+    const defaultKeys = getDefaultTransformKeys(getFromJsonPointer(context.map.data, nodeKey));
+    if (defaultKeys.length === 0) {
+        throw new Error("This node has no transform properties with default values.");
+    }
+    replaceObjectKeys(context, nodeKey, defaultKeys, []);
+}
+
+/**
+ * Find the node in a range of the document, to see which transform refactorings apply to it.
+ */
+function getNodeInRange(document: vscode.TextDocument, map: JsonMap<GLTF2.GLTF>, range: vscode.Range): { id: number, node: GLTF2.Node } | undefined {
+    const nodeKey = getKeyContainingRange(document, map, range, /^\/nodes\/\d+$/);
+    if (nodeKey === undefined) {
+        return undefined;
+    }
+    const node: GLTF2.Node = getFromJsonPointer(map.data, nodeKey);
+    return (node && typeof node === 'object') ? { id: parseInt(nodeKey.substring(7), 10), node: node } : undefined;
+}
+
+registerQuickFix({
+    codes: [NODE_MATRIX_TRS, NODE_MATRIX_NON_TRS],
+    title: DECOMPOSE_NODE_MATRIX,
+    tooltip: 'Replace the matrix of this node with its translation, rotation and scale, as needed to animate the node.',
+    command: 'gltf.decomposeNodeMatrix',
+    fix: decomposeNodeMatrix,
+    canRefactor: (document, map, range) => {
+        const target = getNodeInRange(document, map, range);
+        return target !== undefined && Array.isArray(target.node.matrix);
+    }
+});
+
+registerQuickFix({
+    codes: [],
+    title: COMPOSE_NODE_MATRIX,
+    tooltip: 'Replace the translation, rotation and scale of this node with a matrix.',
+    command: 'gltf.composeNodeMatrix',
+    fix: composeNodeMatrix,
+    canRefactor: (document, map, range) => {
+        const target = getNodeInRange(document, map, range);
+        return target !== undefined && !isNodeAnimated(map.data, target.id) &&
+            (target.node.translation !== undefined || target.node.rotation !== undefined || target.node.scale !== undefined);
+    }
+});
+
+registerQuickFix({
+    codes: [NODE_MATRIX_DEFAULT],
+    title: REMOVE_DEFAULT_NODE_TRANSFORM,
+    tooltip: 'Remove the matrix, translation, rotation or scale of this node where it has the default value.',
+    command: 'gltf.removeDefaultNodeTransform',
+    fix: removeDefaultNodeTransform,
+    canRefactor: (document, map, range) => {
+        const target = getNodeInRange(document, map, range);
+        return target !== undefined && getDefaultTransformKeys(target.node).length > 0;
+    }
+});
+
+/////////////////////////////////////////////////////////////////
+// MESH_PRIMITIVE_GENERATED_TANGENT_SPACE
+
+/**
+ * Read the values of an attribute as floats, converting any normalized integers.
+ */
+function getAttributeValues(fileName: string, gltf: GLTF2.GLTF, accessorId: number): number[] {
+    const accessor = gltf.accessors[accessorId];
+    const data = accessor ? getSparseAccessorData(fileName, gltf, accessor) : undefined;
+    if (!data) {
+        throw new Error("Can't read accessor data.");
+    }
+
+    const numComponents = AccessorTypeToNumComponents[accessor.type];
+    let values: number[] = [];
+    for (let i = 0; i < accessor.count; ++i) {
+        values.push(...getAccessorElement(data, i, numComponents, accessor.componentType, accessor.normalized));
+    }
+    return values;
+}
+
+/**
+ * Add entries to the end of a top-level array, formatted like the document.
+ */
+function appendArrayEntries(context: QuickFixContext, arrayKey: string, entries: any[]): void {
+    const document = context.textEditor.document;
+    const pointers = context.map.pointers;
+    const numEntries = getFromJsonPointer(context.map.data, arrayKey).length;
+    const lastEntry = pointers[arrayKey + '/' + (numEntries - 1)];
+    const insertables = new Insertables(context.textEditor);
+    const entryIndent = /^\s*/.exec(document.lineAt(document.positionAt(lastEntry.value.pos).line).text)[0];
+
+    const newJson = entries.map(entry => entryIndent + JSON.stringify(entry, null, insertables.indent)
+        .split('\n').join(insertables.eol + entryIndent)).join(',' + insertables.eol);
+    context.edit.insert(document.uri, document.positionAt(lastEntry.valueEnd.pos), ',' + insertables.eol + newJson);
+}
+
+/**
+ * The data of an accessor to add to the end of a buffer, in a bufferView of its own.
+ */
+interface NewAccessor {
+    bufferId: number;
+    /** The accessor, without its `bufferView`. */
+    accessor: GLTF2.Accessor;
+    data: Uint8Array;
+    /** The `target` of the new bufferView, which defaults to vertex attributes. */
+    target?: GLTF2.BufferViewTarget;
+    byteStride?: number;
+}
+
+/**
+ * Append the data of new accessors to their buffers, and add a bufferView and an accessor for each.
+ * An embedded buffer is updated in place, while a buffer in an external file is saved as a new file.
+ *
+ * @return The index of each new accessor, or `undefined` if a save dialog was cancelled, in which case nothing is added
+ */
+async function addAccessors(context: QuickFixContext, newAccessors: NewAccessor[]): Promise<number[] | undefined> {
+    const gltf = context.map.data;
+    const fileName = context.textEditor.document.fileName;
+    const bufferIds = newAccessors.map(newAccessor => newAccessor.bufferId).filter((bufferId, index, ids) => ids.indexOf(bufferId) === index);
+
+    let byteOffsets = new Array<number>(newAccessors.length);
+    for (let bufferId of bufferIds) {
+        const bufferKey = '/buffers/' + bufferId;
+        const buffer = gltf.buffers[bufferId];
+        const indices = newAccessors.map((newAccessor, index) => index).filter(index => newAccessors[index].bufferId === bufferId);
+        const appended = appendToBuffer(getBuffer(gltf, bufferId, fileName), indices.map(index => newAccessors[index].data));
+        indices.forEach((index, i) => byteOffsets[index] = appended.byteOffsets[i]);
+
+        if (buffer.uri && buffer.uri.startsWith('data:')) {
+            setKeyValue(context, bufferKey, 'uri', JSON.stringify('data:application/octet-stream;base64,' + appended.data.toString('base64')));
+        } else if (!await savePatchedBuffer(context, bufferId, appended.data)) {
+            return undefined;
+        }
+        setKeyValue(context, bufferKey, 'byteLength', appended.data.length.toString());
+    }
+
+    const firstBufferViewId = gltf.bufferViews.length;
+    const firstAccessorId = gltf.accessors.length;
+    appendArrayEntries(context, '/bufferViews', newAccessors.map((newAccessor, index) => {
+        let bufferView = {
+            buffer: newAccessor.bufferId,
+            byteOffset: byteOffsets[index],
+            byteLength: newAccessor.data.byteLength
+        } as GLTF2.BufferView;
+        if (newAccessor.byteStride) {
+            bufferView.byteStride = newAccessor.byteStride;
+        }
+        bufferView.target = newAccessor.target || GLTF2.BufferViewTarget.ARRAY_BUFFER;
+        return bufferView;
+    }));
+    appendArrayEntries(context, '/accessors', newAccessors.map((newAccessor, index) =>
+        Object.assign({ bufferView: firstBufferViewId + index }, newAccessor.accessor)));
+    return newAccessors.map((newAccessor, index) => firstAccessorId + index);
+}
+
+/**
+ * Point an attribute of a mesh primitive at an accessor, adding it after the last attribute if it is new.
+ */
+function setAttribute(context: QuickFixContext, primitiveKey: string, semantic: string, accessorId: number): void {
+    const document = context.textEditor.document;
+    const pointer = context.map.pointers[primitiveKey + '/attributes/' + semantic];
+    if (pointer) {
+        context.edit.replace(document.uri, new vscode.Range(document.positionAt(pointer.value.pos), document.positionAt(pointer.valueEnd.pos)),
+            accessorId.toString());
+    } else {
+        const insertPos = document.positionAt(getInsertPointForKey(context.map, primitiveKey + '/attributes'));
+        const keyIndent = /^\s*/.exec(document.lineAt(insertPos.line).text)[0];
+        context.edit.insert(document.uri, insertPos, ',' + new Insertables(context.textEditor).eol + keyIndent + '"' + semantic + '": ' + accessorId);
+    }
+}
+
+function getPrimitiveKey(context: QuickFixContext, diagnostic: vscode.Diagnostic): string {
+    const document = context.textEditor.document;
+    const range = diagnostic ? diagnostic.range : new vscode.Range(context.textEditor.selection.active, context.textEditor.selection.active);
+    const primitiveKey = getKeyContainingRange(document, context.map, range, /^\/meshes\/\d+\/primitives\/\d+$/);
+    if (primitiveKey === undefined) {
+        throw new Error("This command should be used on a mesh primitive.");
+    }
+    return primitiveKey;
+}
+
+/**
+ * Generate tangents for some mesh primitives, appending them to the buffer that holds each primitive's
+ * positions along with a new bufferView and accessor.  Primitives that share their positions, normals,
+ * texture coordinates and indices share their tangents too.
+ */
+async function generatePrimitiveTangents(context: QuickFixContext, primitiveKeys: string[]): Promise<void> {
+    const gltf = context.map.data;
+    const fileName = context.textEditor.document.fileName;
+
+    // Group the primitives by the buffer that will hold their tangents, and by the data they are generated from.
+    let buffers = new Map<number, Map<string, { primitiveKeys: string[], tangents: Float32Array }>>();
+    for (let primitiveKey of primitiveKeys) {
+        const primitive: GLTF2.MeshPrimitive = getFromJsonPointer(gltf, primitiveKey);
+        const material = (primitive.material !== undefined && gltf.materials) ? gltf.materials[primitive.material] : undefined;
+        const texCoord = 'TEXCOORD_' + ((material && material.normalTexture && material.normalTexture.texCoord) || 0);
+        const attributes = primitive.attributes;
+        if (primitive.mode !== undefined && primitive.mode !== GLTF2.MeshPrimitiveMode.TRIANGLES) {
+            throw new Error("Tangents can only be generated for triangle lists.");
+        }
+        if (attributes.TANGENT !== undefined) {
+            throw new Error("This primitive already has tangents.");
+        }
+        if (attributes.POSITION === undefined || attributes.NORMAL === undefined || attributes[texCoord] === undefined) {
+            throw new Error(`Tangents need the POSITION, NORMAL and ${texCoord} attributes.`);
+        }
+
+        const positionAccessor = gltf.accessors[attributes.POSITION];
+        const bufferId = (positionAccessor.bufferView !== undefined) ? gltf.bufferViews[positionAccessor.bufferView].buffer : 0;
+        if (!buffers.has(bufferId)) {
+            buffers.set(bufferId, new Map());
+        }
+        const signature = [attributes.POSITION, attributes.NORMAL, attributes[texCoord], primitive.indices].join(',');
+        const groups = buffers.get(bufferId);
+        if (groups.has(signature)) {
+            groups.get(signature).primitiveKeys.push(primitiveKey);
+            continue;
+        }
+
+        let indices: ArrayLike<number>;
+        if (primitive.indices !== undefined) {
+            indices = getAccessorData(fileName, gltf, gltf.accessors[primitive.indices]);
+            if (!indices) {
+                throw new Error("Can't read accessor data.");
             }
+        } else {
+            indices = Array.from(Array(positionAccessor.count).keys());
+        }
+        const tangents = generateTangents(getAttributeValues(fileName, gltf, attributes.POSITION),
+            getAttributeValues(fileName, gltf, attributes.NORMAL), getAttributeValues(fileName, gltf, attributes[texCoord]), indices);
+        groups.set(signature, { primitiveKeys: [primitiveKey], tangents: tangents });
+    }
+
+    let newAccessors: NewAccessor[] = [];
+    let newAccessorPrimitives: string[][] = [];
+    buffers.forEach((groups, bufferId) => groups.forEach(group => {
+        newAccessors.push({
+            bufferId: bufferId,
+            accessor: {
+                componentType: GLTF2.AccessorComponentType.FLOAT,
+                count: group.tangents.length / 4,
+                type: GLTF2.AccessorType.VEC4
+            } as GLTF2.Accessor,
+            data: new Uint8Array(group.tangents.buffer)
+        });
+        newAccessorPrimitives.push(group.primitiveKeys);
+    }));
+
+    const accessorIds = await addAccessors(context, newAccessors);
+    if (!accessorIds) {
+        throw new Error("The updated binary data was not saved, so no tangents were added.");
+    }
+
+    newAccessorPrimitives.forEach((primitiveKeys, index) => {
+        for (let primitiveKey of primitiveKeys) {
+            setAttribute(context, primitiveKey, 'TANGENT', accessorIds[index]);
+        }
+    });
+}
+
+registerQuickFix({
+    codes: [MESH_PRIMITIVE_GENERATED_TANGENT_SPACE],
+    title: GENERATE_TANGENTS,
+    tooltip: 'Compute tangents from the positions, normals and texture coordinates of this primitive, and add them as a TANGENT attribute.',
+    command: 'gltf.generateTangents',
+    fix: (context, diagnostic) => generatePrimitiveTangents(context, [getPrimitiveKey(context, diagnostic)]),
+    fixAllTitle: GENERATE_ALL_TANGENTS,
+    fixAllCommand: 'gltf.generateAllTangents',
+    fixAll: (context, diagnostics) => generatePrimitiveTangents(context, diagnostics.map(diagnostic => getPrimitiveKey(context, diagnostic)))
+});
+
+/////////////////////////////////////////////////////////////////
+// Recompute Normals
+
+/**
+ * Copy the raw values of an accessor for each corner of some triangles, as new binary data for a de-indexed primitive.
+ * Elements that would not start on a 4-byte boundary are given a byteStride, as vertex attributes must.
+ */
+function getDeindexedAccessor(fileName: string, gltf: GLTF2.GLTF, bufferId: number, accessorId: number, corners: number[]): NewAccessor {
+    const accessor = gltf.accessors[accessorId];
+    const data = accessor ? getSparseAccessorData(fileName, gltf, accessor) : undefined;
+    if (!data) {
+        throw new Error("Can't read accessor data.");
+    }
+
+    const numComponents = AccessorTypeToNumComponents[accessor.type];
+    let values: number[] = [];
+    for (let corner of corners) {
+        values.push(...getAccessorElement(data, corner, numComponents, accessor.componentType, false));
+    }
+
+    let newAccessor = {
+        componentType: accessor.componentType,
+        normalized: accessor.normalized,
+        count: corners.length,
+        type: accessor.type
+    } as GLTF2.Accessor;
+    if (!newAccessor.normalized) {
+        delete newAccessor.normalized;
+    }
+    if (accessor.min !== undefined || accessor.max !== undefined) {
+        newAccessor.min = new Array<number>(numComponents).fill(Infinity);
+        newAccessor.max = new Array<number>(numComponents).fill(-Infinity);
+        values.forEach((value, index) => {
+            newAccessor.min[index % numComponents] = Math.min(newAccessor.min[index % numComponents], value);
+            newAccessor.max[index % numComponents] = Math.max(newAccessor.max[index % numComponents], value);
+        });
+    }
+
+    const elementSize = numComponents * ComponentTypeToBytesPerElement[accessor.componentType];
+    const byteStride = (elementSize % 4 === 0) ? undefined : elementSize + 4 - (elementSize % 4);
+    return { bufferId: bufferId, accessor: newAccessor, data: encodeAccessorData(newAccessor, values, byteStride), byteStride: byteStride };
+}
+
+/**
+ * Replace a value in the document with new JSON, indented to match the line it starts on.
+ */
+function replaceValue(context: QuickFixContext, key: string, value: any): void {
+    const document = context.textEditor.document;
+    const pointer = context.map.pointers[key];
+    const insertables = new Insertables(context.textEditor);
+    const start = document.positionAt(pointer.value.pos);
+    const lineIndent = /^\s*/.exec(document.lineAt(start.line).text)[0];
+    const newJson = JSON.stringify(value, null, insertables.indent).split('\n').join(insertables.eol + lineIndent);
+    context.edit.replace(document.uri, new vscode.Range(start, document.positionAt(pointer.valueEnd.pos)), newJson);
+}
+
+/**
+ * Recompute the normals of a mesh primitive.  Smooth normals are added as a new NORMAL accessor.  Flat normals
+ * need a vertex for each corner of each triangle, so the primitive is de-indexed, with new accessors for every
+ * attribute and morph target, and strips and fans become plain triangle lists.
+ */
+async function recomputePrimitiveNormals(context: QuickFixContext, primitiveKey: string): Promise<void> {
+    const gltf = context.map.data;
+    const fileName = context.textEditor.document.fileName;
+    const primitive: GLTF2.MeshPrimitive = getFromJsonPointer(gltf, primitiveKey);
+    const mode = (primitive.mode === undefined) ? GLTF2.MeshPrimitiveMode.TRIANGLES : primitive.mode;
+    if (mode !== GLTF2.MeshPrimitiveMode.TRIANGLES && mode !== GLTF2.MeshPrimitiveMode.TRIANGLE_STRIP &&
+        mode !== GLTF2.MeshPrimitiveMode.TRIANGLE_FAN) {
+        throw new Error("Normals can only be computed for triangles.");
+    }
+    if (primitive.attributes.POSITION === undefined) {
+        throw new Error("This primitive has no POSITION attribute.");
+    }
+
+    const smooth = 'Smooth';
+    const flat = 'Flat';
+    const choice = await vscode.window.showQuickPick([
+        { label: smooth, description: 'Average the faces around each vertex, weighted by their area' },
+        { label: flat, description: 'Give each triangle its own normal, with a vertex for each corner' }
+    ], { placeHolder: 'Recompute Normals' });
+    if (!choice) {
+        return;
+    }
+
+    let maxAngle = 180;
+    if (choice.label === smooth) {
+        const angle = await vscode.window.showInputBox({
+            prompt: 'The largest angle, in degrees, between faces to smooth across where vertices are already split',
+            value: '30',
+            validateInput: value => (isNaN(parseFloat(value)) || parseFloat(value) < 0 || parseFloat(value) > 180) ? 'Enter an angle from 0 to 180.' : undefined
+        });
+        if (angle === undefined) {
+            return;
         }
-        defaultName = decodeURI(Url.resolve(fileName, defaultName));
+        maxAngle = parseFloat(angle);
+    }
 
-        // Ask the user for confirmation, then save the new bin file.
-        const saveOptions: vscode.SaveDialogOptions = {
-            defaultUri: vscode.Uri.file(defaultName),
-            title: 'Save Updated Model Data As',
-            filters: {
-                'Binary Data': ['bin'],
-                'All files': ['*']
+    const positionAccessor = gltf.accessors[primitive.attributes.POSITION];
+    const bufferId = (positionAccessor.bufferView !== undefined) ? gltf.bufferViews[positionAccessor.bufferView].buffer : 0;
+    const positions = getAttributeValues(fileName, gltf, primitive.attributes.POSITION);
+    let indices: ArrayLike<number>;
+    if (primitive.indices !== undefined) {
+        indices = getAccessorData(fileName, gltf, gltf.accessors[primitive.indices]);
+        if (!indices) {
+            throw new Error("Can't read accessor data.");
+        }
+    }
+    const triangles = getTriangles(positionAccessor.count, mode, indices);
+
+    const normalAccessor = (count: number) => ({ componentType: GLTF2.AccessorComponentType.FLOAT, count: count, type: GLTF2.AccessorType.VEC3 } as GLTF2.Accessor);
+    if (choice.label === smooth) {
+        const normals = computeSmoothNormals(positions, triangles, maxAngle);
+        const accessorIds = await addAccessors(context, [{ bufferId: bufferId, accessor: normalAccessor(positionAccessor.count), data: new Uint8Array(normals.buffer) }]);
+        if (accessorIds) {
+            setAttribute(context, primitiveKey, 'NORMAL', accessorIds[0]);
+        }
+        return;
+    }
+
+    // Make a vertex for every corner, copying each attribute of the primitive and its morph targets.
+    let corners: number[] = [];
+    triangles.forEach(triangle => corners.push(triangle[0], triangle[1], triangle[2]));
+    const normals = computeFlatNormals(positions, triangles);
+    const attributeSets = [primitive.attributes].concat(primitive.targets || []);
+    let newAccessors: NewAccessor[] = [{ bufferId: bufferId, accessor: normalAccessor(corners.length), data: new Uint8Array(normals.buffer) }];
+    for (let attributes of attributeSets) {
+        for (let semantic of Object.keys(attributes)) {
+            if (attributes !== primitive.attributes || semantic !== 'NORMAL') {
+                newAccessors.push(getDeindexedAccessor(fileName, gltf, bufferId, attributes[semantic], corners));
             }
-        };
-        let saveUri = await vscode.window.showSaveDialog(saveOptions);
-        // CAUTION: The provided "edit" is no longer valid after the above "await".
-        //          A new textEditor.edit must be obtained.
-
-        if (saveUri !== undefined) {
-            fs.writeFileSync(saveUri.fsPath, Buffer.from(updatedBuffer));
-
-            await textEditor.edit(edit => {
-                let replacementUri = JSON.stringify(encodeURI(path.basename(saveUri.fsPath)));
-                if (pointers.hasOwnProperty(bufferUriKey)) {
-                    const pointer = pointers[bufferUriKey];
-                    edit.replace(new vscode.Range(pointer.value.line, pointer.value.column,
-                        pointer.valueEnd.line, pointer.valueEnd.column), replacementUri);
-                    let pos = new vscode.Position(pointer.value.line, pointer.value.column);
-                    textEditor.selection = new vscode.Selection(pos, pos);
-                    textEditor.revealRange(new vscode.Range(pos, pos),
-                        vscode.TextEditorRevealType.InCenterIfOutsideViewport);
-                } else {
-                    let bufferKey = '/buffers/' + bufferId;
-                    if (!pointers.hasOwnProperty(bufferKey)) {
-                        throw new Error("Can't find buffer in JSON.");
-                    }
+        }
+    }
 
-                    const pointer = pointers[bufferKey];
-                    let insertPos = getInsertPointForKey(map, bufferKey);
-                    let newJson = ',' + eol + indent + indent + indent + '"uri": ' + replacementUri;
-                    edit.insert(document.positionAt(insertPos), newJson);
-                    let pos = new vscode.Position(pointer.value.line + 1, 0);
-                    textEditor.selection = new vscode.Selection(pos, pos);
-                    textEditor.revealRange(new vscode.Range(pos, pos),
-                        vscode.TextEditorRevealType.InCenterIfOutsideViewport);
-                }
-            });
+    const accessorIds = await addAccessors(context, newAccessors);
+    if (!accessorIds) {
+        return;
+    }
+
+    let nextId = 1;
+    const remap = (attributes: { [semantic: string]: number }) => {
+        let newAttributes: { [semantic: string]: number } = {};
+        for (let semantic of Object.keys(attributes)) {
+            if (attributes !== primitive.attributes || semantic !== 'NORMAL') {
+                newAttributes[semantic] = accessorIds[nextId++];
+            }
         }
+        return newAttributes;
+    };
+    let newPrimitive = Object.assign({}, primitive);
+    newPrimitive.attributes = Object.assign(remap(primitive.attributes), { NORMAL: accessorIds[0] });
+    if (primitive.targets) {
+        newPrimitive.targets = primitive.targets.map(remap);
+    }
+    delete newPrimitive.indices;
+    if (newPrimitive.mode !== undefined) {
+        newPrimitive.mode = GLTF2.MeshPrimitiveMode.TRIANGLES;
     }
+    replaceValue(context, primitiveKey, newPrimitive);
 }
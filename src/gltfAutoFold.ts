@@ -0,0 +1,44 @@
+import * as vscode from 'vscode';
+import { LanguageClient } from 'vscode-languageclient';
+
+// This file folds embedded buffer data and `extras` blocks when a glTF document is first shown.
+// The lines to fold are found by the language server, as 'gltf/autoFoldLines'.
+
+function isGltfFile(editor: vscode.TextEditor | undefined): boolean {
+    return editor && editor.document.uri.scheme === 'file' && editor.document.fileName.toLowerCase().endsWith('.gltf');
+}
+
+export class GltfAutoFold implements vscode.Disposable {
+    private foldedDocuments = new Set<string>();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private client: LanguageClient) {
+        this.disposables.push(vscode.window.onDidChangeActiveTextEditor(editor => this.tryFold(editor)));
+        this.disposables.push(vscode.workspace.onDidCloseTextDocument(document => this.foldedDocuments.delete(document.uri.toString())));
+        this.tryFold(vscode.window.activeTextEditor);
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private async tryFold(editor: vscode.TextEditor | undefined): Promise<void> {
+        if (!isGltfFile(editor) || !vscode.workspace.getConfiguration('glTF').get('autoFold')) {
+            return;
+        }
+        const uri = editor.document.uri.toString();
+        if (this.foldedDocuments.has(uri)) {
+            return;
+        }
+        this.foldedDocuments.add(uri);
+
+        await this.client.onReady();
+        const lines: number[] = await this.client.sendRequest('gltf/autoFoldLines', {
+            textDocument: { uri: this.client.code2ProtocolConverter.asUri(editor.document.uri) }
+        });
+        // The fold command applies to the active editor only.
+        if (lines && lines.length > 0 && vscode.window.activeTextEditor === editor) {
+            await vscode.commands.executeCommand('editor.fold', { levels: 1, selectionLines: lines });
+        }
+    }
+}
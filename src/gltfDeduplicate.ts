@@ -0,0 +1,165 @@
+import * as fs from 'fs';
+import * as Url from 'url';
+import * as crypto from 'crypto';
+import { getBuffer } from 'gltf-import-export';
+import { GLTF2 } from './GLTF2';
+import { getAccessorData, AccessorTypeToNumComponents, ComponentTypeToBytesPerElement } from './utilities';
+
+// This file finds glTF objects that duplicate an earlier object in the same collection: accessors with the
+// same data, images with the same bytes, and samplers, textures and materials with the same properties once
+// their references to duplicates are counted as references to the objects they duplicate.
+
+export interface Duplicate {
+    /** The name of the collection, such as `accessors`. */
+    collection: string;
+    index: number;
+    /** The index of the earlier object that this one duplicates. */
+    original: number;
+    /** The size of this object's own binary data, for accessors and embedded images. */
+    byteLength: number;
+}
+
+function hashBytes(bytes: Uint8Array): string {
+    return crypto.createHash('sha1').update(bytes).digest('hex');
+}
+
+/**
+ * Serialize a glTF object with its keys sorted, so that objects with the same properties serialize the same.
+ * The object's name is left out, and the values of its properties can be replaced along the way.
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function canonicalize(object: any, replace: (key: string, value: any) => any = (key, value) => value): string {
+    const serialize = (value: any): string => {
+        if (Array.isArray(value)) {
+            return '[' + value.map(serialize).join(',') + ']';
+        } else if (value !== null && typeof value === 'object') {
+            return '{' + Object.keys(value).sort().map(key => JSON.stringify(key) + ':' + serialize(replace(key, value[key]))).join(',') + '}';
+        }
+        return JSON.stringify(value);
+    };
+
+    let unnamed = Object.assign({}, object);
+    delete unnamed.name;
+    return serialize(unnamed);
+}
+
+/**
+ * Read the bytes of an image, whether it is stored in a bufferView, a data URI or an external file.
+ */
+function getImageData(fileName: string, gltf: GLTF2.GLTF, image: GLTF2.Image): Buffer | undefined {
+    if (image.bufferView !== undefined) {
+        const bufferView = gltf.bufferViews[image.bufferView];
+        if (!bufferView) {
+            return undefined;
+        }
+        const byteOffset = bufferView.byteOffset || 0;
+        return getBuffer(gltf, bufferView.buffer, fileName).subarray(byteOffset, byteOffset + bufferView.byteLength);
+    }
+    if (typeof image.uri !== 'string') {
+        return undefined;
+    }
+    if (image.uri.startsWith('data:')) {
+        const dataStart = image.uri.indexOf(';base64,');
+        return (dataStart >= 0) ? Buffer.from(image.uri.substring(dataStart + 8), 'base64') : undefined;
+    }
+
+    const name = decodeURI(Url.resolve(fileName, image.uri));
+    return fs.existsSync(name) ? fs.readFileSync(name) : undefined;
+}
+
+/**
+ * Find the accessors, images, samplers, textures and materials that duplicate an earlier object of the
+ * same kind.  Sparse accessors, and objects whose data cannot be read, are not compared.
+ *
+ * @param fileName The full path of the glTF file, against which relative URIs are resolved
+ * @param gltf The glTF root object
+ * @returns The duplicates, each with the first object it duplicates
+ */
+export function findDuplicates(fileName: string, gltf: GLTF2.GLTF): Duplicate[] {
+    let duplicates: Duplicate[] = [];
+
+    // Find the objects of a collection with the same key, returning the index of the original of each object.
+    const find = (collection: string, getKey: (index: number) => string | undefined,
+        getByteLength: (index: number) => number = () => 0): number[] => {
+        const numObjects = Array.isArray(gltf[collection]) ? gltf[collection].length : 0;
+        let originals: number[] = [];
+        let keyOriginals = new Map<string, number>();
+        for (let index = 0; index < numObjects; ++index) {
+            const key = getKey(index);
+            if (key === undefined || !keyOriginals.has(key)) {
+                if (key !== undefined) {
+                    keyOriginals.set(key, index);
+                }
+                originals.push(index);
+                continue;
+            }
+
+            const original = keyOriginals.get(key);
+            duplicates.push({ collection: collection, index: index, original: original, byteLength: getByteLength(index) });
+            originals.push(original);
+        }
+        return originals;
+    };
+
+    // References to duplicates count as references to their originals, so their referrers can match too.
+    const getOriginal = (originals: number[], value: any) =>
+        (typeof value === 'number' && originals[value] !== undefined) ? originals[value] : value;
+
+    find('accessors', index => {
+        const accessor = gltf.accessors[index];
+        if (accessor.bufferView === undefined || accessor.sparse) {
+            return undefined;
+        }
+        let data: ArrayLike<number>;
+        try {
+            data = getAccessorData(fileName, gltf, accessor);
+        } catch (ex) {
+            return undefined;
+        }
+        if (!data) {
+            return undefined;
+        }
+
+        let properties = Object.assign({}, accessor);
+        delete properties.bufferView;
+        delete properties.byteOffset;
+        const view = data as unknown as ArrayBufferView;
+        return canonicalize(properties) + hashBytes(new Uint8Array(view.buffer, view.byteOffset, view.byteLength));
+    }, index => {
+        const accessor = gltf.accessors[index];
+        return AccessorTypeToNumComponents[accessor.type] * ComponentTypeToBytesPerElement[accessor.componentType] * accessor.count;
+    });
+
+    const imageOriginals = find('images', index => {
+        const image = gltf.images[index];
+        let data: Buffer;
+        try {
+            data = getImageData(fileName, gltf, image);
+        } catch (ex) {
+            return undefined;
+        }
+        return data ? (image.mimeType || '') + ' ' + hashBytes(data) : undefined;
+    }, index => {
+        // An external image file is not removed, so only embedded images save space.
+        const image = gltf.images[index];
+        if (image.bufferView !== undefined && gltf.bufferViews[image.bufferView]) {
+            return gltf.bufferViews[image.bufferView].byteLength;
+        }
+        return (typeof image.uri === 'string' && image.uri.startsWith('data:')) ? Math.floor(image.uri.length * 0.75) : 0;
+    });
+
+    const samplerOriginals = find('samplers', index => canonicalize(gltf.samplers[index]));
+
+    // Texture extensions, such as EXT_texture_webp, also name their images as `source`.
+    const textureOriginals = find('textures', index => canonicalize(gltf.textures[index], (key, value) => {
+        if (key === 'source') {
+            return getOriginal(imageOriginals, value);
+        }
+        return (key === 'sampler') ? getOriginal(samplerOriginals, value) : value;
+    }));
+
+    find('materials', index => canonicalize(gltf.materials[index], (key, value) =>
+        (key === 'index') ? getOriginal(textureOriginals, value) : value));
+
+    return duplicates;
+}
@@ -0,0 +1,65 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as Url from 'url';
+import { ConvertToGLB, getBuffer } from 'gltf-import-export';
+import { GLTF2 } from './GLTF2';
+import { repackBuffer } from './utilities';
+
+// This file writes a node subtree, already extracted from a glTF document by the language server, to a
+// standalone `.gltf` or `.glb` file.  Each buffer is repacked to hold only the data of the bufferViews that
+// the subtree still uses, and external images are referenced relative to the new file.
+
+/**
+ * Write an extracted glTF to a new file.  A `.glb` file embeds the buffers and images.  Beside a `.gltf` file,
+ * each buffer that was an external file is written to a new `.bin` file named after it, while embedded buffers
+ * stay embedded.
+ *
+ * @param glTF The extracted glTF root object, whose URIs are relative to the document, which is modified
+ * @param documentFileName The full path of the glTF document that the subtree was extracted from
+ * @param outputFileName The full path of the `.gltf` or `.glb` file to write
+ * @param indent The indent to format a `.gltf` file with
+ * @returns The full paths of the files written
+ */
+export function writeExtractedGltf(glTF: GLTF2.GLTF, documentFileName: string, outputFileName: string, indent: string): string[] {
+    const isGlb = outputFileName.toLowerCase().endsWith('.glb');
+    const outputFolder = path.dirname(outputFileName);
+    const baseName = path.basename(outputFileName, path.extname(outputFileName));
+    const buffers = glTF.buffers || [];
+    let writtenFiles: string[] = [];
+
+    for (let bufferId = 0; bufferId < buffers.length; ++bufferId) {
+        const buffer = buffers[bufferId];
+        const bufferViews = (glTF.bufferViews || []).filter(bufferView => bufferView.buffer === bufferId);
+        const repacked = repackBuffer(getBuffer(glTF, bufferId, documentFileName), bufferViews);
+        bufferViews.forEach((bufferView, index) => {
+            if (bufferView.byteOffset !== undefined || repacked.byteOffsets[index] > 0) {
+                bufferView.byteOffset = repacked.byteOffsets[index];
+            }
+        });
+        buffer.byteLength = repacked.data.length;
+
+        if (isGlb || typeof buffer.uri !== 'string' || buffer.uri.startsWith('data:')) {
+            buffer.uri = 'data:application/octet-stream;base64,' + repacked.data.toString('base64');
+        } else {
+            const binFileName = baseName + ((buffers.length > 1) ? '_' + bufferId : '') + '.bin';
+            fs.writeFileSync(path.join(outputFolder, binFileName), repacked.data);
+            writtenFiles.push(path.join(outputFolder, binFileName));
+            buffer.uri = encodeURI(binFileName);
+        }
+    }
+
+    if (isGlb) {
+        // The converter resolves the remaining external images against the document.
+        ConvertToGLB(glTF, documentFileName, outputFileName);
+    } else {
+        for (let image of glTF.images || []) {
+            if (typeof image.uri === 'string' && !image.uri.startsWith('data:')) {
+                const relative = path.relative(outputFolder, decodeURI(Url.resolve(documentFileName, image.uri)));
+                image.uri = encodeURI(relative.split(path.sep).join('/'));
+            }
+        }
+        fs.writeFileSync(outputFileName, JSON.stringify(glTF, null, indent));
+    }
+    writtenFiles.unshift(outputFileName);
+    return writtenFiles;
+}
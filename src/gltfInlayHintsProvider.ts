@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+import { LanguageClient } from 'vscode-languageclient';
+
+// This file shows the language server's inlay hints, which name the objects that glTF indices refer to.
+// The server's protocol version predates inlay hints, so they are fetched with a custom request.
+
+interface GltfInlayHint {
+    position: { line: number, character: number };
+    label: string;
+}
+
+export class GltfInlayHintsProvider implements vscode.InlayHintsProvider, vscode.Disposable {
+    private _onDidChangeInlayHints = new vscode.EventEmitter<void>();
+    private disposables: vscode.Disposable[] = [this._onDidChangeInlayHints];
+
+    public readonly onDidChangeInlayHints = this._onDidChangeInlayHints.event;
+
+    constructor(private client: LanguageClient) {
+        this.disposables.push(vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('glTF.InlayHints')) {
+                this._onDidChangeInlayHints.fire();
+            }
+        }));
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    public async provideInlayHints(document: vscode.TextDocument, range: vscode.Range, token: vscode.CancellationToken): Promise<vscode.InlayHint[]> {
+        await this.client.onReady();
+        const hints: GltfInlayHint[] = await this.client.sendRequest('gltf/inlayHints', {
+            textDocument: { uri: this.client.code2ProtocolConverter.asUri(document.uri) },
+            range: this.client.code2ProtocolConverter.asRange(range)
+        }, token);
+        if (!hints) {
+            return [];
+        }
+
+        return hints.map(hint => {
+            const inlayHint = new vscode.InlayHint(this.client.protocol2CodeConverter.asPosition(hint.position), hint.label);
+            inlayHint.paddingLeft = true;
+            return inlayHint;
+        });
+    }
+}
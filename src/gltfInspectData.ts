@@ -3,7 +3,7 @@ import * as path from 'path';
 import * as os from 'os';
 import { GltfWindow } from './gltfWindow';
 import { GLTF2 } from './GLTF2';
-import { getFromJsonPointer, getAccessorData, getAccessorElement, AccessorTypeToNumComponents } from './utilities';
+import { getFromJsonPointer, getAccessorData, getAccessorElement, getTriangles, AccessorTypeToNumComponents } from './utilities';
 import { sprintf } from 'sprintf-js';
 import { GltfPreviewPanel } from './gltfPreview';
 
@@ -274,57 +274,12 @@ function getVerticesNode(fileName: string, gltf: GLTF2.GLTF, attributes: { [name
 }
 
 function getTriangleNodes(numVertices: number, mode: GLTF2.MeshPrimitiveMode, data: ArrayLike<number> | undefined): TriangleNode[] {
-    const get = data ? (i: number) => data[i] : (i: number) => i;
-    const length = data ? data.length : numVertices;
-    let nodes: TriangleNode[];
-
-    function setNode(index: number, vertices: [number, number, number]): void {
-        nodes[index] = {
-            type: NodeType.Triangle,
-            label: `${formatVector(vertices, false)}`,
-            index: index,
-            vertices: vertices
-        };
-    }
-
-    switch (mode) {
-        case GLTF2.MeshPrimitiveMode.TRIANGLES: {
-            nodes = new Array(length / 3);
-            for (let index = 0; index < nodes.length; index++) {
-                setNode(index, [
-                    get(index * 3),
-                    get(index * 3 + 1),
-                    get(index * 3 + 2)
-                ]);
-            }
-            break;
-        }
-        case GLTF2.MeshPrimitiveMode.TRIANGLE_FAN: {
-            nodes = new Array(length - 2);
-            for (let index = 0; index < nodes.length; index++) {
-                setNode(index, [
-                    get(0),
-                    get(index + 1),
-                    get(index + 2)
-                ]);
-            }
-            break;
-        }
-        case GLTF2.MeshPrimitiveMode.TRIANGLE_STRIP: {
-            nodes = new Array(length - 2);
-            for (let index = 0; index < nodes.length; index++) {
-                const flip = (index & 1) === 1;
-                setNode(index, [
-                    get(flip ? index + 2 : index),
-                    get(index + 1),
-                    get(flip ? index : index + 2)
-                ]);
-            }
-            break;
-        }
-    }
-
-    return nodes;
+    return getTriangles(numVertices, mode, data).map((vertices, index): TriangleNode => ({
+        type: NodeType.Triangle,
+        label: `${formatVector(vertices, false)}`,
+        index: index,
+        vertices: vertices
+    }));
 }
 
 function getLineNodes(numVertices: number, mode: GLTF2.MeshPrimitiveMode, data: ArrayLike<number> | undefined): LineNode[] {
@@ -593,7 +548,7 @@ export class GltfInspectData implements vscode.TreeDataProvider<Node> {
         this._onDidChangeTreeData.fire(undefined);
     }
 
-    private updateSelection(panel: GltfPreviewPanel, selection: Node[]): void {
+    private updateSelection(panel: GltfPreviewPanel, selection: readonly Node[]): void {
         const vertices = selection.filter(node => node.type === NodeType.Vertex).map((node: VertexNode) => node.index);
 
         const triangles = selection.filter(node => node.type === NodeType.Triangle).map((node: TriangleNode) => ({ index: node.index, vertices: node.vertices }));
@@ -0,0 +1,62 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as Url from 'url';
+import { ConvertGLBtoGltfLoadFirst, getBuffer } from 'gltf-import-export';
+import { GLTF2 } from './GLTF2';
+import { guessMimeType } from './utilities';
+
+// This file loads another glTF or GLB file to be merged into the open glTF document.  The external files
+// that the loaded glTF refers to are made reachable from the document: relative URIs are rewritten to
+// be relative to the document, and the files extracted from a GLB, which are only temporary, are embedded.
+
+export interface LoadedGltf {
+    glTF: GLTF2.GLTF;
+    /** The binary data of each buffer of the loaded glTF. */
+    buffers: Buffer[];
+}
+
+/**
+ * Load a `.gltf` or `.glb` file.  A GLB is converted to `.gltf` in a temporary folder, in the same way as
+ * `glTF: Import from GLB`, and then its buffers and images are embedded as data URIs.
+ *
+ * @param fileName The full path of the file to load
+ * @param documentFileName The full path of the glTF document that the loaded glTF will be merged into
+ * @returns The loaded glTF, and the data of its buffers
+ */
+export async function loadGltfFile(fileName: string, documentFileName: string): Promise<LoadedGltf> {
+    const isGlb = fileName.toLowerCase().endsWith('.glb');
+    let tempFolder: string;
+    let gltfFileName = fileName;
+    try {
+        if (isGlb) {
+            tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'gltf-merge-'));
+            gltfFileName = await ConvertGLBtoGltfLoadFirst(fileName,
+                async () => path.join(tempFolder, path.basename(fileName).replace(/\.glb$/i, '.gltf')));
+        }
+
+        const glTF: GLTF2.GLTF = JSON.parse(fs.readFileSync(gltfFileName, 'utf-8'));
+        const buffers = (glTF.buffers || []).map((buffer, index) => getBuffer(glTF, index, gltfFileName) as Buffer);
+
+        const relocate = (resource: { uri?: string }, mimeType: string) => {
+            if (typeof resource.uri !== 'string' || resource.uri.startsWith('data:')) {
+                return;
+            }
+            const resolved = decodeURI(Url.resolve(gltfFileName, resource.uri));
+            if (isGlb) {
+                resource.uri = `data:${mimeType || guessMimeType(resolved)};base64,` + fs.readFileSync(resolved).toString('base64');
+            } else {
+                const relative = path.relative(path.dirname(documentFileName), resolved);
+                resource.uri = encodeURI(relative.split(path.sep).join('/'));
+            }
+        };
+        (glTF.buffers || []).forEach(buffer => relocate(buffer, 'application/octet-stream'));
+        (glTF.images || []).forEach(image => relocate(image, image.mimeType));
+
+        return { glTF: glTF, buffers: buffers };
+    } finally {
+        if (tempFolder) {
+            fs.rmSync(tempFolder, { recursive: true, force: true });
+        }
+    }
+}
@@ -0,0 +1,104 @@
+// This file computes vertex normals for the triangles of a mesh primitive, either smooth, where each vertex
+// averages the faces around it, or flat, where each corner of each triangle takes the normal of its face.
+
+type Vec3 = [number, number, number];
+
+/**
+ * Compute the normal of a triangle, with a length of twice its area so that larger faces count for more.
+ */
+function getFaceNormal(positions: ArrayLike<number>, triangle: [number, number, number]): Vec3 {
+    const [a, b, c] = triangle;
+    const e1: Vec3 = [positions[b * 3] - positions[a * 3], positions[b * 3 + 1] - positions[a * 3 + 1], positions[b * 3 + 2] - positions[a * 3 + 2]];
+    const e2: Vec3 = [positions[c * 3] - positions[a * 3], positions[c * 3 + 1] - positions[a * 3 + 1], positions[c * 3 + 2] - positions[a * 3 + 2]];
+    return [e1[1] * e2[2] - e1[2] * e2[1], e1[2] * e2[0] - e1[0] * e2[2], e1[0] * e2[1] - e1[1] * e2[0]];
+}
+
+function getLength(a: Vec3): number {
+    return Math.sqrt(a[0] * a[0] + a[1] * a[1] + a[2] * a[2]);
+}
+
+/**
+ * Scale a vector to unit length.  A zero vector, such as for a vertex that no triangle uses,
+ * becomes +Z so that every normal is a unit vector.
+ */
+function toUnit(a: Vec3): Vec3 {
+    const length = getLength(a);
+    return (length > 0 && isFinite(length)) ? [a[0] / length, a[1] / length, a[2] / length] : [0, 0, 1];
+}
+
+/**
+ * Compute area-weighted smooth normals.  Each vertex averages the faces that use it, along with the faces
+ * of other vertices at the same position whose normals are within an angle of that average.  Vertices that
+ * already have been split, such as along a hard edge, are smoothed across that edge only when it is shallow.
+ *
+ * @param positions The POSITION values, three per vertex
+ * @param triangles The vertex indices of each triangle
+ * @param maxAngle The largest angle, in degrees, between faces that are smoothed together across split vertices
+ * @returns The NORMAL values, three per vertex
+ */
+export function computeSmoothNormals(positions: ArrayLike<number>, triangles: [number, number, number][], maxAngle: number): Float32Array {
+    const vertexCount = Math.floor(positions.length / 3);
+    const faceNormals = triangles.map(triangle => getFaceNormal(positions, triangle));
+
+    // Find the faces of each vertex, and the vertices at each position.
+    let vertexFaces: number[][] = [];
+    for (let i = 0; i < vertexCount; ++i) {
+        vertexFaces.push([]);
+    }
+    triangles.forEach((triangle, face) => triangle.forEach(vertex => {
+        if (vertex < vertexCount && vertexFaces[vertex].indexOf(face) < 0) {
+            vertexFaces[vertex].push(face);
+        }
+    }));
+
+    let positionVertices = new Map<string, number[]>();
+    for (let i = 0; i < vertexCount; ++i) {
+        const key = [positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]].join(',');
+        if (!positionVertices.has(key)) {
+            positionVertices.set(key, []);
+        }
+        positionVertices.get(key).push(i);
+    }
+
+    const minCos = Math.cos(Math.min(Math.max(maxAngle, 0), 180) * Math.PI / 180);
+    let normals = new Float32Array(vertexCount * 3);
+    positionVertices.forEach(vertices => {
+        for (let vertex of vertices) {
+            let sum: Vec3 = [0, 0, 0];
+            for (let face of vertexFaces[vertex]) {
+                sum = [sum[0] + faceNormals[face][0], sum[1] + faceNormals[face][1], sum[2] + faceNormals[face][2]];
+            }
+
+            const ownNormal = toUnit(sum);
+            for (let other of vertices) {
+                for (let face of (other === vertex) ? [] : vertexFaces[other]) {
+                    const faceNormal = faceNormals[face];
+                    const length = getLength(faceNormal);
+                    const isOwnFace = vertexFaces[vertex].indexOf(face) >= 0;
+                    if (!isOwnFace && length > 0 &&
+                        (faceNormal[0] * ownNormal[0] + faceNormal[1] * ownNormal[1] + faceNormal[2] * ownNormal[2]) / length >= minCos) {
+                        sum = [sum[0] + faceNormal[0], sum[1] + faceNormal[1], sum[2] + faceNormal[2]];
+                    }
+                }
+            }
+            normals.set(toUnit(sum), vertex * 3);
+        }
+    });
+    return normals;
+}
+
+/**
+ * Compute flat normals, giving each corner of each triangle the normal of its face.
+ *
+ * @param positions The POSITION values, three per vertex
+ * @param triangles The vertex indices of each triangle
+ * @returns The NORMAL values, three for each corner of each triangle in order
+ */
+export function computeFlatNormals(positions: ArrayLike<number>, triangles: [number, number, number][]): Float32Array {
+    let normals = new Float32Array(triangles.length * 9);
+    triangles.forEach((triangle, face) => {
+        const normal = toUnit(getFaceNormal(positions, triangle));
+        normals.set(normal.concat(normal, normal), face * 9);
+    });
+    return normals;
+}
@@ -4,16 +4,17 @@ import * as fs from 'fs';
 import * as Url from 'url';
 import * as jsonMap from 'json-source-map';
 import { sprintf } from 'sprintf-js';
-import { GLTF2 } from './GLTF2';
 import { AccessorTypeToNumComponents, ComponentTypeToBytesPerElement } from './utilities';
 import { GltfWindow } from './gltfWindow';
 
-export declare type GltfNodeType = 'animation' | 'material' | 'mesh' | 'node' | 'scene' | 'skeleton' | 'skin' | 'texture' | 'root';
+export declare type GltfNodeType = 'animation' | 'group' | 'material' | 'mesh' | 'node' | 'program' | 'scene' | 'shader' | 'skeleton' | 'skin' | 'texture' | 'root';
 
-interface GltfNode {
+export interface GltfNode {
     parent?: GltfNode;
     children: GltfNode[];
     range?: vscode.Range;
+    /** The JSON pointer of the glTF node that this outline node shows, such as `/nodes/3`. */
+    jsonPointer?: string;
     name: string;
     type: GltfNodeType;
     size?: number;
@@ -36,7 +37,9 @@ const knownTextureExtensions = [
 export class GltfOutline implements vscode.TreeDataProvider<GltfNode> {
     private tree: GltfNode;
     private editor: vscode.TextEditor;
-    private gltf: GLTF2.GLTF;
+    // glTF 2.0 uses arrays and numeric indices, while glTF 1.0 uses dictionaries keyed by string IDs.
+    // Collections are walked with `Object.keys`, which covers both.
+    private gltf: any;
     private pointers: any;
     private skinMap = new Map<string, Set<string>>(); // jointId (nodeId) to Set of skinIds
     private skeletonMap = new Map<string, Set<string>>(); // nodeId (skeleton) to Set of skinIds
@@ -141,7 +144,7 @@ export class GltfOutline implements vscode.TreeDataProvider<GltfNode> {
             this.gltf = mapResult.data;
             this.pointers = mapResult.pointers;
             if (this.gltf && this.gltf.asset && this.gltf.asset.version) {
-                if (this.gltf.asset.version[0] !== '2') {
+                if (this.gltf.asset.version[0] !== '2' && this.gltf.asset.version[0] !== '1') {
                     this.gltf = null;
                 }
             } else {
@@ -156,8 +159,10 @@ export class GltfOutline implements vscode.TreeDataProvider<GltfNode> {
         this.skinMap.clear();
         this.skeletonMap.clear();
 
-        if (this.gltf && this.gltf.skins) {
-            for (let skinIndex = 0; skinIndex < this.gltf.skins.length; skinIndex++) {
+        if (this.gltf.asset.version[0] === '1') {
+            this.populateGltf1SkinMap();
+        } else if (this.gltf.skins) {
+            for (let skinIndex of Object.keys(this.gltf.skins)) {
                 let skin = this.gltf.skins[skinIndex];
                 this.populateSkinMap(skinIndex, skin);
             }
@@ -174,7 +179,7 @@ export class GltfOutline implements vscode.TreeDataProvider<GltfNode> {
             this.createAsset(this.tree);
 
             if (this.gltf.scenes) {
-                for (let sceneIndex = 0; sceneIndex < this.gltf.scenes.length; sceneIndex++) {
+                for (let sceneIndex of Object.keys(this.gltf.scenes)) {
                     let scene = this.gltf.scenes[sceneIndex];
                     this.createScene(scene, sceneIndex, this.tree);
                 }
@@ -196,16 +201,52 @@ export class GltfOutline implements vscode.TreeDataProvider<GltfNode> {
         this._onDidChangeTreeData.fire(undefined);
     }
 
-    private populateSkinMap(skinIndex: number, skin: any) {
+    private populateSkinMap(skinIndex: string, skin: any) {
         if (!this.skeletonMap.has(skin.skeleton)) {
             this.skeletonMap.set(skin.skeleton, new Set<string>());
         }
-        this.skeletonMap.get(skin.skeleton).add(skinIndex.toString());
+        this.skeletonMap.get(skin.skeleton).add(skinIndex);
         for (let joint of skin.joints) {
             if (!this.skinMap.has(joint)) {
                 this.skinMap.set(joint, new Set<string>());
             }
-            this.skinMap.get(joint).add(skinIndex.toString());
+            this.skinMap.get(joint).add(skinIndex);
+        }
+    }
+
+    /**
+     * In glTF 1.0, skinned nodes list the root nodes of their skeletons,
+     * and skins name their joints by the `jointName` of each joint node.
+     */
+    private populateGltf1SkinMap() {
+        let nodes = this.gltf.nodes || {};
+        let jointNodeIds = new Map<string, string>();
+        for (let nodeId of Object.keys(nodes)) {
+            if (nodes[nodeId].jointName !== undefined) {
+                jointNodeIds.set(nodes[nodeId].jointName, nodeId);
+            }
+        }
+        for (let nodeId of Object.keys(nodes)) {
+            let node = nodes[nodeId];
+            if (node.skin !== undefined && node.skeletons) {
+                for (let skeleton of node.skeletons) {
+                    if (!this.skeletonMap.has(skeleton)) {
+                        this.skeletonMap.set(skeleton, new Set<string>());
+                    }
+                    this.skeletonMap.get(skeleton).add(node.skin);
+                }
+            }
+        }
+        for (let skinId of Object.keys(this.gltf.skins || {})) {
+            for (let jointName of (this.gltf.skins[skinId].jointNames || [])) {
+                let joint = jointNodeIds.get(jointName);
+                if (joint !== undefined) {
+                    if (!this.skinMap.has(joint)) {
+                        this.skinMap.set(joint, new Set<string>());
+                    }
+                    this.skinMap.get(joint).add(skinId);
+                }
+            }
         }
     }
 
@@ -221,67 +262,67 @@ export class GltfOutline implements vscode.TreeDataProvider<GltfNode> {
         let assetObj: GltfNode = {
             name: 'Asset',
             children: [],
-            type: 'node',
+            type: 'group',
             parent: parent
         };
         parent.children.push(assetObj);
 
         let totalSize = this.editor.document.getText().length;
-        if (this.gltf.buffers && this.gltf.buffers.length > 0) {
-            for (let buffer of this.gltf.buffers) {
-                totalSize += buffer.byteLength;
+        if (this.gltf.buffers) {
+            for (let bufferIndex of Object.keys(this.gltf.buffers)) {
+                totalSize += this.gltf.buffers[bufferIndex].byteLength;
             }
         }
 
-        if (this.gltf.meshes && this.gltf.meshes.length > 0) {
+        if (this.gltf.meshes && Object.keys(this.gltf.meshes).length > 0) {
             let meshesPointer = this.pointers['/meshes'];
             let meshesObj: GltfNode = {
                 name: 'Meshes',
                 children: [],
-                type: 'node',
+                type: 'group',
                 parent: assetPointer,
                 size: 0,
                 range: new vscode.Range(this.editor.document.positionAt(meshesPointer.value.pos), this.editor.document.positionAt(meshesPointer.valueEnd.pos))
             };
             assetObj.children.push(meshesObj);
             let vertices = 0;
-            for (let index = 0; index < this.gltf.meshes.length; index++) {
-                let sizeInfo = this.createMesh(index.toString(), undefined, meshesObj, true);
+            for (let index of Object.keys(this.gltf.meshes)) {
+                let sizeInfo = this.createMesh(index, undefined, meshesObj, true);
                 meshesObj.size += sizeInfo.size;
                 vertices += sizeInfo.vertices;
             }
             meshesObj.name += ` (${this.formatVertices(vertices)} vertices)`;
         }
 
-        if (this.gltf.animations && this.gltf.animations.length > 0) {
+        if (this.gltf.animations && Object.keys(this.gltf.animations).length > 0) {
             let animationsPointer = this.pointers['/animations'];
             let animationObj: GltfNode = {
                 name: 'Animations',
                 children: [],
-                type: 'node',
+                type: 'group',
                 parent: assetPointer,
                 size: 0,
                 range: new vscode.Range(this.editor.document.positionAt(animationsPointer.value.pos), this.editor.document.positionAt(animationsPointer.valueEnd.pos))
             };
             assetObj.children.push(animationObj);
-            for (let index = 0; index < this.gltf.animations.length; index++) {
-                animationObj.size += this.createAnimation(index.toString(), animationObj);
+            for (let index of Object.keys(this.gltf.animations)) {
+                animationObj.size += this.createAnimation(index, animationObj);
             }
         }
 
-        if (this.gltf.textures && this.gltf.textures.length > 0) {
+        if (this.gltf.textures && Object.keys(this.gltf.textures).length > 0) {
             let texturePointer = this.pointers['/textures'];
             let textureObj: GltfNode = {
                 name: 'Textures',
                 children: [],
-                type: 'node',
+                type: 'group',
                 parent: assetPointer,
                 size: 0,
                 range: new vscode.Range(this.editor.document.positionAt(texturePointer.value.pos), this.editor.document.positionAt(texturePointer.valueEnd.pos))
             };
             assetObj.children.push(textureObj);
-            for (let index = 0; index < this.gltf.textures.length; index++) {
-                textureObj.size += this.createTexture('Asset', { index: index.toString() }, textureObj, true) || 0;
+            for (let index of Object.keys(this.gltf.textures)) {
+                textureObj.size += this.createTexture('Asset', { index: index }, textureObj, true) || 0;
             }
             totalSize += textureObj.size;
         }
@@ -295,7 +336,7 @@ export class GltfOutline implements vscode.TreeDataProvider<GltfNode> {
             let otherObj: GltfNode = {
                 name: 'Other',
                 children: [],
-                type: 'node',
+                type: 'group',
                 parent: assetPointer,
                 size: otherSize
             };
@@ -317,10 +358,12 @@ export class GltfOutline implements vscode.TreeDataProvider<GltfNode> {
 
         let channelCount = animation.channels.length;
         let samplerSize = 0;
+        // glTF 1.0 samplers name animation parameters, which name the accessors.
+        let getAccessorId = (id: string) => animation.parameters ? animation.parameters[id] : id;
         for (let channel of animation.channels) {
             let sampler = animation.samplers[channel.sampler];
-            samplerSize += this.sizeOfAccessor(sampler.input);
-            samplerSize += this.sizeOfAccessor(sampler.output);
+            samplerSize += this.sizeOfAccessor(getAccessorId(sampler.input));
+            samplerSize += this.sizeOfAccessor(getAccessorId(sampler.output));
         }
         animationObj.name += ` (${channelCount} channels)`;
         animationObj.size = samplerSize;
@@ -336,10 +379,10 @@ export class GltfOutline implements vscode.TreeDataProvider<GltfNode> {
         return numComponents * sizeOfComponent * accessor.count;
     }
 
-    private createScene(scene: any, sceneIndex: number, parent: GltfNode): void {
+    private createScene(scene: any, sceneIndex: string, parent: GltfNode): void {
         let pointer = this.pointers['/scenes/' + sceneIndex];
         let sceneObj: GltfNode = {
-            name: this.createName('Scene', sceneIndex.toString(), scene),
+            name: this.createName('Scene', sceneIndex, scene),
             children: [],
             type: 'scene',
             parent: parent,
@@ -363,13 +406,20 @@ export class GltfOutline implements vscode.TreeDataProvider<GltfNode> {
             children: [],
             type: this.skeletonMap.has(nodeIndex) ? 'skeleton' : this.skinMap.has(nodeIndex) ? 'skin' : 'node',
             parent: parent,
-            range: new vscode.Range(this.editor.document.positionAt(pointer.value.pos), this.editor.document.positionAt(pointer.valueEnd.pos))
+            range: new vscode.Range(this.editor.document.positionAt(pointer.value.pos), this.editor.document.positionAt(pointer.valueEnd.pos)),
+            jsonPointer: '/nodes/' + nodeIndex
         };
         parent.children.push(nodeObj);
 
         if (node.mesh !== undefined) {
             this.createMesh(node.mesh, node.skin, nodeObj, false);
         }
+        if (node.meshes) {
+            // glTF 1.0 nodes may have several meshes.
+            for (let meshIndex of node.meshes) {
+                this.createMesh(meshIndex, node.skin, nodeObj, false);
+            }
+        }
         if (node.children) {
             for (let nodeChildrenIndex = 0; nodeChildrenIndex < node.children.length; nodeChildrenIndex++) {
                 let childNodeIndex = node.children[nodeChildrenIndex];
@@ -380,11 +430,11 @@ export class GltfOutline implements vscode.TreeDataProvider<GltfNode> {
         this.createNodeAnimations(nodeIndex, nodeObj);
     }
 
-    private forEachAnimationChannel(callback: (animationIndex: number, channelIndex: number, target: any) => void): void {
+    private forEachAnimationChannel(callback: (animationIndex: string, channelIndex: number, target: any) => void): void {
         if (this.gltf.animations === undefined) {
             return;
         }
-        for (let animationIndex = 0; animationIndex < this.gltf.animations.length; animationIndex++) {
+        for (let animationIndex of Object.keys(this.gltf.animations)) {
             let animation = this.gltf.animations[animationIndex];
             for (let channelIndex = 0; channelIndex < animation.channels.length; channelIndex++) {
                 let target = animation.channels[channelIndex].target;
@@ -394,9 +444,11 @@ export class GltfOutline implements vscode.TreeDataProvider<GltfNode> {
     }
 
     private createNodeAnimations(nodeIndex: string, parent: GltfNode): void {
-        this.forEachAnimationChannel((animationIndex: number, channelIndex: number, target: any) => {
-            if (target.node === nodeIndex) {
-                let pointerPath = '/animations/' + animationIndex.toString() + '/channels/' + channelIndex.toString();
+        this.forEachAnimationChannel((animationIndex: string, channelIndex: number, target: any) => {
+            // glTF 1.0 targets name their node as `id`.
+            let targetNode = (target.node !== undefined) ? target.node : target.id;
+            if (targetNode === nodeIndex) {
+                let pointerPath = '/animations/' + animationIndex + '/channels/' + channelIndex.toString();
                 let pointer = this.pointers[pointerPath];
 
                 let animation = this.gltf.animations[animationIndex];
@@ -557,6 +609,69 @@ export class GltfOutline implements vscode.TreeDataProvider<GltfNode> {
             this.createTexture('PBR Base Color', material.pbrMetallicRoughness.baseColorTexture, materialObj);
             this.createTexture('Metallic Roughness', material.pbrMetallicRoughness.metallicRoughnessTexture, materialObj);
         }
+
+        // glTF 1.0 materials have a technique, and name their textures among their values.
+        if (material.technique !== undefined) {
+            this.createTechnique(material.technique, materialObj);
+        }
+        if (material.values && this.gltf.textures) {
+            for (let valueName of Object.keys(material.values)) {
+                let value = material.values[valueName];
+                if (typeof value === 'string' && this.gltf.textures.hasOwnProperty(value)) {
+                    this.createTexture(valueName, { index: value }, materialObj);
+                }
+            }
+        }
+    }
+
+    private createTechnique(techniqueId: string, parent: GltfNode): void {
+        let technique = this.gltf.techniques && this.gltf.techniques[techniqueId];
+        if (!technique) {
+            return;
+        }
+
+        let pointer = this.pointers['/techniques/' + techniqueId];
+        let techniqueObj: GltfNode = {
+            name: this.createName('Technique', techniqueId, technique),
+            children: [],
+            type: 'material',
+            parent: parent,
+            range: new vscode.Range(this.editor.document.positionAt(pointer.value.pos), this.editor.document.positionAt(pointer.valueEnd.pos))
+        };
+        parent.children.push(techniqueObj);
+
+        let program = this.gltf.programs && this.gltf.programs[technique.program];
+        if (!program) {
+            return;
+        }
+        let programPointer = this.pointers['/programs/' + technique.program];
+        let programObj: GltfNode = {
+            name: this.createName('Program', technique.program, program),
+            children: [],
+            type: 'program',
+            parent: techniqueObj,
+            range: new vscode.Range(this.editor.document.positionAt(programPointer.value.pos), this.editor.document.positionAt(programPointer.valueEnd.pos))
+        };
+        techniqueObj.children.push(programObj);
+
+        this.createShader('Vertex Shader', program.vertexShader, programObj);
+        this.createShader('Fragment Shader', program.fragmentShader, programObj);
+    }
+
+    private createShader(typeName: string, shaderId: string, parent: GltfNode): void {
+        let shader = this.gltf.shaders && this.gltf.shaders[shaderId];
+        if (!shader) {
+            return;
+        }
+
+        let pointer = this.pointers['/shaders/' + shaderId];
+        parent.children.push({
+            name: this.createName(typeName, shaderId, shader),
+            children: [],
+            type: 'shader',
+            parent: parent,
+            range: new vscode.Range(this.editor.document.positionAt(pointer.value.pos), this.editor.document.positionAt(pointer.valueEnd.pos))
+        });
     }
 
     private createTexture(typeName: string, textureIndex: any, parent: GltfNode, assetReport = false): number | undefined {
@@ -642,7 +757,8 @@ export class GltfOutline implements vscode.TreeDataProvider<GltfNode> {
     }
 
     private getIcon(nodeType: GltfNodeType): any {
-        if (nodeType === 'node' || nodeType === 'root') {
+        // Groups, and glTF 1.0 programs and shaders, have no icons of their own.
+        if (nodeType === 'group' || nodeType === 'node' || nodeType === 'root' || nodeType === 'program' || nodeType === 'shader') {
             return null;
         }
 
@@ -0,0 +1,35 @@
+import * as vscode from 'vscode';
+import { LanguageClient } from 'vscode-languageclient';
+
+// This file shows the language server's selection ranges, which expand from a value to its glTF object,
+// then its collection, then the root.  The server's protocol version predates selection ranges, so they
+// are fetched with a custom request.
+
+interface GltfRange {
+    start: { line: number, character: number };
+    end: { line: number, character: number };
+}
+
+export class GltfSelectionRangeProvider implements vscode.SelectionRangeProvider {
+    constructor(private client: LanguageClient) { }
+
+    public async provideSelectionRanges(document: vscode.TextDocument, positions: vscode.Position[], token: vscode.CancellationToken): Promise<vscode.SelectionRange[]> {
+        await this.client.onReady();
+        const rangeLists: GltfRange[][] = await this.client.sendRequest('gltf/selectionRanges', {
+            textDocument: { uri: this.client.code2ProtocolConverter.asUri(document.uri) },
+            positions: positions.map(position => this.client.code2ProtocolConverter.asPosition(position))
+        }, token);
+        if (!rangeLists) {
+            return [];
+        }
+
+        // The server lists each position's ranges from the innermost to the outermost.
+        return rangeLists.map((ranges, index) => {
+            let selectionRange: vscode.SelectionRange;
+            for (let i = ranges.length - 1; i >= 0; --i) {
+                selectionRange = new vscode.SelectionRange(this.client.protocol2CodeConverter.asRange(ranges[i]), selectionRange);
+            }
+            return selectionRange || new vscode.SelectionRange(new vscode.Range(positions[index], positions[index]));
+        });
+    }
+}
@@ -0,0 +1,55 @@
+import * as vscode from 'vscode';
+import { LanguageClient } from 'vscode-languageclient';
+
+// This file shows the language server's semantic tokens, which color glTF indices by the collection
+// they refer to.  The server's protocol version predates semantic tokens, so they are fetched with
+// a custom request.  The token types and modifiers are also declared in `package.json`.
+
+interface GltfSemanticToken {
+    line: number;
+    character: number;
+    length: number;
+    tokenType: string;
+    tokenModifiers: string[];
+}
+
+export class GltfSemanticTokensProvider implements vscode.DocumentSemanticTokensProvider {
+    public static readonly legend = new vscode.SemanticTokensLegend([
+        'gltfAccessor',
+        'gltfAnimationSampler',
+        'gltfBuffer',
+        'gltfBufferView',
+        'gltfCamera',
+        'gltfExtension',
+        'gltfImage',
+        'gltfLight',
+        'gltfMaterial',
+        'gltfMesh',
+        'gltfNode',
+        'gltfReference',
+        'gltfSampler',
+        'gltfScene',
+        'gltfSkin',
+        'gltfTexture'
+    ], [
+        'invalid',
+        'known',
+        'unknown'
+    ]);
+
+    constructor(private client: LanguageClient) { }
+
+    public async provideDocumentSemanticTokens(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.SemanticTokens> {
+        await this.client.onReady();
+        const tokens: GltfSemanticToken[] = await this.client.sendRequest('gltf/semanticTokens', {
+            textDocument: { uri: this.client.code2ProtocolConverter.asUri(document.uri) }
+        }, token);
+
+        const builder = new vscode.SemanticTokensBuilder(GltfSemanticTokensProvider.legend);
+        for (let semanticToken of (tokens || [])) {
+            const start = new vscode.Position(semanticToken.line, semanticToken.character);
+            builder.push(new vscode.Range(start, start.translate(0, semanticToken.length)), semanticToken.tokenType, semanticToken.tokenModifiers);
+        }
+        return builder.build();
+    }
+}
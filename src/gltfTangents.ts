@@ -0,0 +1,138 @@
+// This file generates tangents for normal-mapped mesh primitives, following the MikkTSpace algorithm that the
+// glTF specification asks engines to use when a primitive has no TANGENT attribute.  Like MikkTSpace, it welds
+// vertices with identical attributes, projects each triangle's texture-space directions onto the plane of each
+// vertex normal, and weights them by the angle of the triangle at that vertex.  Unlike MikkTSpace, it does not
+// split vertices that are shared by triangles with opposite texture-space orientations, since that would change
+// the vertex count of the primitive.
+
+type Vec3 = [number, number, number];
+
+function subtract(a: Vec3, b: Vec3): Vec3 {
+    return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function scale(a: Vec3, s: number): Vec3 {
+    return [a[0] * s, a[1] * s, a[2] * s];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+    return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+    return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function normalize(a: Vec3): Vec3 {
+    const length = Math.sqrt(dot(a, a));
+    return (length > 0) ? scale(a, 1 / length) : a;
+}
+
+/**
+ * Remove the part of a vector along a unit normal, leaving the part in the plane of the normal.
+ */
+function projectOntoPlane(a: Vec3, normal: Vec3): Vec3 {
+    return subtract(a, scale(normal, dot(normal, a)));
+}
+
+/**
+ * Choose some unit vector perpendicular to a normal, for vertices whose texture coordinates give no direction.
+ */
+function getAnyPerpendicular(normal: Vec3): Vec3 {
+    const axis: Vec3 = (Math.abs(normal[0]) < 0.9) ? [1, 0, 0] : [0, 1, 0];
+    return normalize(projectOntoPlane(axis, normal));
+}
+
+/**
+ * Generate a tangent for each vertex of a triangle list.
+ *
+ * @param positions The POSITION values, three per vertex
+ * @param normals The NORMAL values, three per vertex
+ * @param texCoords The texture coordinates used by the normal texture, two per vertex, as stored in glTF
+ * @param indices The vertex indices of the triangles, three per triangle
+ * @returns The TANGENT values, four per vertex, where the fourth is the handedness of the bitangent
+ */
+export function generateTangents(positions: ArrayLike<number>, normals: ArrayLike<number>, texCoords: ArrayLike<number>,
+    indices: ArrayLike<number>): Float32Array {
+    const vertexCount = Math.floor(positions.length / 3);
+    const position = (i: number): Vec3 => [positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]];
+    const normal = (i: number): Vec3 => normalize([normals[i * 3], normals[i * 3 + 1], normals[i * 3 + 2]]);
+    // glTF texture coordinates have their origin at the top left, while MikkTSpace expects it at the bottom left.
+    const texCoord = (i: number): [number, number] => [texCoords[i * 2], 1 - texCoords[i * 2 + 1]];
+
+    // Weld vertices with identical attributes, so they share a tangent as in MikkTSpace.
+    let groupOfVertex = new Array<number>(vertexCount);
+    let groupIds = new Map<string, number>();
+    for (let i = 0; i < vertexCount; ++i) {
+        const key = position(i).concat(normal(i), texCoord(i)).join(',');
+        if (!groupIds.has(key)) {
+            groupIds.set(key, groupIds.size);
+        }
+        groupOfVertex[i] = groupIds.get(key);
+    }
+
+    let groupTangents: Vec3[] = [];
+    let groupBitangents: Vec3[] = [];
+    let groupOrientations: number[] = [];
+    for (let g = 0; g < groupIds.size; ++g) {
+        groupTangents.push([0, 0, 0]);
+        groupBitangents.push([0, 0, 0]);
+        groupOrientations.push(0);
+    }
+
+    for (let t = 0; t + 2 < indices.length; t += 3) {
+        const corners = [indices[t], indices[t + 1], indices[t + 2]];
+        const [p0, p1, p2] = corners.map(position);
+        const [uv0, uv1, uv2] = corners.map(texCoord);
+        const d1 = subtract(p1, p0);
+        const d2 = subtract(p2, p0);
+        const t21x = uv1[0] - uv0[0], t21y = uv1[1] - uv0[1];
+        const t31x = uv2[0] - uv0[0], t31y = uv2[1] - uv0[1];
+        const signedAreaSTx2 = t21x * t31y - t21y * t31x;
+        if (signedAreaSTx2 === 0 || !isFinite(signedAreaSTx2)) {
+            continue;
+        }
+
+        // The directions of increasing s and t across the triangle.
+        const orientation = (signedAreaSTx2 > 0) ? 1 : -1;
+        const vOs = scale(normalize(subtract(scale(d1, t31y), scale(d2, t21y))), orientation);
+        const vOt = scale(normalize(subtract(scale(d2, t21x), scale(d1, t31x))), orientation);
+
+        const trianglePositions = [p0, p1, p2];
+        for (let c = 0; c < 3; ++c) {
+            const n = normal(corners[c]);
+            const edge1 = normalize(projectOntoPlane(subtract(trianglePositions[(c + 1) % 3], trianglePositions[c]), n));
+            const edge2 = normalize(projectOntoPlane(subtract(trianglePositions[(c + 2) % 3], trianglePositions[c]), n));
+            const angle = Math.acos(Math.max(-1, Math.min(1, dot(edge1, edge2))));
+            if (!isFinite(angle)) {
+                continue;
+            }
+
+            const g = groupOfVertex[corners[c]];
+            const tangent = scale(normalize(projectOntoPlane(vOs, n)), angle);
+            const bitangent = scale(normalize(projectOntoPlane(vOt, n)), angle);
+            groupTangents[g] = [groupTangents[g][0] + tangent[0], groupTangents[g][1] + tangent[1], groupTangents[g][2] + tangent[2]];
+            groupBitangents[g] = [groupBitangents[g][0] + bitangent[0], groupBitangents[g][1] + bitangent[1], groupBitangents[g][2] + bitangent[2]];
+            groupOrientations[g] += angle * orientation;
+        }
+    }
+
+    let tangents = new Float32Array(vertexCount * 4);
+    for (let i = 0; i < vertexCount; ++i) {
+        const g = groupOfVertex[i];
+        const n = normal(i);
+        let tangent = normalize(projectOntoPlane(groupTangents[g], n));
+        if (dot(tangent, tangent) === 0 || !isFinite(tangent[0])) {
+            tangent = getAnyPerpendicular(n);
+        }
+
+        // Where the orientations of the triangles cancel out, fall back on the direction of the bitangent.
+        let handedness = groupOrientations[g];
+        if (handedness === 0) {
+            handedness = dot(cross(n, tangent), groupBitangents[g]);
+        }
+
+        tangents.set([tangent[0], tangent[1], tangent[2], (handedness < 0) ? -1 : 1], i * 4);
+    }
+    return tangents;
+}
@@ -68,6 +68,18 @@ function buildArrayBuffer<T extends ArrayLike<number>>(typedArray: any, data: Ar
     return targetBuffer;
 }
 
+/**
+ * A glTF 1.0 accessor, which has its own byteStride, where zero means tightly packed.  glTF 2.0 moved the
+ * stride to the bufferView.
+ */
+interface Gltf1Accessor extends GLTF2.Accessor {
+    byteStride?: number;
+}
+
+function isGltf1(gltf: GLTF2.GLTF): boolean {
+    return !!gltf.asset && typeof gltf.asset.version === 'string' && gltf.asset.version[0] === '1';
+}
+
 export function getAccessorData(fileName: string, gltf: GLTF2.GLTF, accessor: GLTF2.Accessor): ArrayLike<number> | undefined {
     if (accessor.bufferView === undefined) {
         return undefined;
@@ -81,7 +93,8 @@ export function getAccessorData(fileName: string, gltf: GLTF2.GLTF, accessor: GL
     const buffer = getBuffer(gltf, bufferView.buffer, fileName);
     const bufferOffset = bufferView.byteOffset || 0;
     const bufferLength = bufferView.byteLength;
-    const bufferStride = bufferView.byteStride;
+    const accessorStride = isGltf1(gltf) ? (accessor as Gltf1Accessor).byteStride : undefined;
+    const bufferStride = bufferView.byteStride || accessorStride || undefined;
     const bufferViewBuf = buffer.subarray(bufferOffset, bufferOffset + bufferLength);
     const accessorByteOffset = accessor.byteOffset || 0;
 
@@ -106,6 +119,51 @@ export function getAccessorData(fileName: string, gltf: GLTF2.GLTF, accessor: GL
     }
 }
 
+/**
+ * Read the values of an accessor, as `getAccessorData` does, with any sparse substitutions applied.
+ * A sparse accessor without a bufferView starts from zeros.  The result of a sparse accessor is a copy,
+ * so changing it does not change the buffer.
+ */
+export function getSparseAccessorData(fileName: string, gltf: GLTF2.GLTF, accessor: GLTF2.Accessor): ArrayLike<number> | undefined {
+    const baseData = getAccessorData(fileName, gltf, accessor);
+    const sparse = accessor.sparse;
+    if (!sparse) {
+        return baseData;
+    }
+
+    const numComponents = AccessorTypeToNumComponents[accessor.type];
+    if (baseData === undefined && accessor.bufferView !== undefined) {
+        return undefined;
+    }
+    let data: number[] = baseData ? Array.from(baseData) : new Array<number>(accessor.count * numComponents).fill(0);
+
+    const indices = getAccessorData(fileName, gltf, {
+        bufferView: sparse.indices.bufferView,
+        byteOffset: sparse.indices.byteOffset,
+        componentType: sparse.indices.componentType,
+        count: sparse.count,
+        type: GLTF2.AccessorType.SCALAR
+    });
+    const values = getAccessorData(fileName, gltf, {
+        bufferView: sparse.values.bufferView,
+        byteOffset: sparse.values.byteOffset,
+        componentType: accessor.componentType,
+        count: sparse.count,
+        type: accessor.type
+    });
+    if (!indices || !values) {
+        return undefined;
+    }
+
+    for (let i = 0; i < sparse.count; ++i) {
+        for (let c = 0; c < numComponents; ++c) {
+            data[indices[i] * numComponents + c] = values[i * numComponents + c];
+        }
+    }
+
+    return data;
+}
+
 export function getAccessorElement(data: ArrayLike<number>, elementIndex: number, numComponents: number, componentType: GLTF2.AccessorComponentType, normalized: boolean): Array<number> {
     const normalize = (value: number): number => {
         switch (componentType) {
@@ -151,6 +209,185 @@ export function setAccessorElement(data: any, elementIndex: number, numComponent
     }
 }
 
+/**
+ * Write the values of an accessor into its buffer, honoring the byteStride of its bufferView.
+ *
+ * @param buffer The whole binary data of the accessor's buffer, to be changed
+ * @param gltf The glTF root object
+ * @param accessor The accessor to write, which must not be sparse
+ * @param data The values of the accessor, as read by `getAccessorData`
+ */
+export function writeAccessorData(buffer: Uint8Array, gltf: GLTF2.GLTF, accessor: GLTF2.Accessor, data: ArrayLike<number>): void {
+    const bufferView = gltf.bufferViews[accessor.bufferView];
+    const startOffset = (bufferView.byteOffset || 0) + (accessor.byteOffset || 0);
+    writeElements(buffer, startOffset, bufferView.byteStride, accessor, data);
+}
+
+/**
+ * Encode the values of a new accessor as binary data for its own bufferView.
+ *
+ * @param accessor The accessor, whose `count`, `type` and `componentType` are used
+ * @param data The values of the accessor
+ * @param byteStride The distance between the starts of elements, if they are not tightly packed
+ * @returns The binary data, which is padded to the stride after the last element
+ */
+export function encodeAccessorData(accessor: GLTF2.Accessor, data: ArrayLike<number>, byteStride?: number): Uint8Array {
+    const elementSize = AccessorTypeToNumComponents[accessor.type] * ComponentTypeToBytesPerElement[accessor.componentType];
+    let buffer = new Uint8Array(accessor.count * (byteStride || elementSize));
+    writeElements(buffer, 0, byteStride, accessor, data);
+    return buffer;
+}
+
+function writeElements(buffer: Uint8Array, startOffset: number, byteStride: number | undefined, accessor: GLTF2.Accessor, data: ArrayLike<number>): void {
+    const numComponents = AccessorTypeToNumComponents[accessor.type];
+    const bytesPerComponent = ComponentTypeToBytesPerElement[accessor.componentType];
+    byteStride = byteStride || (numComponents * bytesPerComponent);
+    const dataView = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+
+    for (let i = 0; i < accessor.count; ++i) {
+        for (let c = 0; c < numComponents; ++c) {
+            const offset = startOffset + i * byteStride + c * bytesPerComponent;
+            const value = data[i * numComponents + c];
+            switch (accessor.componentType) {
+                case GLTF2.AccessorComponentType.BYTE: dataView.setInt8(offset, value); break;
+                case GLTF2.AccessorComponentType.UNSIGNED_BYTE: dataView.setUint8(offset, value); break;
+                case GLTF2.AccessorComponentType.SHORT: dataView.setInt16(offset, value, true); break;
+                case GLTF2.AccessorComponentType.UNSIGNED_SHORT: dataView.setUint16(offset, value, true); break;
+                case GLTF2.AccessorComponentType.UNSIGNED_INT: dataView.setUint32(offset, value, true); break;
+                case GLTF2.AccessorComponentType.FLOAT: dataView.setFloat32(offset, value, true); break;
+            }
+        }
+    }
+}
+
+/**
+ * List the vertex indices of the triangles of a mesh primitive, for the `TRIANGLES`, `TRIANGLE_STRIP`
+ * and `TRIANGLE_FAN` modes.  Every other triangle of a strip is flipped to keep the winding order.
+ *
+ * @param numVertices The number of vertices, used when there are no indices
+ * @param mode The mode of the primitive
+ * @param data The indices of the primitive, if it has any
+ * @returns The vertex indices of each triangle, or an empty list for other modes
+ */
+export function getTriangles(numVertices: number, mode: GLTF2.MeshPrimitiveMode, data: ArrayLike<number> | undefined): [number, number, number][] {
+    const get = data ? (i: number) => data[i] : (i: number) => i;
+    const length = data ? data.length : numVertices;
+    let triangles: [number, number, number][] = [];
+
+    switch (mode) {
+        case GLTF2.MeshPrimitiveMode.TRIANGLES: {
+            for (let index = 0; index + 2 < length; index += 3) {
+                triangles.push([get(index), get(index + 1), get(index + 2)]);
+            }
+            break;
+        }
+        case GLTF2.MeshPrimitiveMode.TRIANGLE_FAN: {
+            for (let index = 0; index + 2 < length; index++) {
+                triangles.push([get(0), get(index + 1), get(index + 2)]);
+            }
+            break;
+        }
+        case GLTF2.MeshPrimitiveMode.TRIANGLE_STRIP: {
+            for (let index = 0; index + 2 < length; index++) {
+                const flip = (index & 1) === 1;
+                triangles.push([get(flip ? index + 2 : index), get(index + 1), get(flip ? index : index + 2)]);
+            }
+            break;
+        }
+    }
+
+    return triangles;
+}
+
+/**
+ * Append data to the end of a buffer, starting each part on a 4-byte boundary so that it can hold
+ * the data of any accessor.
+ *
+ * @param bufferData The existing binary data of the buffer
+ * @param parts The data to append, each of which will have its own bufferView
+ * @returns The combined data, and the byte offset of each part within it
+ */
+export function appendToBuffer(bufferData: Uint8Array, parts: Uint8Array[]): { data: Buffer, byteOffsets: number[] } {
+    const alignedLength = (value: number) => {
+        const alignValue = 4;
+        if (value === 0) {
+            return value;
+        }
+
+        const multiple = value % alignValue;
+        if (multiple === 0) {
+            return value;
+        }
+
+        return value + (alignValue - multiple);
+    };
+
+    let outputBuffers: Uint8Array[] = [bufferData];
+    let bufferOffset = bufferData.length;
+    let byteOffsets: number[] = [];
+    for (let part of parts) {
+        const partOffset = alignedLength(bufferOffset);
+        if (partOffset !== bufferOffset) {
+            outputBuffers.push(new Uint8Array(partOffset - bufferOffset));
+        }
+        byteOffsets.push(partOffset);
+        outputBuffers.push(part);
+        bufferOffset = partOffset + part.byteLength;
+    }
+
+    return { data: Buffer.concat(outputBuffers), byteOffsets: byteOffsets };
+}
+
+/**
+ * Copy only the byte ranges of a buffer that its bufferViews use, dropping the unused ranges between them.
+ * Each range keeps its position relative to a 4-byte boundary, so every accessor stays aligned, and
+ * bufferViews that overlap still share their data.
+ *
+ * @param bufferData The binary data of the buffer
+ * @param bufferViews The bufferViews of the buffer
+ * @returns The repacked data, and the new byte offset of each bufferView within it
+ */
+export function repackBuffer(bufferData: Uint8Array, bufferViews: GLTF2.BufferView[]): { data: Buffer, byteOffsets: number[] } {
+    // Find the used ranges, each starting on a 4-byte boundary, and merge those that overlap.
+    const order = bufferViews.map((bufferView, index) => index)
+        .sort((a, b) => (bufferViews[a].byteOffset || 0) - (bufferViews[b].byteOffset || 0));
+    let ranges: { start: number, end: number }[] = [];
+    let rangeOfView: number[] = new Array(bufferViews.length);
+    for (let index of order) {
+        const byteOffset = bufferViews[index].byteOffset || 0;
+        const start = byteOffset - (byteOffset % 4);
+        const end = Math.min(byteOffset + bufferViews[index].byteLength, bufferData.length);
+        const last = ranges[ranges.length - 1];
+        if (last && start <= last.end) {
+            last.end = Math.max(last.end, end);
+        } else {
+            ranges.push({ start: start, end: end });
+        }
+        rangeOfView[index] = ranges.length - 1;
+    }
+
+    const packed = appendToBuffer(new Uint8Array(0), ranges.map(range => bufferData.subarray(range.start, range.end)));
+    return {
+        data: packed.data,
+        byteOffsets: bufferViews.map((bufferView, index) =>
+            packed.byteOffsets[rangeOfView[index]] + (bufferView.byteOffset || 0) - ranges[rangeOfView[index]].start)
+    };
+}
+
+/**
+ * Format a number of bytes for display, such as `512 bytes`, `56.4 KB` or `1.2 MB`.
+ * The language server formats sizes the same way in `gltfReferences.ts`, but the extension
+ * and the server are compiled and packaged separately, so each keeps its own copy.
+ */
+export function formatByteSize(bytes: number): string {
+    if (bytes < 1024) {
+        return bytes.toFixed() + (bytes === 1 ? ' byte' : ' bytes');
+    } else if (bytes < 1024 * 1024) {
+        return (bytes / 1024).toFixed(1) + ' KB';
+    }
+    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+}
+
 const gltfMimeTypes: any = {
     'image/png' : ['png'],
     'image/jpeg' : ['jpg', 'jpeg'],
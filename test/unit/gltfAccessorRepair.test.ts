@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import { renormalizeWeights, renormalizeVectors, getKeyframeOrder, reorderAccessorData } from '../../src/gltfAccessorRepair';
+import { GLTF2 } from '../../src/GLTF2';
+
+const FLOAT = 5126;
+const UNSIGNED_BYTE = 5121;
+
+function makeAccessor(type: string, componentType: number, count: number, normalized?: boolean): GLTF2.Accessor {
+    return { type: type, componentType: componentType, count: count, normalized: normalized } as GLTF2.Accessor;
+}
+
+suite("Accessor Repair", () => {
+
+    test("Scales float weights to sum to one", () => {
+        let data = [0.5, 0.5, 0.5, 0.5, 2, 0, 0, 0];
+        renormalizeWeights([makeAccessor('VEC4', FLOAT, 2)], [data]);
+        assert.deepStrictEqual(data, [0.25, 0.25, 0.25, 0.25, 1, 0, 0, 0]);
+    });
+
+    test("Leaves vertices without weights unchanged", () => {
+        let data = [0, 0, 0, 0];
+        renormalizeWeights([makeAccessor('VEC4', FLOAT, 1)], [data]);
+        assert.deepStrictEqual(data, [0, 0, 0, 0]);
+    });
+
+    test("Scales the weights of several sets together", () => {
+        let weights0 = [1, 1, 1, 1];
+        let weights1 = [1, 1, 1, 1];
+        renormalizeWeights([makeAccessor('VEC4', FLOAT, 1), makeAccessor('VEC4', FLOAT, 1)], [weights0, weights1]);
+        assert.deepStrictEqual(weights0, [0.125, 0.125, 0.125, 0.125]);
+        assert.deepStrictEqual(weights1, [0.125, 0.125, 0.125, 0.125]);
+    });
+
+    test("Rounds quantized weights to sum exactly to the largest stored value", () => {
+        let data = new Uint8Array([10, 10, 10, 10, 200, 100, 0, 0]);
+        renormalizeWeights([makeAccessor('VEC4', UNSIGNED_BYTE, 2, true)], [data]);
+        assert.deepStrictEqual(Array.from(data), [64, 64, 64, 63, 170, 85, 0, 0]);
+    });
+
+    test("Scales vectors to unit length, leaving the other components alone", () => {
+        let data = [3, 0, 4, -1, 0, 0, 0, 1];
+        renormalizeVectors(makeAccessor('VEC4', FLOAT, 2), data, 3);
+        assert.deepStrictEqual(data, [0.6, 0, 0.8, -1, 0, 0, 0, 1]);
+    });
+
+    test("Sorts keyframes by time, dropping negative and duplicate times", () => {
+        assert.deepStrictEqual(getKeyframeOrder([0.5, -1, 0, 0.5, 1]), [2, 0, 4]);
+        assert.deepStrictEqual(getKeyframeOrder([0, 1, 2]), [0, 1, 2]);
+        assert.deepStrictEqual(getKeyframeOrder([-1]), []);
+    });
+
+    test("Moves each keyframe's block of output elements together", () => {
+        // Two components, with an in-tangent, value and out-tangent per keyframe.
+        const data = [1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6];
+        assert.deepStrictEqual(reorderAccessorData(data, 2, 3, [1, 0]), [4, 4, 5, 5, 6, 6, 1, 1, 2, 2, 3, 3]);
+        assert.deepStrictEqual(reorderAccessorData([0.5, 0, 1], 1, 1, [1, 0, 2]), [0, 0.5, 1]);
+    });
+});
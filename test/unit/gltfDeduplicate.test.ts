@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { canonicalize } from '../../src/gltfDeduplicate';
+
+suite("Deduplicate", () => {
+
+    test("Serializes objects the same regardless of key order", () => {
+        assert.strictEqual(
+            canonicalize({ magFilter: 9729, wrapS: 33071, extras: { b: 1, a: [2, { d: 3, c: 4 }] } }),
+            canonicalize({ extras: { a: [2, { c: 4, d: 3 }], b: 1 }, wrapS: 33071, magFilter: 9729 }));
+    });
+
+    test("Ignores the object's name, but not names nested within it", () => {
+        assert.strictEqual(canonicalize({ name: 'First', wrapS: 33071 }), canonicalize({ name: 'Second', wrapS: 33071 }));
+        assert.notStrictEqual(canonicalize({ extras: { name: 'First' } }), canonicalize({ extras: { name: 'Second' } }));
+    });
+
+    test("Tells apart objects with different values", () => {
+        assert.notStrictEqual(canonicalize({ wrapS: 33071 }), canonicalize({ wrapS: 10497 }));
+        assert.notStrictEqual(canonicalize({ values: [1, 2] }), canonicalize({ values: [2, 1] }));
+        assert.notStrictEqual(canonicalize({ value: '1' }), canonicalize({ value: 1 }));
+    });
+
+    test("Replaces values along the way", () => {
+        // Textures 1 and 3 are duplicates of texture 0, so materials that refer to them are the same.
+        const originals = [0, 0, 2, 0];
+        const replace = (key: string, value: any) => (key === 'index') ? originals[value] : value;
+        assert.strictEqual(
+            canonicalize({ name: 'A', pbrMetallicRoughness: { baseColorTexture: { index: 1 } } }, replace),
+            canonicalize({ name: 'B', pbrMetallicRoughness: { baseColorTexture: { index: 3 } } }, replace));
+        assert.notStrictEqual(
+            canonicalize({ pbrMetallicRoughness: { baseColorTexture: { index: 1 } } }, replace),
+            canonicalize({ pbrMetallicRoughness: { baseColorTexture: { index: 2 } } }, replace));
+    });
+});
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { identityMatrix, composeMatrix, decomposeMatrix, multiplyMatrices, getNodeTransform, Transform } from '../../server/src/gltfMath';
+
+function assertClose(actual: number[], expected: number[], message?: string): void {
+    assert.strictEqual(actual.length, expected.length, message);
+    actual.forEach((value, index) => assert.ok(Math.abs(value - expected[index]) < 1e-9,
+        `${message || 'Values differ'}: ${JSON.stringify(actual)} != ${JSON.stringify(expected)}`));
+}
+
+suite("Node Transform Math", () => {
+
+    test("Composes the identity transform to the identity matrix", () => {
+        assert.deepStrictEqual(composeMatrix({ translation: [0, 0, 0], rotation: [0, 0, 0, 1], scale: [1, 1, 1] }), identityMatrix);
+    });
+
+    test("Composes a translation, rotation and scale in that order", () => {
+        // A quarter turn about Y maps +X to -Z.
+        const matrix = composeMatrix({ translation: [1, 2, 3], rotation: [0, Math.SQRT1_2, 0, Math.SQRT1_2], scale: [2, 1, 1] });
+        assertClose(matrix, [0, 0, -2, 0, 0, 1, 0, 0, 1, 0, 0, 0, 1, 2, 3, 1]);
+    });
+
+    test("Decomposes a composed matrix back to its transform", () => {
+        const half = Math.sqrt(0.5);
+        const transforms: Transform[] = [
+            { translation: [1, 2, 3], rotation: [0, 0, 0, 1], scale: [1, 1, 1] },
+            { translation: [-4, 0, 5], rotation: [half, 0, 0, half], scale: [2, 3, 4] },
+            { translation: [0, 0, 0], rotation: [0, 0, 1, 0], scale: [0.5, 0.5, 0.5] },
+            { translation: [0, 1, 0], rotation: [0.5, -0.5, 0.5, 0.5], scale: [1, 2, 1] }
+        ];
+        for (let transform of transforms) {
+            const decomposed = decomposeMatrix(composeMatrix(transform));
+            assertClose(decomposed.translation, transform.translation, 'Translation');
+            assertClose(decomposed.scale, transform.scale, 'Scale');
+            // q and -q are the same rotation.
+            const sign = Math.sign(decomposed.rotation[3]) === Math.sign(transform.rotation[3]) ? 1 : -1;
+            assertClose(decomposed.rotation.map(value => value * sign), transform.rotation, 'Rotation');
+        }
+    });
+
+    test("Represents a mirroring matrix with a negative X scale", () => {
+        const mirror = [-1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+        const decomposed = decomposeMatrix(mirror);
+        assertClose(decomposed.scale, [-1, 1, 1]);
+        assertClose(composeMatrix(decomposed), mirror);
+    });
+
+    test("Multiplies matrices so that the second is applied first", () => {
+        const translate = composeMatrix({ translation: [1, 0, 0], rotation: [0, 0, 0, 1], scale: [1, 1, 1] });
+        const scale = composeMatrix({ translation: [0, 0, 0], rotation: [0, 0, 0, 1], scale: [2, 2, 2] });
+        assertClose(multiplyMatrices(translate, scale), [2, 0, 0, 0, 0, 2, 0, 0, 0, 0, 2, 0, 1, 0, 0, 1]);
+        assertClose(multiplyMatrices(scale, translate), [2, 0, 0, 0, 0, 2, 0, 0, 0, 0, 2, 0, 2, 0, 0, 1]);
+    });
+
+    test("Reports whether a node's matrix can be decomposed", () => {
+        assert.strictEqual(getNodeTransform({ matrix: [2, 0, 0, 0, 0, 2, 0, 0, 0, 0, 2, 0, 1, 2, 3, 1] }).isDecomposable, true);
+        // A shear has no translation, rotation and scale.
+        assert.strictEqual(getNodeTransform({ matrix: [1, 0, 0, 0, 1, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1] }).isDecomposable, false);
+        assert.strictEqual(getNodeTransform({ translation: [1, 2, 3] }).isDecomposable, undefined);
+    });
+});
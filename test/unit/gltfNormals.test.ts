@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { computeSmoothNormals, computeFlatNormals } from '../../src/gltfNormals';
+import { getTriangles } from '../../src/utilities';
+import { GLTF2 } from '../../src/GLTF2';
+
+function assertClose(actual: ArrayLike<number>, expected: number[], message?: string): void {
+    assert.strictEqual(actual.length, expected.length, message);
+    Array.from(actual).forEach((value, index) => assert.ok(Math.abs(value - expected[index]) < 1e-6,
+        `${message || 'Values differ'}: ${JSON.stringify(Array.from(actual))} != ${JSON.stringify(expected)}`));
+}
+
+/**
+ * Two triangles that meet along the X axis with a fold of `degrees` between them.  The vertices on the
+ * fold are split: vertices 0 and 1 belong to the flat triangle, and vertices 3 and 4 to the folded one.
+ */
+function makeFold(degrees: number): { positions: number[], triangles: [number, number, number][] } {
+    const angle = degrees * Math.PI / 180;
+    return {
+        positions: [0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, -Math.cos(angle), Math.sin(angle)],
+        triangles: [[0, 1, 2], [3, 5, 4]]
+    };
+}
+
+suite("Normals", () => {
+
+    test("Lists the triangles of each primitive mode with a consistent winding order", () => {
+        assert.deepStrictEqual(getTriangles(6, GLTF2.MeshPrimitiveMode.TRIANGLES, undefined), [[0, 1, 2], [3, 4, 5]]);
+        assert.deepStrictEqual(getTriangles(5, GLTF2.MeshPrimitiveMode.TRIANGLE_STRIP, undefined), [[0, 1, 2], [3, 2, 1], [2, 3, 4]]);
+        assert.deepStrictEqual(getTriangles(5, GLTF2.MeshPrimitiveMode.TRIANGLE_FAN, undefined), [[0, 1, 2], [0, 2, 3], [0, 3, 4]]);
+        assert.deepStrictEqual(getTriangles(0, GLTF2.MeshPrimitiveMode.TRIANGLE_STRIP, [7, 8, 9, 6]), [[7, 8, 9], [6, 9, 8]]);
+        assert.deepStrictEqual(getTriangles(4, GLTF2.MeshPrimitiveMode.LINES, undefined), []);
+    });
+
+    test("Gives each corner of each triangle the normal of its face, in order", () => {
+        const fold = makeFold(90);
+        assertClose(computeFlatNormals(fold.positions, fold.triangles), [0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 1, 0, 0, 1, 0, 0, 1, 0]);
+    });
+
+    test("Gives a degenerate triangle a unit normal", () => {
+        assertClose(computeFlatNormals([0, 0, 0, 1, 0, 0, 2, 0, 0], [[0, 1, 2]]), [0, 0, 1, 0, 0, 1, 0, 0, 1]);
+    });
+
+    test("Averages the faces that share a vertex, weighted by area", () => {
+        // A large triangle facing +Z and a small one facing +X, sharing vertex 0.
+        const positions = [0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 1, 0, 0, 0, -1];
+        const normals = computeSmoothNormals(positions, [[0, 1, 2], [0, 4, 3]], 0);
+        const expected = [1, 0, 4].map(value => value / Math.sqrt(17));
+        assertClose(normals.subarray(0, 3), expected, 'Shared vertex');
+        assertClose(normals.subarray(3, 6), [0, 0, 1], 'Vertex of the large triangle');
+        assertClose(normals.subarray(9, 12), [1, 0, 0], 'Vertex of the small triangle');
+    });
+
+    test("Smooths across split vertices where the fold is within the angle", () => {
+        const fold = makeFold(20);
+        const normals = computeSmoothNormals(fold.positions, fold.triangles, 30);
+        const halfway = 10 * Math.PI / 180;
+        assertClose(normals.subarray(0, 3), [0, Math.sin(halfway), Math.cos(halfway)], 'Flat side of the fold');
+        assertClose(normals.subarray(9, 12), [0, Math.sin(halfway), Math.cos(halfway)], 'Folded side of the fold');
+        assertClose(normals.subarray(6, 9), [0, 0, 1], 'Away from the fold');
+    });
+
+    test("Keeps a hard edge across split vertices where the fold is beyond the angle", () => {
+        const fold = makeFold(60);
+        const normals = computeSmoothNormals(fold.positions, fold.triangles, 30);
+        const angle = 60 * Math.PI / 180;
+        assertClose(normals.subarray(0, 3), [0, 0, 1], 'Flat side of the fold');
+        assertClose(normals.subarray(9, 12), [0, Math.sin(angle), Math.cos(angle)], 'Folded side of the fold');
+    });
+});
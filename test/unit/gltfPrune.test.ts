@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import { pruneGltf, mergeGltfObjects, extractNodeSubtree } from '../../server/src/gltfPrune';
+
+/**
+ * A document where node 1, mesh 1 and accessor 1 are unused, and where materials 0 and 2 are the same.
+ */
+function makeGltf(): any {
+    return {
+        asset: { version: '2.0' },
+        extensionsUsed: ['EXT_unused', 'EXT_used'],
+        scene: 0,
+        scenes: [{ nodes: [0] }],
+        nodes: [{ children: [2] }, { mesh: 1 }, { mesh: 0, extensions: { EXT_used: {} } }],
+        meshes: [
+            { primitives: [{ attributes: { POSITION: 0 }, indices: 2, material: 2 }, { attributes: { POSITION: 0 }, material: 1 }] },
+            { primitives: [{ attributes: { POSITION: 1 }, material: 0 }], extensions: { EXT_unused: {} } }
+        ],
+        materials: [{ name: 'Red' }, { name: 'Blue' }, { name: 'Also red' }],
+        accessors: [
+            { componentType: 5126, count: 3, type: 'VEC3' },
+            { componentType: 5126, count: 3, type: 'VEC3' },
+            { componentType: 5123, count: 3, type: 'SCALAR' }
+        ]
+    };
+}
+
+suite("Prune and Merge", () => {
+
+    test("Removes unused objects and renumbers the references to the rest", () => {
+        const original = makeGltf();
+        const result = pruneGltf(original);
+        assert.deepStrictEqual(result.removed, ['1 node', '1 mesh', '1 material', '1 accessor']);
+        assert.deepStrictEqual(result.glTF.nodes, [{ children: [1] }, { mesh: 0, extensions: { EXT_used: {} } }]);
+        assert.deepStrictEqual(result.glTF.meshes, [
+            { primitives: [{ attributes: { POSITION: 0 }, indices: 1, material: 1 }, { attributes: { POSITION: 0 }, material: 0 }] }
+        ]);
+        assert.deepStrictEqual(result.glTF.materials, [{ name: 'Blue' }, { name: 'Also red' }]);
+        assert.strictEqual(result.glTF.accessors.length, 2);
+        assert.deepStrictEqual(result.glTF.extensionsUsed, ['EXT_used']);
+        assert.deepStrictEqual(original, makeGltf(), 'The original document is not modified.');
+    });
+
+    test("Removes collections left empty", () => {
+        const result = pruneGltf({ asset: { version: '2.0' }, scenes: [{}], nodes: [{}] });
+        assert.deepStrictEqual(result.removed, ['1 node']);
+        assert.strictEqual(result.glTF.nodes, undefined);
+    });
+
+    test("Only prunes glTF 2.0 documents", () => {
+        assert.throws(() => pruneGltf({ asset: { version: '1.0' } }), /Only glTF 2.0 documents can be pruned/);
+    });
+
+    test("Points references to merged objects at the objects they were merged into", () => {
+        const result = mergeGltfObjects(makeGltf(), [{ path: '/materials/2', into: 0 }]);
+        assert.deepStrictEqual(result.removed, ['1 material']);
+        assert.deepStrictEqual(result.glTF.materials, [{ name: 'Red' }, { name: 'Blue' }]);
+        const materials = result.glTF.meshes.map((mesh: any) => mesh.primitives.map((primitive: any) => primitive.material));
+        assert.deepStrictEqual(materials, [[0, 1], [0]]);
+    });
+
+    test("Renumbers references to objects after a merged object", () => {
+        let glTF = makeGltf();
+        glTF.meshes[0].primitives[1].material = 1;
+        const result = mergeGltfObjects(glTF, [{ path: '/materials/0', into: 2 }]);
+        assert.deepStrictEqual(result.glTF.materials, [{ name: 'Blue' }, { name: 'Also red' }]);
+        const materials = result.glTF.meshes.map((mesh: any) => mesh.primitives.map((primitive: any) => primitive.material));
+        assert.deepStrictEqual(materials, [[1, 0], [1]]);
+    });
+
+    test("Refuses merges that cannot be made", () => {
+        assert.throws(() => mergeGltfObjects(makeGltf(), [{ path: '/materials/2', into: 2 }]), /Cannot merge/);
+        assert.throws(() => mergeGltfObjects(makeGltf(), [{ path: '/materials/5', into: 0 }]), /Cannot merge/);
+        assert.throws(() => mergeGltfObjects(makeGltf(), [{ path: '/scenes/0', into: 0 }]), /Cannot merge/);
+        assert.throws(() => mergeGltfObjects(makeGltf(), [{ path: '/materials/2', into: 1 }, { path: '/materials/1', into: 0 }]),
+            /merged itself/);
+    });
+
+    test("Extracts a subtree with only the cameras and lights it uses", () => {
+        const glTF = {
+            asset: { version: '2.0' },
+            extensionsUsed: ['KHR_lights_punctual'],
+            extensions: { KHR_lights_punctual: { lights: [{ type: 'point' }, { type: 'spot', spot: {} }, { type: 'directional' }] } },
+            scenes: [{ nodes: [0, 3] }],
+            nodes: [
+                { children: [1, 2] },
+                { camera: 1, extensions: { KHR_lights_punctual: { light: 2 } } },
+                { camera: 1 },
+                { camera: 0, extensions: { KHR_lights_punctual: { light: 0 } } }
+            ],
+            cameras: [{ type: 'orthographic' }, { type: 'perspective' }]
+        };
+        const result = extractNodeSubtree(glTF, 0, false);
+        assert.deepStrictEqual(result.removed, ['1 node', '1 camera', '2 lights']);
+        assert.deepStrictEqual(result.glTF.cameras, [{ type: 'perspective' }]);
+        assert.deepStrictEqual(result.glTF.extensions, { KHR_lights_punctual: { lights: [{ type: 'directional' }] } });
+        assert.deepStrictEqual(result.glTF.nodes[1], { camera: 0, extensions: { KHR_lights_punctual: { light: 0 } } });
+        assert.deepStrictEqual(result.glTF.nodes[2], { camera: 0 });
+        assert.deepStrictEqual(result.glTF.extensionsUsed, ['KHR_lights_punctual']);
+    });
+
+    test("Removes the lights extension when the extracted subtree has no lights", () => {
+        const glTF = {
+            asset: { version: '2.0' },
+            extensionsUsed: ['KHR_lights_punctual'],
+            extensions: { KHR_lights_punctual: { lights: [{ type: 'point' }] } },
+            scenes: [{ nodes: [0, 1] }],
+            nodes: [{ name: 'Empty' }, { extensions: { KHR_lights_punctual: { light: 0 } } }]
+        };
+        const result = extractNodeSubtree(glTF, 0, false);
+        assert.deepStrictEqual(result.removed, ['1 node', '1 light']);
+        assert.strictEqual(result.glTF.extensions, undefined);
+        assert.strictEqual(result.glTF.extensionsUsed, undefined);
+        assert.deepStrictEqual(result.glTF.scenes, [{ name: 'Empty', nodes: [0] }]);
+    });
+
+    test("Keeps unused cameras and lights when pruning a whole document", () => {
+        const glTF = {
+            asset: { version: '2.0' },
+            extensions: { KHR_lights_punctual: { lights: [{ type: 'point' }] } },
+            scenes: [{ nodes: [0] }],
+            nodes: [{}],
+            cameras: [{ type: 'perspective' }]
+        };
+        const result = pruneGltf(glTF);
+        assert.deepStrictEqual(result.removed, []);
+        assert.deepStrictEqual(result.glTF, glTF);
+    });
+});
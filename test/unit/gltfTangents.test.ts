@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import { generateTangents } from '../../src/gltfTangents';
+
+function assertClose(actual: ArrayLike<number>, expected: number[], message?: string): void {
+    assert.strictEqual(actual.length, expected.length, message);
+    Array.from(actual).forEach((value, index) => assert.ok(Math.abs(value - expected[index]) < 1e-6,
+        `${message || 'Values differ'}: ${JSON.stringify(Array.from(actual))} != ${JSON.stringify(expected)}`));
+}
+
+/**
+ * A unit quad in the XY plane, facing +Z, as two counter-clockwise triangles.
+ */
+const quadPositions = [0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0];
+const quadNormals = [0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1];
+const quadIndices = [0, 1, 2, 0, 2, 3];
+
+/** Texture coordinates as glTF stores them, with V increasing downwards, so the image is upright on the quad. */
+const uprightTexCoords = [0, 1, 1, 1, 1, 0, 0, 0];
+
+suite("Tangent Generation", () => {
+
+    test("Points tangents along increasing U, with a right-handed bitangent", () => {
+        const tangents = generateTangents(quadPositions, quadNormals, uprightTexCoords, quadIndices);
+        assertClose(tangents, [1, 0, 0, 1, 1, 0, 0, 1, 1, 0, 0, 1, 1, 0, 0, 1]);
+    });
+
+    test("Flips the handedness where the texture is mirrored in U", () => {
+        const mirroredTexCoords = [1, 1, 0, 1, 0, 0, 1, 0];
+        const tangents = generateTangents(quadPositions, quadNormals, mirroredTexCoords, quadIndices);
+        assertClose(tangents, [-1, 0, 0, -1, -1, 0, 0, -1, -1, 0, 0, -1, -1, 0, 0, -1]);
+    });
+
+    test("Treats glTF texture coordinates as having V increasing downwards", () => {
+        // With V increasing upwards instead, the image is flipped vertically, which mirrors the bitangent.
+        const flippedTexCoords = [0, 0, 1, 0, 1, 1, 0, 1];
+        const tangents = generateTangents(quadPositions, quadNormals, flippedTexCoords, quadIndices);
+        assertClose(tangents, [1, 0, 0, -1, 1, 0, 0, -1, 1, 0, 0, -1, 1, 0, 0, -1]);
+    });
+
+    test("Keeps tangents perpendicular to the normals", () => {
+        // A quad tilted about the X axis, with normals bent away from the face.
+        const positions = [0, 0, 0, 1, 0, 0, 1, 1, 1, 0, 1, 1];
+        const normals = [0, -0.5, 1, 0.3, -0.5, 1, 0.3, -0.7, 0.7, 0, -0.7, 0.7];
+        const tangents = generateTangents(positions, normals, uprightTexCoords, quadIndices);
+        for (let i = 0; i < 4; ++i) {
+            const t = [tangents[i * 4], tangents[i * 4 + 1], tangents[i * 4 + 2]];
+            const n = normals.slice(i * 3, i * 3 + 3);
+            assert.ok(Math.abs(t[0] * n[0] + t[1] * n[1] + t[2] * n[2]) < 1e-6, `Tangent ${i} is not perpendicular to its normal.`);
+            assert.ok(Math.abs(Math.hypot(t[0], t[1], t[2]) - 1) < 1e-6, `Tangent ${i} is not a unit vector.`);
+            assert.strictEqual(tangents[i * 4 + 3], 1);
+        }
+    });
+
+    test("Welds vertices with identical attributes so they share a tangent", () => {
+        // The same quad without indices: the two copies of each shared corner are welded.
+        const positions = [0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 0, 0, 1, 1, 0, 0, 1, 0];
+        const normals = [0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1];
+        // The corner at the origin has a different texture coordinate in each triangle, so it is not welded,
+        // and the skew gives the two triangles different tangents.
+        const texCoords = [0, 0.5, 1, 1, 1, 0, 0, 1, 1, 0, 0, 0];
+        const tangents = generateTangents(positions, normals, texCoords, [0, 1, 2, 3, 4, 5]);
+        assertClose(tangents.subarray(2 * 4, 3 * 4), Array.from(tangents.subarray(4 * 4, 5 * 4)), 'Welded corner');
+        assert.notDeepStrictEqual(Array.from(tangents.subarray(0, 4)), Array.from(tangents.subarray(3 * 4, 4 * 4)));
+    });
+
+    test("Falls back on any perpendicular direction where the texture coordinates give none", () => {
+        const texCoords = [0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 0.5];
+        const tangents = generateTangents(quadPositions, quadNormals, texCoords, quadIndices);
+        for (let i = 0; i < 4; ++i) {
+            assertClose(tangents.subarray(i * 4, i * 4 + 4), [1, 0, 0, 1]);
+        }
+    });
+});
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { upgradeGltf1 } from '../../server/src/gltfUpgrade';
+
+// The fixtures are not compiled, so they are read from the source tree rather than from `out`.
+const fixturesFolder = path.join(__dirname, '..', '..', '..', 'test', 'fixtures', 'upgrade');
+
+function readFixture(fileName: string): any {
+    return JSON.parse(fs.readFileSync(path.join(fixturesFolder, fileName), 'utf-8'));
+}
+
+suite("glTF 1.0 Upgrade", () => {
+
+    test("Converts a glTF 1.0 document to the expected glTF 2.0 document", () => {
+        const result = upgradeGltf1(readFixture('interleaved.gltf'));
+        assert.deepStrictEqual(result.glTF, readFixture('interleaved.expected.gltf'));
+        assert.deepStrictEqual(result.warnings, []);
+    });
+
+    test("Gives each stride of a shared bufferView its own bufferView", () => {
+        const glTF = upgradeGltf1(readFixture('interleaved.gltf')).glTF;
+        const strideOf = (accessorIndex: number) => glTF.bufferViews[glTF.accessors[accessorIndex].bufferView].byteStride;
+        assert.strictEqual(strideOf(0), 24);
+        assert.strictEqual(strideOf(1), 24);
+        assert.strictEqual(strideOf(2), 8);
+        assert.strictEqual(strideOf(3), undefined);
+        assert.notStrictEqual(glTF.accessors[2].bufferView, glTF.accessors[0].bufferView);
+    });
+
+    test("Converts KHR_materials_common materials", () => {
+        const glTF = upgradeGltf1(readFixture('interleaved.gltf')).glTF;
+        const [blinn, constant] = glTF.materials;
+        assert.deepStrictEqual(blinn.pbrMetallicRoughness.baseColorTexture, { index: 0 });
+        assert.strictEqual(blinn.pbrMetallicRoughness.roughnessFactor, 0.25);
+        assert.strictEqual(blinn.emissiveFactor, undefined);
+        assert.strictEqual(blinn.doubleSided, true);
+        assert.deepStrictEqual(constant.pbrMetallicRoughness.baseColorFactor, [1, 0, 1, 0.5]);
+        assert.strictEqual(constant.alphaMode, 'BLEND');
+        assert.deepStrictEqual(constant.extensions, { KHR_materials_unlit: {} });
+        assert.deepStrictEqual(glTF.extensionsUsed, ['KHR_materials_unlit']);
+    });
+
+    test("Reports a bufferView stride that glTF 2.0 does not allow", () => {
+        let glTF1 = readFixture('interleaved.gltf');
+        glTF1.accessors.texcoord.byteStride = 10;
+        const result = upgradeGltf1(glTF1);
+        assert.deepStrictEqual(result.warnings, ['A vertex attribute has a byteStride of 10, but glTF 2.0 requires a multiple of 4.']);
+    });
+});